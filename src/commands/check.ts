@@ -0,0 +1,77 @@
+import path from "path";
+import chalk from "chalk";
+import { loadSchemaSource } from "../services/diff.service.js";
+import { diffSchemas } from "../helpers/schemaDiff.js";
+import {
+  classifySchemaChanges,
+  formatClassifiedChanges,
+  isAtLeast,
+  parseSeverity,
+  summarizeSeverities,
+} from "../helpers/schemaCompatibility.js";
+
+interface CheckCommandOptions {
+  failOn?: string;
+  json?: boolean;
+  schema?: string;
+}
+
+/**
+ * Checks the compatibility of the changes between two schemas
+ * @description Each change is classified as safe, risky or breaking. The command exits with a
+ * non-zero status when a change reaches the `--fail-on` severity, `breaking` by default, so CI can
+ * enforce a policy such as no breaking changes on a production project. Sources are those of
+ * `hosby diff`
+ * @param {string} [from] - Schema before the changes, the server schema by default
+ * @param {string} [to] - Schema after the changes, the local schema file by default
+ * @param {CheckCommandOptions} [options] - Failure threshold, output format and local schema file
+ */
+export async function check(
+  from = "server",
+  to = "local",
+  options?: CheckCommandOptions
+): Promise<void> {
+  const schemaFile = path.resolve(options?.schema || "hosby.schema.json");
+
+  try {
+    const threshold = parseSeverity(options?.failOn || "breaking");
+    const before = await loadSchemaSource(from, schemaFile);
+    const after = await loadSchemaSource(to, schemaFile);
+    const classified = classifySchemaChanges(
+      diffSchemas(before.schema, after.schema, { detectRenames: true })
+    );
+    const failing = classified.filter(item => isAtLeast(item.severity, threshold));
+
+    if (failing.length > 0) process.exitCode = 1;
+
+    if (options?.json) {
+      const changes = classified.map(({ change, severity, reason }) => ({
+        ...change,
+        severity,
+        reason,
+      }));
+      console.log(
+        JSON.stringify({ from: before.label, to: after.label, failOn: threshold, changes }, null, 2)
+      );
+      return;
+    }
+
+    console.log(chalk.red(`--- ${before.label}`));
+    console.log(chalk.green(`+++ ${after.label}`));
+    formatClassifiedChanges(classified).forEach(line => console.log(line));
+    console.log(chalk.gray(summarizeSeverities(classified)));
+
+    if (failing.length > 0) {
+      console.error(
+        chalk.red(
+          `❌ ${failing.length} ${failing.length === 1 ? "change is" : "changes are"} ${threshold} or worse.`
+        )
+      );
+    } else {
+      console.log(chalk.green(`✅ No ${threshold} changes.`));
+    }
+  } catch (error: unknown) {
+    console.error(`❌ ${(error as Error)?.message || "Unknown error"}`);
+    process.exitCode = 1;
+  }
+}
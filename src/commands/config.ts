@@ -1,6 +1,7 @@
 import inquirer from "inquirer";
 import { configProject } from "../services/config.service.js";
 import { configAI } from "../services/config.service.js";
+import { configNaming } from "../services/config.service.js";
 
 /**
  * Main config command that handles subcommands
@@ -16,6 +17,7 @@ export async function config(type?: string): Promise<void> {
         choices: [
           { name: "Project settings", value: "project" },
           { name: "AI provider", value: "ai" },
+          { name: "Table naming", value: "naming" },
         ],
       },
     ]);
@@ -30,8 +32,11 @@ export async function config(type?: string): Promise<void> {
     case "ai":
       await configAI();
       break;
+    case "naming":
+      await configNaming();
+      break;
     default:
-      console.error("❌ Invalid configuration type. Use 'project' or 'ai'.");
+      console.error("❌ Invalid configuration type. Use 'project', 'ai' or 'naming'.");
       break;
   }
 }
@@ -7,23 +7,40 @@ import {
 } from "../helpers/utils.js";
 import { generateService, validateAndGetTable } from "../services/create-service.service.js";
 
+/**
+ * Options of service generation
+ * @property {string} [schemaPath] - Schema file to read, hosby.schema.json of the working
+ * directory by default
+ * @property {boolean} [useAI] - Whether to generate the service with AI, asked if omitted
+ */
+export interface CreateServiceOptions {
+  schemaPath?: string;
+  useAI?: boolean;
+}
+
 /**
  * Generate a CRUD service for a specific table
  * @param tableName - Name of the table to generate a service for
+ * @param options - Schema file and generation mode
  * @returns Promise<boolean> - True if service was generated successfully, false otherwise
  */
-export async function createService(tableName?: string): Promise<boolean> {
+export async function createService(
+  tableName?: string,
+  options: CreateServiceOptions = {}
+): Promise<boolean> {
   try {
     // Validate schema and get table name
-    const { isValid, schema, validTableName } = await validateAndGetTable(tableName);
+    const { isValid, schema, validTableName } = await validateAndGetTable(
+      tableName,
+      options.schemaPath
+    );
     if (!isValid || !validTableName) return false;
 
     const servicesDir = ensureDirectories();
 
-    const useAI = await promptForUsage(
-      "useAI",
-      "Would you like to use AI to generate this service?"
-    );
+    const useAI =
+      options.useAI ??
+      (await promptForUsage("useAI", "Would you like to use AI to generate this service?"));
     const { spinner, spinnerUpdateInterval } = startSpinner(validTableName);
 
     try {
@@ -0,0 +1,45 @@
+import path from "path";
+import chalk from "chalk";
+import { loadSchemaSource } from "../services/diff.service.js";
+import { diffSchemas, formatSchemaChanges, summarizeSchemaChanges } from "../helpers/schemaDiff.js";
+
+interface DiffCommandOptions {
+  json?: boolean;
+  schema?: string;
+}
+
+/**
+ * Compares two schemas table by table and column by column
+ * @description Each side is `local`, `last-pull`, `last-push`, `server`, a schema file or a git revision of the
+ * schema file. Added, removed and changed tables and columns are listed, with rename candidates;
+ * `--json` prints the changes as JSON instead
+ * @param {string} [from] - Schema before the changes, the last pushed schema by default
+ * @param {string} [to] - Schema after the changes, the local schema file by default
+ * @param {DiffCommandOptions} [options] - Output format and local schema file
+ */
+export async function diff(
+  from = "last-push",
+  to = "local",
+  options?: DiffCommandOptions
+): Promise<void> {
+  const schemaFile = path.resolve(options?.schema || "hosby.schema.json");
+
+  try {
+    const before = await loadSchemaSource(from, schemaFile);
+    const after = await loadSchemaSource(to, schemaFile);
+    const changes = diffSchemas(before.schema, after.schema, { detectRenames: true });
+
+    if (options?.json) {
+      console.log(JSON.stringify({ from: before.label, to: after.label, changes }, null, 2));
+      return;
+    }
+
+    console.log(chalk.red(`--- ${before.label}`));
+    console.log(chalk.green(`+++ ${after.label}`));
+    formatSchemaChanges(changes).forEach(line => console.log(line));
+    console.log(chalk.gray(summarizeSchemaChanges(changes)));
+  } catch (error: unknown) {
+    console.error(`❌ ${(error as Error)?.message || "Unknown error"}`);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,86 @@
+import path from "path";
+import chalk from "chalk";
+import { getProvenancePath, readProvenance } from "../helpers/provenance.js";
+import { ProvenanceSource } from "../types/types.js";
+
+interface ExplainOptions {
+  schema?: string;
+}
+
+/**
+ * Labels of the provenance kinds
+ */
+const SOURCE_LABELS: Record<ProvenanceSource["kind"], string> = {
+  declaration: "declaration",
+  validator: "validator schema",
+  openapi: "OpenAPI schema",
+  graphql: "GraphQL type",
+  fixture: "fixture",
+  mock: "mock array",
+  ai: "AI match",
+};
+
+/**
+ * Prints where a table of the schema and its columns come from
+ * @description Reads the provenance file written next to the schema by `hosby scan`
+ * @param {string} table - Table name
+ * @param {ExplainOptions} [options] - Schema file, hosby.schema.json of the working directory by
+ * default
+ */
+export function explain(table: string, options?: ExplainOptions): void {
+  const schemaPath = path.resolve(options?.schema || "hosby.schema.json");
+  const provenance = readProvenance(schemaPath);
+
+  if (!provenance) {
+    console.error(
+      `❌ No provenance found at ${getProvenancePath(schemaPath)}. Run "hosby scan" to record where tables come from.`
+    );
+    return;
+  }
+
+  const entry = provenance.tables[table];
+  if (!entry) {
+    console.error(`❌ Table '${table}' has no recorded origin.`);
+    console.error(`Known tables: ${Object.keys(provenance.tables).sort().join(", ") || "none"}`);
+    return;
+  }
+
+  const scanner = provenance.scanner === "ai" ? "AI scan" : "static scan";
+  console.log(`${chalk.bold(table)} ${chalk.gray(`(${scanner})`)}`);
+
+  if (entry.sources.length === 0) {
+    console.log(
+      `  No declaration matches it in the ${provenance.files?.length ?? 0} files sent to the AI`
+    );
+  }
+  entry.sources.forEach(source => console.log(`  from ${formatSource(source)}`));
+
+  const columns = Object.entries(entry.columns);
+  if (columns.length > 0) {
+    const width = Math.max(...columns.map(([column]) => column.length));
+    console.log("  columns:");
+    columns.forEach(([column, source]) =>
+      console.log(`    ${column.padEnd(width)}  ${chalk.gray(formatLocation(source))}`)
+    );
+  }
+}
+
+/**
+ * Describes a source of a table
+ * @param {ProvenanceSource} source - Table source
+ * @returns {string} Kind, declaration and location, e.g. `declaration User at src/models.ts:3`
+ */
+function formatSource(source: ProvenanceSource): string {
+  const declaration = source.declaration ? ` ${chalk.cyan(source.declaration)}` : "";
+  return `${SOURCE_LABELS[source.kind]}${declaration} at ${formatLocation(source)}`;
+}
+
+/**
+ * Formats a source location relative to the working directory
+ * @param {ProvenanceSource} source - Table or column source
+ * @returns {string} `file:line`
+ */
+function formatLocation(source: ProvenanceSource): string {
+  const file = path.relative(process.cwd(), source.file) || source.file;
+  return source.line ? `${file}:${source.line}` : file;
+}
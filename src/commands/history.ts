@@ -0,0 +1,61 @@
+import path from "path";
+import chalk from "chalk";
+import {
+  fetchSchemaHistory,
+  fetchSchemaRevision,
+  formatSchemaHistory,
+  requireProject,
+} from "../services/history.service.js";
+import { readSyncBase } from "../services/pull.service.js";
+
+interface HistoryOptions {
+  json?: boolean;
+  limit?: number;
+}
+
+/**
+ * Lists the pushed revisions of the project schema
+ * @description Each revision shows its author, time, schema hash, version and a summary of its
+ * changes. The revision the local schema was last synchronized with is marked with `*`
+ * @param {HistoryOptions} [options] - Output format and maximum number of revisions
+ */
+export async function history(options?: HistoryOptions): Promise<void> {
+  try {
+    const { credentials, project } = await requireProject();
+    const revisions = await fetchSchemaHistory(credentials, project, options?.limit);
+
+    if (options?.json) {
+      console.log(JSON.stringify(revisions, null, 2));
+      return;
+    }
+
+    if (revisions.length === 0) {
+      console.log(chalk.blue("ℹ️ No revision pushed yet."));
+      return;
+    }
+
+    const base = readSyncBase(
+      path.join(process.cwd(), ".hosby-last-pull"),
+      path.join(process.cwd(), ".hosby-last-push")
+    );
+    formatSchemaHistory(revisions, base?.revision).forEach(line => console.log(line));
+  } catch (error: unknown) {
+    console.error(`❌ ${(error as Error)?.message || "Unknown error"}`);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Prints the schema of a pushed revision as JSON
+ * @param {string} revision - Revision identifier
+ */
+export async function showRevision(revision: string): Promise<void> {
+  try {
+    const { credentials, project } = await requireProject();
+    const schema = await fetchSchemaRevision(credentials, project, revision);
+    console.log(JSON.stringify(schema, null, 2));
+  } catch (error: unknown) {
+    console.error(`❌ ${(error as Error)?.message || "Unknown error"}`);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,59 @@
+import path from "path";
+import ora from "ora";
+import logger from "../helpers/logger.js";
+import { IMPORT_FORMATS, importSchema } from "../scripts/importSchema.js";
+import { processAndFilterSchema } from "../scripts/processAndFilterSchema.js";
+import { getTableNaming } from "../config/projectConfig.js";
+import { HosbySchema, ImportFormat } from "../types/types.js";
+
+interface ImportOptions {
+  format?: string;
+}
+
+/**
+ * Imports existing ORM/ODM definitions or API contracts into hosby.schema.json
+ * @param {string} source - File or directory holding the Prisma, TypeORM, Drizzle, Mongoose, OpenAPI
+ * or GraphQL definitions
+ * @param {ImportOptions} options - Import options
+ */
+export async function importDefinitions(source: string, options?: ImportOptions): Promise<void> {
+  const format = options?.format;
+  if (format && !(format in IMPORT_FORMATS)) {
+    console.error(
+      `❌ Unknown format "${format}". Use one of: ${Object.keys(IMPORT_FORMATS).join(", ")}.`
+    );
+    return;
+  }
+
+  const naming = getTableNaming();
+  const filteredSchema: HosbySchema = { tables: {} };
+  const schemaStats = { tableCount: 0, columnCount: 0 };
+
+  const spinner = ora(`🔹 Importing definitions from ${source}...`).start();
+
+  try {
+    const schema = await importSchema(source, { format: format as ImportFormat, naming });
+    const importedFrom = schema.metadata?.importedFrom as ImportFormat;
+    spinner.succeed(
+      `Read ${Object.keys(schema.tables).length} tables from ${IMPORT_FORMATS[importedFrom]}. 🚀`
+    );
+    spinner.start();
+
+    await processAndFilterSchema(
+      schema,
+      filteredSchema,
+      schemaStats,
+      spinner,
+      path.join(process.cwd(), "hosby.schema.json")
+    );
+    spinner.stop();
+
+    if (schemaStats.tableCount > 0) {
+      logger.info(
+        `Schema statistics: ${schemaStats.tableCount} Tables with ${schemaStats.columnCount} Fields`
+      );
+    }
+  } catch (error: unknown) {
+    spinner.fail(`❌ Import failed: ${(error as Error)?.message || "Unknown error"}`);
+  }
+}
@@ -27,10 +27,12 @@ export async function pull(): Promise<void> {
 
   const schemaFile = path.join(process.cwd(), "hosby.schema.json");
   const lastPullTimeFile = path.join(process.cwd(), ".hosby-last-pull");
+  const lastPushFile = path.join(process.cwd(), ".hosby-last-push");
 
-  const { schemaData, localSchemaHash, lastPullTime } = await getLocalSchemaInfo(
+  const { schemaData, localSchemaHash, lastPullTime, base } = await getLocalSchemaInfo(
     schemaFile,
-    lastPullTimeFile
+    lastPullTimeFile,
+    lastPushFile
   );
 
   const credentials = await requireLogin();
@@ -62,7 +64,7 @@ export async function pull(): Promise<void> {
       schemaFile,
       lastPullTimeFile,
       spinner,
-      lastPullTime
+      base
     );
   } catch (err: unknown) {
     handlePullError(err as Error, spinner);
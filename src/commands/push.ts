@@ -1,8 +1,9 @@
+import fs from "fs";
 import path from "path";
 import ora from "ora";
 import chalk from "chalk";
 import { createLogger } from "../helpers/logger.js";
-import { checkSchemaExists } from "../helpers/utils.js";
+import { checkSchemaExists, getSchemaHash, getServerRevision } from "../helpers/utils.js";
 import {
   getLocalSchemaInfo,
   authenticate,
@@ -10,65 +11,172 @@ import {
   pushSchemaToServer,
   updateLastPushFile,
   handlePushError,
+  isStaleBaseError,
+  handleStaleBase,
+  fetchPushPlan,
+  needsPushPlan,
+  reviewPushPlan,
+  planPushVersion,
+  recordSchemaVersion,
 } from "../services/push.service.js";
+import { readSyncBase } from "../services/pull.service.js";
+import { ChangeSeverity, parseSeverity } from "../helpers/schemaCompatibility.js";
 import { getProjectInfos } from "../core/config.js";
 
 const logger = createLogger("push");
 
+interface PushOptions {
+  dryRun?: boolean;
+  allowDestructive?: boolean;
+  failOn?: string;
+}
+
 /**
  * Pushes the local schema to the Hosby server
- * @description Uploads the local schema.json file to the Hosby server
+ * @description Uploads the local schema.json file to the Hosby server along with the server revision
+ * it was derived from. When a teammate pushed in between, the server rejects the push and the
+ * server schema can be pulled and merged before pushing again. When someone can confirm them, the
+ * tables and columns the push creates, alters or drops are shown first and destructive changes
+ * need a confirmation, unless `--allow-destructive` is passed. Changes as severe as `--fail-on`
+ * refuse the push, and `--dry-run` stops after showing them. The schema version is bumped from the
+ * impact of the changes since the last push, and the pushed version is recorded in
+ * HOSBY_SCHEMA_CHANGELOG.md
  * @param {boolean} force - If true, push even if schema is unchanged
+ * @param {PushOptions} [options] - Dry run, destructive changes permission and severity threshold
  * @returns {Promise<void>}
  */
-export async function push(force = false): Promise<void> {
+export async function push(force = false, options: PushOptions = {}): Promise<void> {
   if (!checkSchemaExists()) {
     logger.warn("No schema file found in the current directory");
     return;
   }
 
+  try {
+    const failOn = options.failOn ? parseSeverity(options.failOn) : undefined;
+
+    // A schema merged after a stale base rejection is pushed again
+    let retry = true;
+    while (retry) {
+      retry = await pushOnce(force, { ...options, failOn });
+    }
+  } catch (err: unknown) {
+    const spinner = ora().fail("❌ Error during push operation");
+    handlePushError(err, spinner);
+  }
+}
+
+/**
+ * Pushes the local schema once
+ * @description The bumped version is only written to the schema file once the server accepted
+ * the push, so a refused or rejected push leaves the file untouched
+ * @param {boolean} force - If true, push even if schema is unchanged
+ * @param {Omit<PushOptions, "failOn"> & {failOn?: ChangeSeverity}} options - Dry run, destructive
+ * changes permission and parsed severity threshold
+ * @returns {Promise<boolean>} True if the push was rejected as stale and the merged schema should
+ * be pushed again
+ */
+async function pushOnce(
+  force: boolean,
+  options: Omit<PushOptions, "failOn"> & { failOn?: ChangeSeverity }
+): Promise<boolean> {
   const schemaFile = path.join(process.cwd(), "hosby.schema.json");
   const lastPushFile = path.join(process.cwd(), ".hosby-last-push");
+  const lastPullTimeFile = path.join(process.cwd(), ".hosby-last-pull");
+  const changelogFile = path.join(process.cwd(), "HOSBY_SCHEMA_CHANGELOG.md");
 
-  try {
-    const { schemaData, schemaHash } = await getLocalSchemaInfo(schemaFile);
+  const { schemaData, schemaHash: localSchemaHash } = await getLocalSchemaInfo(schemaFile);
 
-    const schemaChanged = await hasSchemaChanged(lastPushFile, schemaHash, force);
-    if (!schemaChanged) {
-      console.log(chalk.blue("ℹ️ Schema unchanged since last push. Use --force to push anyway."));
-      return;
-    }
+  const schemaChanged = await hasSchemaChanged(lastPushFile, localSchemaHash, force);
+  if (!schemaChanged) {
+    console.log(chalk.blue("ℹ️ Schema unchanged since last push. Use --force to push anyway."));
+    return false;
+  }
+
+  const versionChange = planPushVersion(lastPushFile, schemaData);
+  const versioned = versionChange.version !== schemaData.version;
+  schemaData.version = versionChange.version;
+  const schemaHash = versioned ? getSchemaHash(schemaData) : localSchemaHash;
 
-    const credentials = await authenticate();
-    const projectCredentials = await getProjectInfos();
+  const credentials = await authenticate();
+  const projectCredentials = await getProjectInfos();
 
-    if (!projectCredentials) {
-      logger.error("Failed to get project information");
-      console.error(
-        chalk.red("❌ Failed to get project information. Please check your project configuration.")
+  if (!projectCredentials) {
+    logger.error("Failed to get project information");
+    console.error(
+      chalk.red("❌ Failed to get project information. Please check your project configuration.")
+    );
+    return false;
+  }
+
+  const baseRevision = readSyncBase(lastPullTimeFile, lastPushFile)?.revision;
+  console.log(
+    chalk.cyan(
+      `🏷️ Schema version ${versionChange.previous ? `${versionChange.previous} → ` : ""}${versionChange.version}` +
+        (versionChange.bump ? ` (${versionChange.bump})` : "")
+    )
+  );
+  const spinner = ora("🔹 Planning push...").start();
+
+  let response;
+  try {
+    if (needsPushPlan(options)) {
+      const plan = await fetchPushPlan(
+        credentials,
+        projectCredentials,
+        schemaData,
+        schemaHash,
+        baseRevision
       );
-      return;
+      spinner.stop();
+      if (!(await reviewPushPlan(plan, options))) return false;
     }
 
-    const spinner = ora("🚀 Pushing schema to server...").start();
-
-    const response = await pushSchemaToServer(
+    spinner.start("🚀 Pushing schema to server...");
+    response = await pushSchemaToServer(
       credentials,
       projectCredentials,
       schemaData,
-      schemaHash
+      schemaHash,
+      baseRevision
     );
+  } catch (err: unknown) {
+    if (!isStaleBaseError(err)) {
+      spinner.stop();
+      throw err;
+    }
 
-    updateLastPushFile(lastPushFile, schemaHash, projectCredentials.id);
+    const retry = await handleStaleBase(
+      err,
+      credentials,
+      projectCredentials,
+      schemaFile,
+      lastPullTimeFile,
+      lastPushFile,
+      spinner
+    );
+    if (!retry) process.exitCode = 1;
+    return retry;
+  }
 
-    spinner.succeed("🚀 Push completed successfully!");
-    logger.info("Schema pushed successfully", {
-      id: projectCredentials.id,
-      responseStatus: response.status,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (err: unknown) {
-    const spinner = ora().fail("❌ Error during push operation");
-    handlePushError(err, spinner);
+  if (versioned) {
+    fs.writeFileSync(schemaFile, JSON.stringify(schemaData, null, 2), "utf-8");
   }
+
+  updateLastPushFile(
+    lastPushFile,
+    schemaHash,
+    projectCredentials.id,
+    schemaData,
+    getServerRevision(response.data)
+  );
+
+  recordSchemaVersion(changelogFile, versionChange);
+
+  spinner.succeed(`🚀 Push completed successfully! Schema version ${versionChange.version}.`);
+  logger.info("Schema pushed successfully", {
+    id: projectCredentials.id,
+    responseStatus: response.status,
+    timestamp: new Date().toISOString(),
+  });
+  return false;
 }
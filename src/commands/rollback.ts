@@ -0,0 +1,86 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import inquirer from "inquirer";
+import { fetchSchemaRevision, requireProject } from "../services/history.service.js";
+import { updateSchemaFile } from "../services/pull.service.js";
+import { diffSchemas, summarizeSchemaChanges } from "../helpers/schemaDiff.js";
+import {
+  classifySchemaChanges,
+  formatClassifiedChanges,
+  summarizeSeverities,
+} from "../helpers/schemaCompatibility.js";
+import { isNonInteractive } from "../helpers/utils.js";
+import { SchemaData } from "../types/types.js";
+import { push } from "./push.js";
+
+interface RollbackOptions {
+  push?: boolean;
+  yes?: boolean;
+  allowDestructive?: boolean;
+}
+
+/**
+ * Restores the schema of a pushed revision into the local schema file
+ * @description The changes the rollback makes to the local schema are shown and confirmed first,
+ * unless `--yes` is passed. With `--push`, the restored schema is then pushed as a new version
+ * @param {string} revision - Revision identifier, as listed by `hosby history`
+ * @param {RollbackOptions} [options] - Confirmation, push and destructive changes permission
+ */
+export async function rollback(revision: string, options?: RollbackOptions): Promise<void> {
+  const schemaFile = path.join(process.cwd(), "hosby.schema.json");
+
+  try {
+    const { credentials, project } = await requireProject();
+    const restored = await fetchSchemaRevision(credentials, project, revision);
+    const local: SchemaData = fs.existsSync(schemaFile)
+      ? JSON.parse(fs.readFileSync(schemaFile, "utf-8"))
+      : { tables: {} };
+
+    const changes = diffSchemas(local, restored, { detectRenames: true });
+    if (changes.length === 0 && local.version === restored.version) {
+      console.log(chalk.blue(`ℹ️ The local schema already matches revision ${revision}.`));
+      return;
+    }
+
+    const classified = classifySchemaChanges(changes);
+    console.log(chalk.cyan(`\nRolling back the local schema to revision ${revision}:`));
+    formatClassifiedChanges(classified).forEach(line => console.log(`  ${line}`));
+    console.log(
+      chalk.gray(`  ${summarizeSchemaChanges(changes)} (${summarizeSeverities(classified)})\n`)
+    );
+
+    if (!options?.yes) {
+      if (isNonInteractive()) {
+        console.error(chalk.red("❌ Pass --yes to roll back without a confirmation."));
+        process.exitCode = 1;
+        return;
+      }
+
+      const { confirmed } = await inquirer.prompt([
+        {
+          type: "confirm",
+          name: "confirmed",
+          message: `Replace ${path.basename(schemaFile)} with revision ${revision}?`,
+          default: false,
+        },
+      ]);
+      if (!confirmed) {
+        console.log(chalk.yellow("Rollback cancelled."));
+        return;
+      }
+    }
+
+    updateSchemaFile(schemaFile, restored);
+    console.log(chalk.green(`✅ Local schema restored to revision ${revision}.`));
+
+    if (options?.push) {
+      await push(false, { allowDestructive: options.allowDestructive });
+    } else {
+      console.log(chalk.gray("Run `hosby push` to publish it as a new version."));
+    }
+  } catch (error: unknown) {
+    console.error(`❌ ${(error as Error)?.message || "Unknown error"}`);
+    process.exitCode = 1;
+  }
+}
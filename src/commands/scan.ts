@@ -7,19 +7,36 @@ import { analyzeWithAI } from "../core/ai.js";
 import logger from "../helpers/logger.js";
 import { hosbyContentClientPrompt } from "../scripts/prompts.js";
 import { createService } from "./create-service.js";
-import { validateScanPath } from "../helpers/utils.js";
+import { isNonInteractive, validateScanPath } from "../helpers/utils.js";
 import { ensureHosbyTsInstalled, installHosbyTs } from "../scripts/ensureHosbyTsInstalled.js";
-import { AIProvider, HosbySchema } from "../types/types.js";
+import { AIProvider, HosbySchema, SchemaProvenance } from "../types/types.js";
 import { processAndFilterSchema } from "../scripts/processAndFilterSchema.js";
+import { getTableNaming } from "../config/projectConfig.js";
+import { renameSchemaTables } from "../helpers/naming.js";
+import { watchSchema } from "../services/watch.service.js";
+import { renameProvenanceTables, writeProvenance } from "../helpers/provenance.js";
 
 interface ScanOptions {
   ai?: boolean;
   timeout?: number;
   provider?: string;
+  cache?: boolean;
+  watch?: boolean;
+  regenerateServices?: boolean;
+  out?: string;
+  clientOut?: string;
+  client?: boolean;
+  services?: string;
+  yes?: boolean;
+  merge?: boolean;
 }
 
 /**
  * Scans a project directory and generates a schema
+ * @description `--out`, `--client-out`, `--no-client`, `--services` and `--yes` make the scan run
+ * without any question, e.g. in scripts and CI. Services are generated from the template, without
+ * AI, when they are selected with `--services` or nobody can be asked. `--merge` keeps the manual
+ * edits of an existing schema file
  * @param {string} scanPath - Path to scan for project files
  * @param {ScanOptions} options - Scan options
  */
@@ -29,21 +46,54 @@ export async function scan(scanPath: string = ".", options?: ScanOptions): Promi
   }
 
   const useAI = options?.ai ?? false;
+  const naming = getTableNaming();
+  const schemaPath = options?.out
+    ? path.resolve(options.out)
+    : path.join(scanPath, "hosby.schema.json");
+  const writeClient = options?.client !== false;
+
+  if (options?.watch) {
+    if (useAI) {
+      console.error("❌ Watch mode uses the static scanner and cannot be combined with --ai.");
+      return;
+    }
+
+    try {
+      await watchSchema(scanPath, {
+        schemaPath,
+        naming,
+        merge: options.merge,
+        servicesDir: options.regenerateServices
+          ? path.join(process.cwd(), "src", "services")
+          : undefined,
+      });
+    } catch (error: unknown) {
+      console.error(`❌ Cannot watch ${scanPath}: ${(error as Error)?.message || "Unknown error"}`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
   let schema: HosbySchema;
+  let provenance: SchemaProvenance = { scanner: useAI ? "ai" : "static", tables: {} };
   const filteredSchema: HosbySchema = { tables: {} };
   const schemaStats = { tableCount: 0, columnCount: 0 };
 
   const spinner = ora("🔹 Analyzing project...").start();
 
   try {
-    spinner.text = "🔍 Checking for hosby-ts installation...";
-    const isInstalled = await ensureHosbyTsInstalled();
+    // The client is the only part of the scan that needs hosby-ts
+    let isInstalled = true;
+    if (writeClient) {
+      spinner.text = "🔍 Checking for hosby-ts installation...";
+      isInstalled = await ensureHosbyTsInstalled();
 
-    if (!isInstalled) {
-      spinner.info("📚 hosby-ts not found. Will install after schema generation.");
-    } else {
-      spinner.succeed("hosby-ts is already installed.");
-      spinner.start();
+      if (!isInstalled) {
+        spinner.info("📚 hosby-ts not found. Will install after schema generation.");
+      } else {
+        spinner.succeed("hosby-ts is already installed.");
+        spinner.start();
+      }
     }
 
     if (useAI) {
@@ -56,6 +106,8 @@ export async function scan(scanPath: string = ".", options?: ScanOptions): Promi
         schema = await analyzeWithAI(scanPath, {
           timeout: options?.timeout || 60000,
           provider,
+          cache: options?.cache,
+          provenance,
         });
 
         if (!schema || typeof schema !== "object" || !("tables" in schema)) {
@@ -63,6 +115,9 @@ export async function scan(scanPath: string = ".", options?: ScanOptions): Promi
           return;
         }
 
+        schema = renameSchemaTables(schema, naming);
+        provenance = renameProvenanceTables(provenance, naming);
+
         console.log("✔ AI analysis completed successfully. 🚀");
         spinner.start("Processing schema...");
       } catch (error: unknown) {
@@ -73,7 +128,11 @@ export async function scan(scanPath: string = ".", options?: ScanOptions): Promi
       spinner.text = "🔍 Scanning project with TypeScript analyzer...";
 
       try {
-        schema = await scanProject(scanPath);
+        schema = await scanProject(scanPath, {
+          naming,
+          cache: options?.cache,
+          provenance,
+        });
         spinner.succeed("Project scan completed successfully. 🚀");
         spinner.start();
       } catch (error: unknown) {
@@ -83,7 +142,13 @@ export async function scan(scanPath: string = ".", options?: ScanOptions): Promi
     }
 
     //Process and filter schema
-    processAndFilterSchema(schema, filteredSchema, schemaStats, spinner, scanPath);
+    await processAndFilterSchema(schema, filteredSchema, schemaStats, spinner, schemaPath, {
+      merge: options?.merge,
+      yes: options?.yes,
+    });
+    if (schemaStats.tableCount > 0) {
+      writeProvenance(schemaPath, provenance, Object.keys(filteredSchema.tables));
+    }
 
     //Install hosby-ts if needed
     if (!isInstalled) {
@@ -92,30 +157,27 @@ export async function scan(scanPath: string = ".", options?: ScanOptions): Promi
     }
 
     //Generate Hosby client
-    spinner.text = "📄 Generating Hosby client...";
-    const libDir = path.join(process.cwd(), "src", "api");
-    if (!fs.existsSync(libDir)) fs.mkdirSync(libDir, { recursive: true });
-
-    const clientFile = path.join(libDir, "hosbyClient.ts");
-    const clientContent = hosbyContentClientPrompt;
+    if (writeClient) {
+      spinner.text = "📄 Generating Hosby client...";
+      const clientFile = options?.clientOut
+        ? path.resolve(options.clientOut)
+        : path.join(process.cwd(), "src", "api", "hosbyClient.ts");
+      const clientContent = hosbyContentClientPrompt;
 
-    try {
-      fs.writeFileSync(clientFile, clientContent, "utf-8");
-      spinner.succeed(`Client Hosby generated: ${clientFile} ! 🎉`);
-    } catch (error: unknown) {
-      spinner.fail(`Failed to generate client: ${(error as Error)?.message || "Unknown error"}`);
-      return;
+      try {
+        fs.mkdirSync(path.dirname(clientFile), { recursive: true });
+        fs.writeFileSync(clientFile, clientContent, "utf-8");
+        spinner.succeed(`Client Hosby generated: ${clientFile} ! 🎉`);
+      } catch (error: unknown) {
+        spinner.fail(`Failed to generate client: ${(error as Error)?.message || "Unknown error"}`);
+        return;
+      }
+    } else {
+      spinner.stop();
     }
 
     //Display schema statistics
     if (filteredSchema && filteredSchema.tables) {
-      const removedCount =
-        Object.keys(schema.tables as Record<string, unknown>).length -
-        Object.keys(filteredSchema.tables as Record<string, unknown>).length;
-      if (removedCount > 0) {
-        console.log(`\n ✔ Filtered out ${removedCount} UI component tables from schema`);
-      }
-
       if (schemaStats.tableCount > 0) {
         logger.info(
           `Schema statistics: ${schemaStats.tableCount} Tables with ${schemaStats.columnCount} Fields`
@@ -134,77 +196,42 @@ export async function scan(scanPath: string = ".", options?: ScanOptions): Promi
         if (Object.keys(filteredSchema.tables).length > 0) {
           spinner.stop();
 
-          const { generateServices } = await inquirer.prompt([
-            {
-              type: "confirm",
-              name: "generateServices",
-              message: "Would you like to generate CRUD service modules for these tables?",
-              default: false,
-            },
-          ]);
-
-          if (generateServices) {
-            const { generateForAll } = await inquirer.prompt([
-              {
-                type: "confirm",
-                name: "generateForAll",
-                message:
-                  "Generate services for all tables? (No will let you select specific tables)",
-                default: true,
-              },
-            ]);
-
-            let selectedTables: string[] = [];
-
-            if (generateForAll) {
-              selectedTables = Object.keys(filteredSchema.tables);
-            } else {
-              const result = await inquirer.prompt([
-                {
-                  type: "checkbox",
-                  name: "selectedTables",
-                  message: "Select tables to generate services for:",
-                  choices: Object.keys(filteredSchema.tables).map(name => ({
-                    name,
-                    value: name,
-                  })),
-                  validate: (answer: string[]) => {
-                    if (answer.length < 1) {
-                      return "You must choose at least one table";
-                    }
-                    return true;
-                  },
-                },
-              ]);
-              selectedTables = result.selectedTables;
-            }
+          const selectedTables = await selectServiceTables(
+            Object.keys(filteredSchema.tables),
+            options
+          );
 
-            if (selectedTables && selectedTables.length > 0) {
-              const serviceSpinner = ora(
-                `Generating CRUD services for ${selectedTables.length} tables...`
-              ).start();
-
-              try {
-                let allSuccessful = true;
-                for (const tableName of selectedTables) {
-                  const success = await createService(tableName);
-                  if (!success) {
-                    allSuccessful = false;
-                  }
-                }
+          if (selectedTables.length > 0) {
+            const serviceSpinner = ora(
+              `Generating CRUD services for ${selectedTables.length} tables...`
+            ).start();
 
-                if (allSuccessful) {
-                  serviceSpinner.succeed("CRUD services generated successfully! 🎉");
-                } else {
-                  serviceSpinner.warn(
-                    "Some services were not generated successfully. Check the logs for details."
-                  );
+            // Tables picked without a question get template services, without asking about AI
+            const askForAI = !options?.services && !options?.yes && !isNonInteractive();
+
+            try {
+              let allSuccessful = true;
+              for (const tableName of selectedTables) {
+                const success = await createService(tableName, {
+                  schemaPath,
+                  useAI: askForAI ? undefined : false,
+                });
+                if (!success) {
+                  allSuccessful = false;
                 }
-              } catch (error: unknown) {
-                serviceSpinner.fail(
-                  `Failed to generate services: ${(error as Error)?.message || "Unknown error"}`
+              }
+
+              if (allSuccessful) {
+                serviceSpinner.succeed("CRUD services generated successfully! 🎉");
+              } else {
+                serviceSpinner.warn(
+                  "Some services were not generated successfully. Check the logs for details."
                 );
               }
+            } catch (error: unknown) {
+              serviceSpinner.fail(
+                `Failed to generate services: ${(error as Error)?.message || "Unknown error"}`
+              );
             }
           }
         }
@@ -227,3 +254,77 @@ export async function scan(scanPath: string = ".", options?: ScanOptions): Promi
     console.error("\nTry running the scan with more specific options or on a smaller directory.");
   }
 }
+
+/**
+ * Selects the tables to generate services for
+ * @description `--services all`, `--services none` or `--services users,posts` answer without a
+ * question; unknown tables are skipped with a warning. With `--yes`, in CI or without a terminal, no
+ * service is generated unless `--services` asks for some. Otherwise the user is asked
+ * @param {string[]} tables - Tables of the generated schema
+ * @param {ScanOptions} [options] - Scan options
+ * @returns {Promise<string[]>} Tables to generate services for
+ */
+export async function selectServiceTables(
+  tables: string[],
+  options?: ScanOptions
+): Promise<string[]> {
+  const selection = options?.services?.trim();
+
+  if (selection === "all") return tables;
+  if (selection === "none") return [];
+
+  if (selection) {
+    const requested = selection
+      .split(",")
+      .map(table => table.trim())
+      .filter(table => table.length > 0);
+    requested
+      .filter(table => !tables.includes(table))
+      .forEach(table => logger.warn(`Table '${table}' not found in schema, skipping its service.`));
+    return requested.filter(table => tables.includes(table));
+  }
+
+  if (options?.yes || isNonInteractive()) return [];
+
+  const { generateServices } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "generateServices",
+      message: "Would you like to generate CRUD service modules for these tables?",
+      default: false,
+    },
+  ]);
+
+  if (!generateServices) return [];
+
+  const { generateForAll } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "generateForAll",
+      message: "Generate services for all tables? (No will let you select specific tables)",
+      default: true,
+    },
+  ]);
+
+  if (generateForAll) return tables;
+
+  const { selectedTables } = await inquirer.prompt([
+    {
+      type: "checkbox",
+      name: "selectedTables",
+      message: "Select tables to generate services for:",
+      choices: tables.map(name => ({
+        name,
+        value: name,
+      })),
+      validate: (answer: string[]) => {
+        if (answer.length < 1) {
+          return "You must choose at least one table";
+        }
+        return true;
+      },
+    },
+  ]);
+
+  return selectedTables;
+}
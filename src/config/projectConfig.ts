@@ -0,0 +1,66 @@
+import fs from "fs";
+import path from "path";
+import logger from "../helpers/logger.js";
+import { DEFAULT_TABLE_NAMING, isTableNamingStrategy } from "../helpers/naming.js";
+import { ProjectConfig, TableNamingStrategy } from "../types/types.js";
+
+export const PROJECT_CONFIG_FILE = "hosby.config.json";
+
+/**
+ * Gets the project configuration from hosby.config.json
+ * @param {string} projectDir - Project directory holding the configuration file
+ * @returns {ProjectConfig} The project configuration, empty if the file does not exist
+ */
+export function getProjectConfig(projectDir: string = process.cwd()): ProjectConfig {
+  const configFile = path.join(projectDir, PROJECT_CONFIG_FILE);
+
+  try {
+    if (!fs.existsSync(configFile)) {
+      return {};
+    }
+
+    return JSON.parse(fs.readFileSync(configFile, "utf-8"));
+  } catch (error) {
+    logger.warn(`Could not read ${PROJECT_CONFIG_FILE}, using defaults`, error);
+    return {};
+  }
+}
+
+/**
+ * Gets the table naming strategy configured with `hosby config naming`
+ * @description The configuration is read from the project root, the working directory, whatever
+ * directory is scanned or imported. An unknown strategy is ignored with a warning
+ * @returns {TableNamingStrategy} The configured strategy, the default one if none is set
+ */
+export function getTableNaming(): TableNamingStrategy {
+  const { naming } = getProjectConfig();
+  if (naming === undefined) {
+    return DEFAULT_TABLE_NAMING;
+  }
+
+  if (!isTableNamingStrategy(naming)) {
+    logger.warn(
+      `Unknown table naming strategy '${naming}' in ${PROJECT_CONFIG_FILE}, using ${DEFAULT_TABLE_NAMING}`
+    );
+    return DEFAULT_TABLE_NAMING;
+  }
+
+  return naming;
+}
+
+/**
+ * Updates the project configuration in hosby.config.json
+ * @param {Partial<ProjectConfig>} updates - Configuration updates
+ * @param {string} projectDir - Project directory holding the configuration file
+ * @returns {ProjectConfig} The updated project configuration
+ */
+export function updateProjectConfig(
+  updates: Partial<ProjectConfig>,
+  projectDir: string = process.cwd()
+): ProjectConfig {
+  const configFile = path.join(projectDir, PROJECT_CONFIG_FILE);
+  const newConfig = { ...getProjectConfig(projectDir), ...updates };
+
+  fs.writeFileSync(configFile, JSON.stringify(newConfig, null, 2));
+  return newConfig;
+}
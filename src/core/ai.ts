@@ -1,6 +1,7 @@
 import OpenAI from "openai";
 import inquirer from "inquirer";
 import { filterProjectFiles } from "../helpers/codeFilter.js";
+import { locateSchemaTables } from "../helpers/provenance.js";
 import { getCredentials, saveCredentials } from "./config.js";
 import Anthropic from "@anthropic-ai/sdk";
 import { AIProvider, AI_PROVIDERS, AnalyzeOptions, HosbySchema } from "../types/types.js";
@@ -143,6 +144,7 @@ export async function analyzeWithAI(
     maxTotalSize: 300 * 1024, // 300KB total content max
     includeComments: false, // Skip comments
     includeImports: true, // Keep imports for context
+    cache: options.cache,
   });
 
   console.log(
@@ -253,6 +255,13 @@ export async function analyzeWithAI(
       console.warn("⚠️ AI generated an empty schema. No tables were identified in the project.");
     }
 
+    if (options.provenance) {
+      Object.assign(
+        options.provenance,
+        locateSchemaTables(schema.tables, filterResult.selectedFiles)
+      );
+    }
+
     return schema;
   } catch (err: unknown) {
     const error = err as Error & { code?: string };
@@ -0,0 +1,153 @@
+/**
+ * @file AST value helpers
+ * @description Reads literal values, enum values and variable initializers from ts-morph nodes,
+ * for the scanners and importers that work on declarations rather than resolved types
+ */
+import { Identifier, Node, SyntaxKind } from "ts-morph";
+
+/**
+ * Reads enum values from a values array such as `["a", "b"]` or an enum reference
+ * @param {Node} node - Argument node
+ * @returns {Array<string | number> | null} Values, or null if they cannot be read
+ */
+export function getEnumArgumentValues(node: Node): Array<string | number> | null {
+  let argument = unwrapExpression(node);
+  if (Node.isIdentifier(argument)) {
+    const enumDeclaration = resolveSymbolDeclarations(argument).find(declaration =>
+      Node.isEnumDeclaration(declaration)
+    );
+    if (enumDeclaration && Node.isEnumDeclaration(enumDeclaration)) {
+      return enumDeclaration.getMembers().map(member => {
+        const value = member.getValue();
+        return value === undefined ? member.getName() : value;
+      });
+    }
+
+    argument = unwrapExpression(resolveInitializer(argument) || argument);
+  }
+
+  if (Node.isArrayLiteralExpression(argument)) {
+    const values = argument.getElements().map(element => getLiteralValue(element));
+    return values.every(value => typeof value === "string" || typeof value === "number")
+      ? (values as Array<string | number>)
+      : null;
+  }
+
+  if (Node.isObjectLiteralExpression(argument)) {
+    const values = argument
+      .getProperties()
+      .map(property =>
+        Node.isPropertyAssignment(property) && property.getInitializer()
+          ? getLiteralValue(property.getInitializerOrThrow())
+          : undefined
+      );
+    return values.every(value => typeof value === "string" || typeof value === "number")
+      ? (values as Array<string | number>)
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Reads the name of an object literal property, unquoting string literal names
+ * @param {Node} property - Property assignment
+ * @returns {string} Property name
+ */
+export function getPropertyName(property: Node): string {
+  const nameNode = Node.isPropertyAssignment(property) ? property.getNameNode() : property;
+  return Node.isStringLiteral(nameNode) ? nameNode.getLiteralValue() : nameNode.getText();
+}
+
+/**
+ * Reads a literal expression such as `"guest"`, `-1`, `true` or `null`
+ * @param {Node} node - Expression
+ * @returns {unknown} Literal value, or undefined if the expression is not a literal
+ */
+export function getLiteralValue(node: Node): unknown {
+  const expression = unwrapExpression(node);
+
+  if (
+    Node.isStringLiteral(expression) ||
+    Node.isNoSubstitutionTemplateLiteral(expression) ||
+    Node.isNumericLiteral(expression) ||
+    Node.isTrueLiteral(expression) ||
+    Node.isFalseLiteral(expression)
+  ) {
+    return expression.getLiteralValue();
+  }
+
+  if (Node.isNullLiteral(expression)) {
+    return null;
+  }
+
+  if (
+    Node.isPrefixUnaryExpression(expression) &&
+    expression.getOperatorToken() === SyntaxKind.MinusToken &&
+    Node.isNumericLiteral(expression.getOperand())
+  ) {
+    return -Number(expression.getOperand().getText());
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads a numeric literal argument
+ * @param {Node | undefined} node - Argument node
+ * @returns {number | undefined} Number, or undefined if the argument is not a numeric literal
+ */
+export function getNumberValue(node: Node | undefined): number | undefined {
+  const value = node && getLiteralValue(node);
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Strips parentheses, `as`, `satisfies` and non-null assertions around an expression
+ * @param {Node} node - Expression
+ * @returns {Node} Inner expression
+ */
+export function unwrapExpression(node: Node): Node {
+  let expression = node;
+  while (
+    Node.isParenthesizedExpression(expression) ||
+    Node.isAsExpression(expression) ||
+    Node.isSatisfiesExpression(expression) ||
+    Node.isNonNullExpression(expression)
+  ) {
+    expression = expression.getExpression();
+  }
+  return expression;
+}
+
+/**
+ * Resolves the declarations an identifier refers to, following imports
+ * @param {Identifier} identifier - Identifier
+ * @returns {Node[]} Declarations of the referenced symbol
+ */
+export function resolveSymbolDeclarations(identifier: Identifier): Node[] {
+  const parent = identifier.getParent();
+  let symbol = Node.isShorthandPropertyAssignment(parent)
+    ? parent.getValueSymbol()
+    : identifier.getSymbol();
+
+  if (symbol?.isAlias()) {
+    symbol = symbol.getAliasedSymbol();
+  }
+
+  return symbol?.getDeclarations() || [];
+}
+
+/**
+ * Resolves the initializer of the variable an identifier refers to
+ * @param {Identifier} identifier - Identifier
+ * @returns {Node | undefined} Variable initializer, or undefined if it is not a variable
+ */
+export function resolveInitializer(identifier: Identifier): Node | undefined {
+  const declaration = resolveSymbolDeclarations(identifier).find(node =>
+    Node.isVariableDeclaration(node)
+  );
+  return declaration && Node.isVariableDeclaration(declaration)
+    ? declaration.getInitializer()
+    : undefined;
+}
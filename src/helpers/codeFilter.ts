@@ -6,6 +6,7 @@
 import fs from "fs";
 import path from "path";
 import { ignorePatterns, IGNORED_COMPONENTS } from "./ignoreFiles.js";
+import { getCachedResult, openFileCache, saveFileCache, setCachedResult } from "./fileCache.js";
 
 /**
  * Configuration for code filtering
@@ -15,6 +16,8 @@ import { ignorePatterns, IGNORED_COMPONENTS } from "./ignoreFiles.js";
  * @property {number} maxTotalSize - Maximum total content size (in bytes)
  * @property {boolean} includeComments - Whether to include comments in the filtered code
  * @property {boolean} includeImports - Whether to include imports in the filtered code
+ * @property {boolean} cache - Whether scores and filtered code of unchanged files may be read from
+ * the cache
  */
 interface FilterConfig {
   maxFileSize?: number;
@@ -22,6 +25,18 @@ interface FilterConfig {
   maxTotalSize?: number;
   includeComments?: boolean;
   includeImports?: boolean;
+  cache?: boolean;
+}
+
+/**
+ * Score and filtered code of a file, cached between scans
+ * @interface
+ * @property {number} score - Importance score of the file
+ * @property {string} filteredContent - Code of the file once filtered
+ */
+interface ScoredFile {
+  score: number;
+  filteredContent: string;
 }
 
 /**
@@ -43,6 +58,7 @@ const DEFAULT_CONFIG: FilterConfig = {
   maxTotalSize: 500 * 1024,
   includeComments: false,
   includeImports: true,
+  cache: true,
 };
 
 /**
@@ -559,6 +575,8 @@ function estimateTokens(text: string): number {
 
 /**
  * Intelligently filters project files to focus on business logic
+ * Scores and filtered code are cached under .hosby/cache by content hash, so only files that
+ * changed since the last run are scored again
  * @param projectPath Root path of the project
  * @param config Filter configuration
  * @returns Filtered result with selected files and content
@@ -599,6 +617,12 @@ export async function filterProjectFiles(
 
   scanDirectory(projectPath);
 
+  const cache = openFileCache<ScoredFile>(
+    projectPath,
+    "ai-files",
+    JSON.stringify([mergedConfig.includeComments, mergedConfig.includeImports])
+  );
+
   // Filter and score files
   const scoredFiles = await Promise.all(
     allFiles
@@ -612,28 +636,31 @@ export async function filterProjectFiles(
             return null;
           }
 
-          const content = fs.readFileSync(file, "utf-8");
-          const score = scoreFileImportance(file, content);
+          const cached = mergedConfig.cache !== false ? getCachedResult(cache, file) : undefined;
+          if (cached) {
+            return { path: file, size: stats.size, ...cached };
+          }
 
-          return {
-            path: file,
-            size: stats.size,
-            content,
-            score,
+          const content = fs.readFileSync(file, "utf-8");
+          const scored: ScoredFile = {
+            score: scoreFileImportance(file, content),
+            filteredContent: filterCodeContent(content, mergedConfig),
           };
+          setCachedResult(cache, file, scored);
+
+          return { path: file, size: stats.size, ...scored };
         } catch (err) {
           return null;
         }
       })
   );
 
+  saveFileCache(cache);
+
   // Sort by importance score (descending)
-  const validScoredFiles = scoredFiles.filter(file => file !== null) as Array<{
-    path: string;
-    size: number;
-    content: string;
-    score: number;
-  }>;
+  const validScoredFiles = scoredFiles.filter(file => file !== null) as Array<
+    ScoredFile & { path: string; size: number }
+  >;
 
   validScoredFiles.sort((a, b) => b.score - a.score);
 
@@ -646,7 +673,7 @@ export async function filterProjectFiles(
       break;
     }
 
-    const filteredContent = filterCodeContent(file.content, mergedConfig);
+    const filteredContent = file.filteredContent;
     const filteredSize = filteredContent.length;
 
     if (totalSize + filteredSize > mergedConfig.maxTotalSize!) {
@@ -0,0 +1,170 @@
+/**
+ * @file Content-hash file cache
+ * @description Stores per-file results under `.hosby/cache`, so a scan only re-analyses the files
+ * whose content, or the content of the files they depend on, changed since the last run
+ */
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import logger from "./logger.js";
+
+/**
+ * Directory of the cache files, relative to the scanned project
+ */
+export const CACHE_DIR = path.join(".hosby", "cache");
+
+/**
+ * Cached result of one file
+ * @property {string} hash - Content hash of the file the result was computed from
+ * @property {Record<string, string | null>} [dependencies] - Content hashes of the files the
+ * result depends on, null for files that did not exist
+ * @property {T} value - Cached result
+ */
+type FileCacheEntry<T> = {
+  hash: string;
+  dependencies?: Record<string, string | null>;
+  value: T;
+};
+
+/**
+ * A file cache loaded in memory
+ * @property {string} path - Path of the cache file
+ * @property {string} key - Key of the cache, covering everything results depend on besides files
+ * @property {Record<string, FileCacheEntry<T>>} entries - Cached results, by absolute file path
+ * @property {Set<string>} used - Files read or written during this run, the only ones saved
+ * @property {Map<string, string | null>} hashes - Content hashes computed during this run
+ */
+export type FileCache<T> = {
+  path: string;
+  key: string;
+  entries: Record<string, FileCacheEntry<T>>;
+  used: Set<string>;
+  hashes: Map<string, string | null>;
+};
+
+/**
+ * Opens a file cache of a project
+ * @description A cache saved with another key, or that cannot be read, starts empty
+ * @param {string} projectPath - Scanned project directory
+ * @param {string} name - Cache name, e.g. `scan` or `ai-files`
+ * @param {string} key - Options and versions the cached results depend on
+ * @returns {FileCache<T>} Loaded cache
+ */
+export function openFileCache<T>(projectPath: string, name: string, key: string): FileCache<T> {
+  const cache: FileCache<T> = {
+    path: path.join(projectPath, CACHE_DIR, `${name}.json`),
+    key,
+    entries: {},
+    used: new Set(),
+    hashes: new Map(),
+  };
+
+  if (!fs.existsSync(cache.path)) return cache;
+
+  try {
+    const saved = JSON.parse(fs.readFileSync(cache.path, "utf-8"));
+    if (saved.key === key && saved.entries && typeof saved.entries === "object") {
+      cache.entries = saved.entries;
+    } else {
+      logger.debug(`Cache ${cache.path} was written with other options, ignoring it`);
+    }
+  } catch (error) {
+    logger.debug(`Could not read cache ${cache.path}`, error);
+  }
+
+  return cache;
+}
+
+/**
+ * Reads the cached result of a file
+ * @param {FileCache<T>} cache - File cache
+ * @param {string} filePath - File path
+ * @returns {T | undefined} Cached result, or undefined if the file or one of its dependencies changed
+ */
+export function getCachedResult<T>(cache: FileCache<T>, filePath: string): T | undefined {
+  const file = path.resolve(filePath);
+  const entry = cache.entries[file];
+  if (!entry || entry.hash !== hashFile(cache, file)) return undefined;
+
+  for (const [dependency, hash] of Object.entries(entry.dependencies || {})) {
+    if (hashFile(cache, dependency) !== hash) return undefined;
+  }
+
+  cache.used.add(file);
+  return entry.value;
+}
+
+/**
+ * Stores the result of a file
+ * @param {FileCache<T>} cache - File cache
+ * @param {string} filePath - File path
+ * @param {T} value - Result computed from the current content of the file
+ * @param {string[]} [dependencies] - Other files the result was computed from
+ */
+export function setCachedResult<T>(
+  cache: FileCache<T>,
+  filePath: string,
+  value: T,
+  dependencies: string[] = []
+): void {
+  const file = path.resolve(filePath);
+  const hash = hashFile(cache, file);
+  if (hash === null) return;
+
+  const entry: FileCacheEntry<T> = { hash, value };
+  const others = dependencies.map(dependency => path.resolve(dependency)).filter(d => d !== file);
+  if (others.length > 0) {
+    entry.dependencies = Object.fromEntries(others.map(dep => [dep, hashFile(cache, dep)]));
+  }
+
+  cache.entries[file] = entry;
+  cache.used.add(file);
+}
+
+/**
+ * Writes a file cache to disk
+ * @description Entries of files that were not part of this run, e.g. deleted files, are dropped.
+ * Failures are only logged, since the cache is an optimisation
+ * @param {FileCache<T>} cache - File cache
+ */
+export function saveFileCache<T>(cache: FileCache<T>): void {
+  const entries = Object.fromEntries(
+    Object.entries(cache.entries).filter(([file]) => cache.used.has(file))
+  );
+
+  try {
+    fs.mkdirSync(path.dirname(cache.path), { recursive: true });
+    fs.writeFileSync(cache.path, JSON.stringify({ key: cache.key, entries }), "utf-8");
+  } catch (error) {
+    logger.debug(`Could not write cache ${cache.path}`, error);
+  }
+}
+
+/**
+ * Computes the content hash of a file, once per run
+ * @param {FileCache<T>} cache - File cache holding the hashes of this run
+ * @param {string} filePath - Absolute file path
+ * @returns {string | null} SHA-256 of the content, or null if the file cannot be read
+ */
+export function hashFile<T>(cache: FileCache<T>, filePath: string): string | null {
+  let hash = cache.hashes.get(filePath);
+  if (hash === undefined) {
+    try {
+      hash = hashContent(fs.readFileSync(filePath));
+    } catch {
+      hash = null;
+    }
+    cache.hashes.set(filePath, hash);
+  }
+
+  return hash;
+}
+
+/**
+ * Computes the SHA-256 of a content
+ * @param {string | Buffer} content - Content to hash
+ * @returns {string} Hex digest
+ */
+export function hashContent(content: string | Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
@@ -1,5 +1,5 @@
 import { IGNORED_COMPONENTS } from "./ignoreFiles.js";
-import { HosbySchema } from "../types/types.js";
+import { ColumnDefinition, HosbySchema, SchemaColumn } from "../types/types.js";
 
 /**
  * Supported column data types in Hosby schema
@@ -12,6 +12,7 @@ export const VALID_COLUMN_TYPES = [
   "array",
   "object",
   "enum",
+  "relation",
 ];
 
 /**
@@ -37,6 +38,12 @@ export function filterSchema(schema: HosbySchema): HosbySchema {
     metadata: schema.metadata || {},
   };
 
+  // Tables explicitly declared with `@hosby.table` or imported from ORM definitions bypass the
+  // UI component heuristics
+  const annotatedTables = Array.isArray(schema.metadata?.annotatedTables)
+    ? (schema.metadata?.annotatedTables as string[])
+    : [];
+
   // Filter tables based on ignore list and column presence
   for (const [table, columns] of Object.entries(schema.tables)) {
     if (!columns || typeof columns !== "object") continue;
@@ -54,8 +61,10 @@ export function filterSchema(schema: HosbySchema): HosbySchema {
 
     const isUIComponent = isUIComponentTable(tableLower);
 
-    if (hasColumns && !isIgnoredByPattern && !isUIComponent) {
-      filtered.tables[table] = columns as Record<string, string | object>;
+    const isAnnotated = annotatedTables.includes(table);
+
+    if (hasColumns && (isAnnotated || (!isIgnoredByPattern && !isUIComponent))) {
+      filtered.tables[table] = columns as Record<string, SchemaColumn>;
     }
   }
 
@@ -175,10 +184,16 @@ export function sanitizeSchema(schema: unknown): HosbySchema {
       const columnDef = schemaObj.tables[table][column];
 
       // Ensure column type is valid
-      if (typeof columnDef === "object" && columnDef !== null) {
+      if (typeof columnDef === "object" && columnDef !== null && !Array.isArray(columnDef)) {
         if ("type" in columnDef && typeof columnDef.type === "string") {
           if (!VALID_COLUMN_TYPES.includes(columnDef.type)) {
             schemaObj.tables[table][column] = { ...columnDef, type: "string" };
+          } else if (
+            "items" in columnDef &&
+            typeof columnDef.items === "string" &&
+            !VALID_COLUMN_TYPES.includes(columnDef.items)
+          ) {
+            schemaObj.tables[table][column] = { ...columnDef, items: "string" };
           }
         } else {
           // If no type property, default to string
@@ -211,3 +226,56 @@ export function sanitizeSchema(schema: unknown): HosbySchema {
 
   return schemaObj as HosbySchema;
 }
+
+/**
+ * Normalizes a schema column into a column descriptor
+ * @description Reads both the legacy string form ("number", "enum:[a,b]", "array:string") and
+ * column descriptors, so existing schema files keep working. Legacy strings carry no modifiers, so
+ * they get the scanner's defaults: required and not nullable
+ * @param {unknown} column - Column value from the schema
+ * @returns {ColumnDefinition} Column descriptor
+ */
+export function normalizeColumn(column: unknown): ColumnDefinition {
+  if (Array.isArray(column)) {
+    return { type: "array" };
+  }
+
+  if (column && typeof column === "object") {
+    const definition = column as Partial<ColumnDefinition>;
+    return typeof definition.type === "string"
+      ? ({ ...definition } as ColumnDefinition)
+      : { ...definition, type: "string" };
+  }
+
+  if (typeof column !== "string") {
+    return { type: "string" };
+  }
+
+  const value = column.trim();
+
+  const enumMatch = value.match(/^enum:?\[(.*)\]$/i);
+  if (enumMatch) {
+    const values = enumMatch[1]
+      .split(",")
+      .map(item => item.trim().replace(/^["']|["']$/g, ""))
+      .filter(item => item.length > 0);
+    return { type: "enum", enum: values, required: true };
+  }
+
+  const typeMatch = value.match(/^(\w+)(?::(\w+)|\[(\w*)\])?$/);
+  if (!typeMatch) {
+    return { type: "string", required: true };
+  }
+
+  const type = typeMatch[1].toLowerCase();
+  const items = typeMatch[2] || typeMatch[3];
+  const definition: ColumnDefinition = {
+    type: VALID_COLUMN_TYPES.includes(type) ? type : "string",
+    required: true,
+  };
+  if (type === "array" && items) {
+    definition.items = items.toLowerCase();
+  }
+
+  return definition;
+}
@@ -23,6 +23,7 @@ export const ignorePatterns = [
   "**/src/lib/hosbyClient.ts",
   "**/**/hosbyClient.ts",
   "hosby.schema.json",
+  "**/hosby.config.json",
 
   // Configuration files
   "components.json",
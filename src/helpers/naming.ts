@@ -0,0 +1,237 @@
+/**
+ * @file Table naming strategies
+ * @description Inflection helpers turning model names such as `AuthCredentials` or AI table names
+ * into table names, shared by the static scanner and the post-processing of AI output
+ */
+import {
+  ColumnDefinition,
+  HosbySchema,
+  SchemaColumn,
+  TableNamingStrategy,
+} from "../types/types.js";
+
+/**
+ * Supported table naming strategies with their descriptions
+ */
+export const TABLE_NAMING_STRATEGIES: Record<TableNamingStrategy, string> = {
+  snake_plural: "Plural snake_case (AuthCredential → auth_credentials)",
+  camel_plural: "Plural camelCase (AuthCredential → authCredentials)",
+  singular: "Singular snake_case (AuthCredentials → auth_credential)",
+  verbatim: "Declaration name as written (AuthCredential → AuthCredential)",
+};
+
+/**
+ * Default table naming strategy
+ */
+export const DEFAULT_TABLE_NAMING: TableNamingStrategy = "snake_plural";
+
+/**
+ * Words that have no distinct plural form
+ */
+const UNCOUNTABLE_WORDS = new Set([
+  "info",
+  "information",
+  "data",
+  "metadata",
+  "media",
+  "news",
+  "equipment",
+  "feedback",
+  "series",
+  "species",
+  "sheep",
+  "fish",
+  "deer",
+  "staff",
+  "software",
+  "hardware",
+]);
+
+/**
+ * Irregular singular → plural forms
+ */
+const IRREGULAR_PLURALS: Record<string, string> = {
+  person: "people",
+  child: "children",
+  man: "men",
+  woman: "women",
+  mouse: "mice",
+  goose: "geese",
+  tooth: "teeth",
+  foot: "feet",
+  ox: "oxen",
+  datum: "data",
+  criterion: "criteria",
+  analysis: "analyses",
+  crisis: "crises",
+  diagnosis: "diagnoses",
+  thesis: "theses",
+  knife: "knives",
+  wife: "wives",
+  life: "lives",
+  wolf: "wolves",
+  shelf: "shelves",
+  leaf: "leaves",
+  half: "halves",
+  thief: "thieves",
+  movie: "movies",
+  cookie: "cookies",
+};
+
+/**
+ * Singular words ending in -as, -is or -us, whose plural adds -es
+ * @description Plurals such as "ideas" also end in -as, so these are listed rather than matched
+ */
+const SINGULAR_S_WORDS = new Set([
+  "alias",
+  "atlas",
+  "bias",
+  "canvas",
+  "gas",
+  "iris",
+  "bonus",
+  "bus",
+  "campus",
+  "census",
+  "corpus",
+  "status",
+  "virus",
+]);
+
+/**
+ * Irregular plural → singular forms
+ */
+const IRREGULAR_SINGULARS: Record<string, string> = Object.fromEntries(
+  Object.entries(IRREGULAR_PLURALS).map(([singular, plural]) => [plural, singular])
+);
+
+/**
+ * Returns the plural form of a lowercase English word
+ * @param {string} word - Singular word
+ * @returns {string} Plural word
+ */
+export function pluralize(word: string): string {
+  if (UNCOUNTABLE_WORDS.has(word)) return word;
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (IRREGULAR_SINGULARS[word]) return word;
+  if (SINGULAR_S_WORDS.has(word)) return word + "es";
+
+  if (/is$/.test(word)) return word.replace(/is$/, "es");
+  if (/(ss|us|x|z|ch|sh)$/.test(word)) return word + "es";
+  if (/[^aeiou]y$/.test(word)) return word.replace(/y$/, "ies");
+  if (/s$/.test(word)) return word;
+
+  return word + "s";
+}
+
+/**
+ * Returns the singular form of a lowercase English word
+ * @param {string} word - Plural word
+ * @returns {string} Singular word
+ */
+export function singularize(word: string): string {
+  if (UNCOUNTABLE_WORDS.has(word)) return word;
+  if (IRREGULAR_SINGULARS[word]) return IRREGULAR_SINGULARS[word];
+  if (IRREGULAR_PLURALS[word]) return word;
+  if (SINGULAR_S_WORDS.has(word)) return word;
+  if (word.endsWith("es") && SINGULAR_S_WORDS.has(word.slice(0, -2))) return word.slice(0, -2);
+
+  if (/(ss|us|is)$/.test(word)) return word;
+  if (/(x|z|ch|sh|ss)es$/.test(word)) return word.replace(/es$/, "");
+  if (/[^aeiou]uses$/.test(word)) return word.replace(/es$/, "");
+  if (/[^aeiou]ies$/.test(word)) return word.replace(/ies$/, "y");
+  if (/s$/.test(word)) return word.replace(/s$/, "");
+
+  return word;
+}
+
+/**
+ * Splits a PascalCase, camelCase, snake_case or kebab-case name into lowercase words
+ * @param {string} name - Name to split
+ * @returns {string[]} Lowercase words
+ */
+export function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[\s_\-.]+/)
+    .filter(word => word.length > 0)
+    .map(word => word.toLowerCase());
+}
+
+/**
+ * Builds a table name from a model or table name using a naming strategy
+ * @description The last word is inflected, so `PersonInfo` gives `person_info` and `Category`
+ * gives `categories`; names already following the strategy are returned unchanged
+ * @param {string} name - Model name or existing table name
+ * @param {TableNamingStrategy} strategy - Naming strategy to apply
+ * @returns {string} Table name
+ */
+export function toTableName(
+  name: string,
+  strategy: TableNamingStrategy = DEFAULT_TABLE_NAMING
+): string {
+  if (strategy === "verbatim") return name;
+
+  const words = splitWords(name);
+  if (words.length === 0) return name;
+
+  const last = singularize(words.pop() as string);
+
+  switch (strategy) {
+    case "camel_plural":
+      return [...words, pluralize(last)]
+        .map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+        .join("");
+    case "singular":
+      return [...words, last].join("_");
+    case "snake_plural":
+    default:
+      return [...words, pluralize(last)].join("_");
+  }
+}
+
+/**
+ * Checks if a value is a supported table naming strategy
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True if the value names a strategy
+ */
+export function isTableNamingStrategy(value: unknown): value is TableNamingStrategy {
+  return typeof value === "string" && value in TABLE_NAMING_STRATEGIES;
+}
+
+/**
+ * Renames every table of a schema, and the relation targets pointing at them, with a strategy
+ * @param {HosbySchema} schema - Schema to rename, typically the AI output
+ * @param {TableNamingStrategy} strategy - Naming strategy to apply
+ * @returns {HosbySchema} Schema with renamed tables
+ */
+export function renameSchemaTables(
+  schema: HosbySchema,
+  strategy: TableNamingStrategy
+): HosbySchema {
+  const tables: HosbySchema["tables"] = {};
+
+  for (const [table, columns] of Object.entries(schema.tables || {})) {
+    const renamedColumns: Record<string, SchemaColumn> = {};
+
+    for (const [column, definition] of Object.entries(columns || {})) {
+      if (definition && typeof definition === "object" && typeof definition.target === "string") {
+        const renamed: ColumnDefinition = {
+          ...definition,
+          target: toTableName(definition.target, strategy),
+        };
+        if (typeof definition.through === "string") {
+          renamed.through = toTableName(definition.through, strategy);
+        }
+        renamedColumns[column] = renamed;
+      } else {
+        renamedColumns[column] = definition;
+      }
+    }
+
+    tables[toTableName(table, strategy)] = renamedColumns;
+  }
+
+  return { ...schema, tables };
+}
@@ -0,0 +1,259 @@
+/**
+ * @file Schema provenance
+ * @description Records which source file, declaration and line produced each table and column of a
+ * generated schema, in a sidecar file next to the schema
+ */
+import fs from "fs";
+import path from "path";
+import logger from "./logger.js";
+import { singularize, toTableName } from "./naming.js";
+import {
+  ProvenanceSource,
+  SchemaProvenance,
+  SourceLocation,
+  TableNamingStrategy,
+  TableProvenance,
+} from "../types/types.js";
+
+/**
+ * Declarations an AI-generated table may come from, with the declared name
+ */
+const DECLARATION = /\b(?:interface|type|class|enum|const|let|var|function)\s+([A-Za-z_$][\w$]*)/;
+
+/**
+ * Suffixes stripped from declaration names before matching them with a table
+ */
+const DECLARATION_SUFFIX = /(schema|dto|model|entity|type|props|data)$/i;
+
+/**
+ * Number of lines after a declaration searched for the columns of its table
+ */
+const COLUMN_SEARCH_LINES = 200;
+
+/**
+ * Builds the path of the provenance file of a schema file
+ * @example
+ * // hosby.schema.json gives hosby.schema.provenance.json
+ * @param {string} schemaPath - Schema file path
+ * @returns {string} Provenance file path, next to the schema file
+ */
+export function getProvenancePath(schemaPath: string): string {
+  return schemaPath.replace(/(\.json)?$/i, ".provenance.json");
+}
+
+/**
+ * Records a source of a table
+ * @description Columns listed are attributed to the source, replacing their previous source
+ * @param {SchemaProvenance} provenance - Provenance to complete
+ * @param {string} table - Table name
+ * @param {ProvenanceSource} source - Source of the table
+ * @param {Record<string, SourceLocation | undefined>} [columns] - Columns the source produced, with
+ * their own location when it differs from the table's, e.g. the line of a property
+ */
+export function recordTableSource(
+  provenance: SchemaProvenance,
+  table: string,
+  source: ProvenanceSource,
+  columns: Record<string, SourceLocation | undefined> = {}
+): void {
+  const entry: TableProvenance = provenance.tables[table] || { sources: [], columns: {} };
+  entry.sources.push(source);
+  for (const [column, location] of Object.entries(columns)) {
+    entry.columns[column] = location ? { kind: source.kind, ...location } : source;
+  }
+  provenance.tables[table] = entry;
+}
+
+/**
+ * Writes the provenance of a schema next to its schema file
+ * @description Only the tables kept in the schema are written, and file paths are made relative to
+ * the provenance file so the project can move
+ * @param {string} schemaPath - Schema file path
+ * @param {SchemaProvenance} provenance - Provenance collected during the scan
+ * @param {string[]} tables - Tables of the written schema
+ */
+export function writeProvenance(
+  schemaPath: string,
+  provenance: SchemaProvenance,
+  tables: string[]
+): void {
+  const provenancePath = getProvenancePath(schemaPath);
+  const baseDir = path.dirname(path.resolve(provenancePath));
+  const relative = (source: ProvenanceSource): ProvenanceSource =>
+    source.file ? { ...source, file: toPortablePath(path.relative(baseDir, source.file)) } : source;
+
+  const saved: SchemaProvenance = {
+    scanner: provenance.scanner,
+    ...(provenance.files && {
+      files: provenance.files.map(file => toPortablePath(path.relative(baseDir, file))),
+    }),
+    tables: {},
+  };
+
+  tables.forEach(table => {
+    const entry = provenance.tables[table];
+    if (!entry) return;
+
+    saved.tables[table] = {
+      sources: entry.sources.map(relative),
+      columns: Object.fromEntries(
+        Object.entries(entry.columns).map(([column, source]) => [column, relative(source)])
+      ),
+    };
+  });
+
+  try {
+    fs.writeFileSync(provenancePath, JSON.stringify(saved, null, 2), "utf-8");
+  } catch (error) {
+    logger.warn(`Could not write provenance file ${provenancePath}`);
+    logger.debug("Provenance write failed", error);
+  }
+}
+
+/**
+ * Reads the provenance of a schema
+ * @description File paths are resolved against the provenance file
+ * @param {string} schemaPath - Schema file path
+ * @returns {SchemaProvenance | null} Provenance, or null if the file is missing or invalid
+ */
+export function readProvenance(schemaPath: string): SchemaProvenance | null {
+  const provenancePath = getProvenancePath(schemaPath);
+  if (!fs.existsSync(provenancePath)) return null;
+
+  try {
+    const provenance: SchemaProvenance = JSON.parse(fs.readFileSync(provenancePath, "utf-8"));
+    const baseDir = path.dirname(path.resolve(provenancePath));
+    const resolve = (source: ProvenanceSource): ProvenanceSource =>
+      source.file ? { ...source, file: path.resolve(baseDir, source.file) } : source;
+
+    for (const entry of Object.values(provenance.tables || {})) {
+      entry.sources = entry.sources.map(resolve);
+      for (const [column, source] of Object.entries(entry.columns)) {
+        entry.columns[column] = resolve(source);
+      }
+    }
+    provenance.files = provenance.files?.map(file => path.resolve(baseDir, file));
+
+    return provenance;
+  } catch (error) {
+    logger.debug(`Could not read provenance file ${provenancePath}`, error);
+    return null;
+  }
+}
+
+/**
+ * Locates the tables of an AI-generated schema in the files sent to the AI
+ * @description A table is attributed to the first declaration whose name matches it once
+ * singularized and stripped of suffixes such as `Schema` or `Dto` (`UserSchema` for `users`), and
+ * its columns to the property lines following that declaration. Tables without such a declaration
+ * fall back to the first line mentioning them
+ * @param {Record<string, Record<string, unknown>>} tables - Tables of the AI-generated schema
+ * @param {string[]} files - Files sent to the AI
+ * @returns {SchemaProvenance} Provenance of the tables
+ */
+export function locateSchemaTables(
+  tables: Record<string, Record<string, unknown>>,
+  files: string[]
+): SchemaProvenance {
+  const provenance: SchemaProvenance = { scanner: "ai", files, tables: {} };
+  const contents = files.map(file => {
+    try {
+      return { file, lines: fs.readFileSync(file, "utf-8").split(/\r?\n/) };
+    } catch {
+      return { file, lines: [] };
+    }
+  });
+
+  for (const [table, columns] of Object.entries(tables)) {
+    const key = normalizeName(singularize(table));
+    const entry: TableProvenance = { sources: [], columns: {} };
+
+    for (const { file, lines } of contents) {
+      const index = lines.findIndex(line => {
+        const declared = line.match(DECLARATION)?.[1];
+        return !!declared && normalizeName(declared.replace(DECLARATION_SUFFIX, "")) === key;
+      });
+      if (index === -1) continue;
+
+      const source: ProvenanceSource = {
+        kind: "ai",
+        file,
+        line: index + 1,
+        declaration: lines[index].match(DECLARATION)?.[1],
+      };
+      entry.sources.push(source);
+
+      const following = lines.slice(index, index + COLUMN_SEARCH_LINES);
+      Object.keys(columns || {}).forEach(column => {
+        const property = new RegExp(`^\\s*["']?${escapeRegExp(column)}["']?\\s*[?!]?\\s*[:=(]`);
+        const offset = following.findIndex(line => property.test(line));
+        entry.columns[column] =
+          offset === -1 ? source : { kind: "ai", file, line: index + offset + 1 };
+      });
+      break;
+    }
+
+    if (entry.sources.length === 0) {
+      const mention = new RegExp(`\\b(${escapeRegExp(table)}|${escapeRegExp(key)})\\b`, "i");
+      for (const { file, lines } of contents) {
+        const index = lines.findIndex(line => mention.test(line));
+        if (index !== -1) {
+          entry.sources.push({ kind: "ai", file, line: index + 1 });
+          break;
+        }
+      }
+    }
+
+    provenance.tables[table] = entry;
+  }
+
+  return provenance;
+}
+
+/**
+ * Renames the tables of a provenance like `renameSchemaTables` renames the schema
+ * @param {SchemaProvenance} provenance - Provenance to rename
+ * @param {TableNamingStrategy} strategy - Naming strategy to apply
+ * @returns {SchemaProvenance} Provenance with renamed tables
+ */
+export function renameProvenanceTables(
+  provenance: SchemaProvenance,
+  strategy: TableNamingStrategy
+): SchemaProvenance {
+  return {
+    ...provenance,
+    tables: Object.fromEntries(
+      Object.entries(provenance.tables).map(([table, entry]) => [
+        toTableName(table, strategy),
+        entry,
+      ])
+    ),
+  };
+}
+
+/**
+ * Normalizes a name for comparison
+ * @param {string} name - Table or declaration name
+ * @returns {string} Lowercase name without separators
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Escapes the special characters of a regular expression
+ * @param {string} value - Literal text
+ * @returns {string} Escaped text
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Uses forward slashes in a relative path, so provenance files are the same on every platform
+ * @param {string} filePath - Relative path
+ * @returns {string} Path with forward slashes
+ */
+function toPortablePath(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
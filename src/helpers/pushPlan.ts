@@ -0,0 +1,91 @@
+/**
+ * @file Push plan
+ * @description Describes the tables and columns a push creates, alters or drops, and flags the
+ * changes that lose data already stored in the project
+ */
+import chalk from "chalk";
+import { formatSchemaChanges, SchemaChange } from "./schemaDiff.js";
+import { classifySchemaChange, formatSeverity } from "./schemaCompatibility.js";
+
+/**
+ * Migrations a push applies to the project
+ * @property {"server" | "local"} source - `server` for a plan computed by the server, `local` for
+ * a comparison of the server schema with the local one, used when the server cannot plan
+ * @property {SchemaChange[]} changes - Tables and columns created, altered or dropped
+ */
+export type PushPlan = {
+  source: "server" | "local";
+  changes: SchemaChange[];
+};
+
+/**
+ * Fields each kind of change has besides its table: names are strings, the others are objects
+ */
+const CHANGE_FIELDS: Record<SchemaChange["kind"], string[]> = {
+  "table-added": ["columns"],
+  "table-removed": ["columns"],
+  "table-renamed": ["from", "columns"],
+  "column-added": ["column", "after"],
+  "column-removed": ["column", "before"],
+  "column-changed": ["column", "before", "after"],
+  "column-renamed": ["column", "from", "after"],
+};
+
+/**
+ * Names of the fields holding a table or column name
+ */
+const NAME_FIELDS = ["table", "column", "from"];
+
+/**
+ * Checks that a value sent by the server is a schema change
+ * @param {unknown} value - Entry of a push plan
+ * @returns {boolean} True if the value has a known kind, a table and the fields of its kind
+ */
+export function isSchemaChange(value: unknown): value is SchemaChange {
+  if (!value || typeof value !== "object") return false;
+
+  const change = value as Record<string, unknown>;
+  if (!Object.prototype.hasOwnProperty.call(CHANGE_FIELDS, String(change.kind))) return false;
+
+  const fields = CHANGE_FIELDS[change.kind as SchemaChange["kind"]];
+  return ["table", ...fields].every(field =>
+    NAME_FIELDS.includes(field)
+      ? typeof change[field] === "string"
+      : !!change[field] && typeof change[field] === "object"
+  );
+}
+
+/**
+ * Explains why a change loses stored data
+ * @param {SchemaChange} change - Change of a push plan
+ * @returns {string | undefined} Reason, undefined if the change keeps all stored data
+ */
+export function getDestructiveReason(change: SchemaChange): string | undefined {
+  const { destructive, reason } = classifySchemaChange(change);
+  return destructive ? reason : undefined;
+}
+
+/**
+ * Lists the changes of a push plan that lose stored data
+ * @param {PushPlan} plan - Push plan
+ * @returns {SchemaChange[]} Destructive changes
+ */
+export function getDestructiveChanges(plan: PushPlan): SchemaChange[] {
+  return plan.changes.filter(change => getDestructiveReason(change) !== undefined);
+}
+
+/**
+ * Formats a push plan as one line per change with its severity, destructive changes followed by
+ * the data they lose
+ * @param {PushPlan} plan - Push plan
+ * @returns {string[]} Lines describing the plan
+ */
+export function formatPushPlan(plan: PushPlan): string[] {
+  return plan.changes.map(change => {
+    const [line] = formatSchemaChanges([change]);
+    const { severity, reason, destructive } = classifySchemaChange(change);
+    return destructive
+      ? `${line} ${formatSeverity(severity)} ${chalk.red(`⚠ destructive: ${reason}`)}`
+      : `${line} ${formatSeverity(severity)}`;
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * @file Relation helpers
+ * @description Builds relation columns from model references, shared by the static scanner and the
+ * importers
+ */
+import { RelationColumn, RelationKind } from "../types/types.js";
+
+/**
+ * A property referencing another model
+ * @property {string} property - Name of the referencing property
+ * @property {string} target - Table name of the referenced model
+ * @property {boolean} many - Whether the property holds an array of references
+ * @property {RelationKind} [relation] - Relation kind declared by the source, e.g. an ORM decorator
+ */
+export type ModelReference = {
+  property: string;
+  target: string;
+  many: boolean;
+  relation?: RelationKind;
+};
+
+/**
+ * Builds the relation column of a model reference
+ * @description Unless declared by the reference, the relation kind is inferred from the reference
+ * and any array reference the target model holds back to the source table; many-to-many relations
+ * get a join table hint
+ * @param {string} tableName - Table holding the reference
+ * @param {ModelReference} reference - Reference to build the column for
+ * @param {Map<string, ModelReference[]>} referencesByTable - References of every scanned table
+ * @returns {RelationColumn} Relation column
+ */
+export function getRelationColumn(
+  tableName: string,
+  reference: ModelReference,
+  referencesByTable: Map<string, ModelReference[]>
+): RelationColumn {
+  const hasManyBackReference = (referencesByTable.get(reference.target) || []).some(
+    ref => ref !== reference && ref.target === tableName && ref.many
+  );
+
+  let relation: RelationKind;
+  if (reference.relation) {
+    relation = reference.relation;
+  } else if (reference.many) {
+    relation = hasManyBackReference ? "many-to-many" : "one-to-many";
+  } else {
+    relation = hasManyBackReference ? "many-to-one" : "one-to-one";
+  }
+
+  const column: RelationColumn = { type: "relation", relation, target: reference.target };
+  if (relation === "many-to-many") {
+    column.through = [tableName, reference.target].sort().join("_");
+  }
+
+  return column;
+}
@@ -0,0 +1,211 @@
+/**
+ * @file Schema compatibility
+ * @description Classifies the changes between two schema versions by their impact on existing data
+ * and clients: safe, risky or breaking
+ */
+import chalk from "chalk";
+import { formatSchemaChanges, SchemaChange } from "./schemaDiff.js";
+import { ColumnDefinition } from "../types/types.js";
+
+/**
+ * Impact of a schema change
+ * @description `safe` changes keep existing data and clients working; `risky` ones may reject
+ * existing rows or requests; `breaking` ones remove or reshape what clients rely on
+ */
+export type ChangeSeverity = "safe" | "risky" | "breaking";
+
+/**
+ * Severities from the least to the most severe
+ */
+export const CHANGE_SEVERITIES: ChangeSeverity[] = ["safe", "risky", "breaking"];
+
+/**
+ * A schema change with its impact
+ * @property {SchemaChange} change - Change between the two versions
+ * @property {ChangeSeverity} severity - Impact of the change
+ * @property {string} reason - Why the change has this impact
+ * @property {boolean} destructive - True if the change loses data already stored in the project
+ */
+export type ClassifiedChange = {
+  change: SchemaChange;
+  severity: ChangeSeverity;
+  reason: string;
+  destructive: boolean;
+};
+
+/**
+ * Impact of a change, without the change itself
+ */
+type ChangeImpact = Omit<ClassifiedChange, "change">;
+
+/**
+ * Classifies a schema change
+ * @description Dropping or renaming tables and columns and changing a column type, item type or
+ * relation are breaking. Adding a required column without a default, making a column required or
+ * non-nullable, making it unique and removing enum values are risky. Everything else is safe.
+ * Dropping tables and columns, changing a column type or item type and removing enum values are
+ * also destructive, since the values already stored are lost
+ * @param {SchemaChange} change - Change to classify
+ * @returns {ClassifiedChange} Change with its severity and the reason for it
+ */
+export function classifySchemaChange(change: SchemaChange): ClassifiedChange {
+  return { change, ...getChangeImpact(change) };
+}
+
+/**
+ * Classifies schema changes
+ * @param {SchemaChange[]} changes - Changes to classify
+ * @returns {ClassifiedChange[]} Changes with their severity, in the same order
+ */
+export function classifySchemaChanges(changes: SchemaChange[]): ClassifiedChange[] {
+  return changes.map(classifySchemaChange);
+}
+
+/**
+ * Determines if a severity reaches a threshold
+ * @param {ChangeSeverity} severity - Severity to check
+ * @param {ChangeSeverity} threshold - Lowest severity that counts
+ * @returns {boolean} True if the severity is the threshold or more severe
+ */
+export function isAtLeast(severity: ChangeSeverity, threshold: ChangeSeverity): boolean {
+  return CHANGE_SEVERITIES.indexOf(severity) >= CHANGE_SEVERITIES.indexOf(threshold);
+}
+
+/**
+ * Checks that a value names a severity
+ * @param {string} value - Value given on the command line
+ * @returns {ChangeSeverity} The severity
+ * @throws {Error} If the value is not a severity
+ */
+export function parseSeverity(value: string): ChangeSeverity {
+  if (!CHANGE_SEVERITIES.includes(value as ChangeSeverity)) {
+    throw new Error(`Unknown severity '${value}': use ${CHANGE_SEVERITIES.join(", ")}.`);
+  }
+  return value as ChangeSeverity;
+}
+
+/**
+ * Formats a severity as a coloured tag
+ * @param {ChangeSeverity} severity - Severity
+ * @returns {string} Tag such as `[breaking]`
+ */
+export function formatSeverity(severity: ChangeSeverity): string {
+  const color =
+    severity === "breaking" ? chalk.red : severity === "risky" ? chalk.yellow : chalk.gray;
+  return color(`[${severity}]`);
+}
+
+/**
+ * Formats classified changes as one line per change
+ * @example
+ * // - users.email: string [breaking] drops the column and its values
+ * @param {ClassifiedChange[]} classified - Classified changes
+ * @returns {string[]} Lines describing the changes and their impact
+ */
+export function formatClassifiedChanges(classified: ClassifiedChange[]): string[] {
+  return classified.map(({ change, severity, reason }) => {
+    const [line] = formatSchemaChanges([change]);
+    return `${line} ${formatSeverity(severity)} ${chalk.gray(reason)}`;
+  });
+}
+
+/**
+ * Counts classified changes by severity
+ * @example
+ * // 1 breaking, 2 safe
+ * @param {ClassifiedChange[]} classified - Classified changes
+ * @returns {string} Counts from the most severe, or `no changes`
+ */
+export function summarizeSeverities(classified: ClassifiedChange[]): string {
+  if (classified.length === 0) return "no changes";
+
+  return [...CHANGE_SEVERITIES]
+    .reverse()
+    .flatMap(severity => {
+      const count = classified.filter(item => item.severity === severity).length;
+      return count > 0 ? [`${count} ${severity}`] : [];
+    })
+    .join(", ");
+}
+
+/**
+ * Determines the impact of a schema change
+ * @param {SchemaChange} change - Change to classify
+ * @returns {ChangeImpact} Severity, reason and whether stored data is lost
+ */
+function getChangeImpact(change: SchemaChange): ChangeImpact {
+  switch (change.kind) {
+    case "table-added":
+      return { severity: "safe", reason: "new table", destructive: false };
+    case "table-removed":
+      return { severity: "breaking", reason: "drops the table and its rows", destructive: true };
+    case "table-renamed":
+      return {
+        severity: "breaking",
+        reason: "clients still use the previous name",
+        destructive: false,
+      };
+    case "column-added":
+      return change.after.required === true && change.after.default === undefined
+        ? { severity: "risky", reason: "new required column without a default", destructive: false }
+        : { severity: "safe", reason: "new optional column", destructive: false };
+    case "column-removed":
+      return { severity: "breaking", reason: "drops the column and its values", destructive: true };
+    case "column-renamed":
+      return {
+        severity: "breaking",
+        reason: "clients still use the previous name",
+        destructive: false,
+      };
+    case "column-changed":
+      return classifyColumnChange(change.before, change.after);
+  }
+}
+
+/**
+ * Classifies the change of a column descriptor by its most severe attribute change
+ * @param {ColumnDefinition} before - Previous descriptor
+ * @param {ColumnDefinition} after - New descriptor
+ * @returns {ChangeImpact} Severity, reason and whether stored values are lost
+ */
+function classifyColumnChange(before: ColumnDefinition, after: ColumnDefinition): ChangeImpact {
+  if (before.type !== after.type) {
+    return {
+      severity: "breaking",
+      reason: `changes the type ${before.type} → ${after.type}`,
+      destructive: true,
+    };
+  }
+  if (before.items !== after.items) {
+    return {
+      severity: "breaking",
+      reason: `changes the items ${before.items} → ${after.items}`,
+      destructive: true,
+    };
+  }
+  if (before.target !== after.target || before.relation !== after.relation) {
+    return { severity: "breaking", reason: "changes the relation", destructive: false };
+  }
+
+  const removed = Array.isArray(before.enum)
+    ? before.enum.filter(value => !after.enum?.includes(value))
+    : [];
+  if (removed.length > 0) {
+    return {
+      severity: "risky",
+      reason: `removes the enum values ${removed.join(", ")}`,
+      destructive: true,
+    };
+  }
+  if (after.required === true && before.required !== true && after.default === undefined) {
+    return { severity: "risky", reason: "makes the column required", destructive: false };
+  }
+  if (after.nullable === false && before.nullable !== false) {
+    return { severity: "risky", reason: "makes the column non-nullable", destructive: false };
+  }
+  if (after.unique === true && before.unique !== true) {
+    return { severity: "risky", reason: "makes the column unique", destructive: false };
+  }
+
+  return { severity: "safe", reason: "keeps existing values valid", destructive: false };
+}
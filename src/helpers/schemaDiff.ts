@@ -0,0 +1,321 @@
+/**
+ * @file Schema comparison
+ * @description Lists the tables and columns added, removed, renamed or changed between two schemas
+ */
+import chalk from "chalk";
+import { normalizeColumn } from "./filterSchema.js";
+import { ColumnDefinition, HosbySchema } from "../types/types.js";
+
+/**
+ * A difference between two schemas
+ * @description Column descriptors are normalized, so a legacy string column and the equivalent
+ * descriptor are not reported as changed. Renames are candidates guessed from a removed and an
+ * added entry, `from` being the previous name
+ */
+export type SchemaChange =
+  | { kind: "table-added"; table: string; columns: Record<string, ColumnDefinition> }
+  | { kind: "table-removed"; table: string; columns: Record<string, ColumnDefinition> }
+  | {
+      kind: "table-renamed";
+      table: string;
+      from: string;
+      columns: Record<string, ColumnDefinition>;
+    }
+  | { kind: "column-added"; table: string; column: string; after: ColumnDefinition }
+  | { kind: "column-removed"; table: string; column: string; before: ColumnDefinition }
+  | {
+      kind: "column-changed";
+      table: string;
+      column: string;
+      before: ColumnDefinition;
+      after: ColumnDefinition;
+    }
+  | {
+      kind: "column-renamed";
+      table: string;
+      column: string;
+      from: string;
+      after: ColumnDefinition;
+    };
+
+/**
+ * Options of a schema comparison
+ * @property {boolean} [detectRenames] - Whether to report a removed and an added entry that look
+ * alike as a rename candidate
+ */
+export type DiffOptions = {
+  detectRenames?: boolean;
+};
+
+/**
+ * Share of column names a removed and an added table must have in common to be reported as a
+ * rename candidate
+ */
+const TABLE_RENAME_SIMILARITY = 0.6;
+
+/**
+ * Compares two schemas
+ * @description With `detectRenames`, a removed column and an added column of the same table with
+ * the same descriptor, or a removed and an added table sharing most of their column names, are
+ * reported as a rename candidate instead
+ * @param {HosbySchema} before - Previous schema
+ * @param {HosbySchema} after - New schema
+ * @param {DiffOptions} [options] - Comparison options
+ * @returns {SchemaChange[]} Differences, table by table in the order of the schemas
+ */
+export function diffSchemas(
+  before: HosbySchema,
+  after: HosbySchema,
+  options: DiffOptions = {}
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const beforeTables = before.tables || {};
+  const afterTables = after.tables || {};
+
+  for (const table of Object.keys(beforeTables)) {
+    if (!(table in afterTables)) {
+      changes.push({ kind: "table-removed", table, columns: normalizeTable(beforeTables[table]) });
+    }
+  }
+
+  for (const [table, columns] of Object.entries(afterTables)) {
+    if (!(table in beforeTables)) {
+      changes.push({ kind: "table-added", table, columns: normalizeTable(columns) });
+      continue;
+    }
+
+    const previous = normalizeTable(beforeTables[table]);
+    const current = normalizeTable(columns);
+
+    for (const [column, definition] of Object.entries(previous)) {
+      if (!(column in current)) {
+        changes.push({ kind: "column-removed", table, column, before: definition });
+      }
+    }
+
+    for (const [column, definition] of Object.entries(current)) {
+      if (!(column in previous)) {
+        changes.push({ kind: "column-added", table, column, after: definition });
+      } else if (!isSameColumn(previous[column], definition)) {
+        changes.push({
+          kind: "column-changed",
+          table,
+          column,
+          before: previous[column],
+          after: definition,
+        });
+      }
+    }
+  }
+
+  return options.detectRenames ? pairRenames(changes) : changes;
+}
+
+/**
+ * Formats schema changes as one line per change, coloured for the terminal
+ * @example
+ * // + posts (3 columns), ~ users.email: required true → false
+ * @param {SchemaChange[]} changes - Changes to format
+ * @returns {string[]} Lines describing the changes
+ */
+export function formatSchemaChanges(changes: SchemaChange[]): string[] {
+  return changes.map(change => {
+    switch (change.kind) {
+      case "table-added":
+        return chalk.green(`+ ${change.table} (${countColumns(change.columns)})`);
+      case "table-removed":
+        return chalk.red(`- ${change.table} (${countColumns(change.columns)})`);
+      case "column-added":
+        return chalk.green(`+ ${change.table}.${change.column}: ${describeColumn(change.after)}`);
+      case "column-removed":
+        return chalk.red(`- ${change.table}.${change.column}: ${describeColumn(change.before)}`);
+      case "column-changed":
+        return chalk.yellow(
+          `~ ${change.table}.${change.column}: ${describeColumnChange(change.before, change.after)}`
+        );
+      case "table-renamed":
+        return chalk.cyan(`> ${change.from} → ${change.table} (rename?)`);
+      case "column-renamed":
+        return chalk.cyan(`> ${change.table}.${change.from} → ${change.column} (rename?)`);
+    }
+  });
+}
+
+/**
+ * Counts schema changes by kind
+ * @example
+ * // 1 table added, 2 columns changed
+ * @param {SchemaChange[]} changes - Changes to count
+ * @returns {string} Counts of the kinds present, or `no changes`
+ */
+export function summarizeSchemaChanges(changes: SchemaChange[]): string {
+  const counts = new Map<string, number>();
+  changes.forEach(change => {
+    const [entry, action] = change.kind.split("-");
+    counts.set(`${entry}:${action}`, (counts.get(`${entry}:${action}`) || 0) + 1);
+  });
+
+  if (counts.size === 0) return "no changes";
+
+  return [...counts.entries()]
+    .map(([key, count]) => {
+      const [entry, action] = key.split(":");
+      return `${count} ${entry}${count === 1 ? "" : "s"} ${action}`;
+    })
+    .join(", ");
+}
+
+/**
+ * Lists the tables touched by schema changes
+ * @param {SchemaChange[]} changes - Changes
+ * @returns {string[]} Names of the added, removed or modified tables
+ */
+export function getChangedTables(changes: SchemaChange[]): string[] {
+  return [
+    ...new Set(
+      changes.flatMap(change =>
+        change.kind === "table-renamed" ? [change.from, change.table] : [change.table]
+      )
+    ),
+  ];
+}
+
+/**
+ * Describes the attributes that differ between two versions of a column
+ * @param {ColumnDefinition} before - Previous descriptor
+ * @param {ColumnDefinition} after - New descriptor
+ * @returns {string} Changed attributes, e.g. `type string → number, unique added`
+ */
+export function describeColumnChange(before: ColumnDefinition, after: ColumnDefinition): string {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return keys
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => {
+      if (before[key] === undefined) return `${key} ${JSON.stringify(after[key])} added`;
+      if (after[key] === undefined) return `${key} ${JSON.stringify(before[key])} removed`;
+      return `${key} ${JSON.stringify(before[key])} → ${JSON.stringify(after[key])}`;
+    })
+    .join(", ");
+}
+
+/**
+ * Determines if two column descriptors are equivalent, whatever the order of their keys
+ * @param {ColumnDefinition} a - First descriptor
+ * @param {ColumnDefinition} b - Second descriptor
+ * @returns {boolean} True if both descriptors hold the same values
+ */
+export function isSameColumn(a: ColumnDefinition, b: ColumnDefinition): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+}
+
+/**
+ * Replaces removed and added entries that look alike with rename candidates
+ * @description Each removed entry is paired at most once, with the first matching added entry; the
+ * rename takes the place of the added entry
+ * @param {SchemaChange[]} changes - Differences without renames
+ * @returns {SchemaChange[]} Differences with rename candidates
+ */
+function pairRenames(changes: SchemaChange[]): SchemaChange[] {
+  const paired = new Set<SchemaChange>();
+
+  const renamed = changes.map((change): SchemaChange => {
+    if (change.kind === "column-added") {
+      const removed = changes.find(
+        other =>
+          other.kind === "column-removed" &&
+          other.table === change.table &&
+          !paired.has(other) &&
+          isSameColumn(other.before, change.after)
+      );
+      if (removed?.kind === "column-removed") {
+        paired.add(removed);
+        return {
+          kind: "column-renamed",
+          table: change.table,
+          column: change.column,
+          from: removed.column,
+          after: change.after,
+        };
+      }
+    }
+
+    if (change.kind === "table-added") {
+      const removed = changes.find(
+        other =>
+          other.kind === "table-removed" &&
+          !paired.has(other) &&
+          getNameSimilarity(other.columns, change.columns) >= TABLE_RENAME_SIMILARITY
+      );
+      if (removed?.kind === "table-removed") {
+        paired.add(removed);
+        return {
+          kind: "table-renamed",
+          table: change.table,
+          from: removed.table,
+          columns: change.columns,
+        };
+      }
+    }
+
+    return change;
+  });
+
+  return renamed.filter(change => !paired.has(change));
+}
+
+/**
+ * Measures how much the column names of two tables overlap
+ * @param {Record<string, ColumnDefinition>} a - Columns of the first table
+ * @param {Record<string, ColumnDefinition>} b - Columns of the second table
+ * @returns {number} Shared names over all names, between 0 and 1
+ */
+function getNameSimilarity(
+  a: Record<string, ColumnDefinition>,
+  b: Record<string, ColumnDefinition>
+): number {
+  const names = new Set([...Object.keys(a), ...Object.keys(b)]);
+  const shared = Object.keys(a).filter(name => name in b).length;
+  return names.size === 0 ? 0 : shared / names.size;
+}
+
+/**
+ * Normalizes the columns of a table
+ * @param {unknown} columns - Table value from a schema
+ * @returns {Record<string, ColumnDefinition>} Column descriptors by column name
+ */
+function normalizeTable(columns: unknown): Record<string, ColumnDefinition> {
+  if (!columns || typeof columns !== "object") return {};
+
+  return Object.fromEntries(
+    Object.entries(columns as Record<string, unknown>).map(([name, column]) => [
+      name,
+      normalizeColumn(column),
+    ])
+  );
+}
+
+/**
+ * Describes a column in a few words
+ * @param {ColumnDefinition} column - Column descriptor
+ * @returns {string} Type with its relation target or items, and optionality
+ */
+function describeColumn(column: ColumnDefinition): string {
+  let type = column.type;
+  if (column.type === "relation" && column.target) type = `relation → ${column.target}`;
+  if (column.type === "array" && column.items) type = `array<${column.items}>`;
+  if (column.type === "enum" && Array.isArray(column.enum)) type = `enum(${column.enum.join("|")})`;
+
+  return column.required === false ? `${type}?` : type;
+}
+
+/**
+ * Counts the columns of a table
+ * @param {Record<string, ColumnDefinition>} columns - Columns of the table
+ * @returns {string} Count, e.g. `3 columns`
+ */
+function countColumns(columns: Record<string, ColumnDefinition>): string {
+  const count = Object.keys(columns).length;
+  return `${count} ${count === 1 ? "column" : "columns"}`;
+}
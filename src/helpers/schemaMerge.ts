@@ -0,0 +1,155 @@
+/**
+ * @file Schema merge
+ * @description Reconciles a freshly scanned schema with the schema file it would replace, so manual
+ * edits survive a new scan
+ */
+import chalk from "chalk";
+import { normalizeColumn } from "./filterSchema.js";
+import { diffSchemas, formatSchemaChanges, isSameColumn, SchemaChange } from "./schemaDiff.js";
+import { ColumnDefinition, HosbySchema, SchemaColumn } from "../types/types.js";
+
+/**
+ * Column attributes a scan fully describes
+ * @description The scanned value replaces the existing one, and an attribute the scan no longer
+ * gives is dropped. Other attributes, such as `unique`, `index`, `min` or a description, are kept
+ * when the scan does not give them, as they may have been written by hand
+ */
+const SCANNED_ATTRIBUTES = new Set([
+  "type",
+  "required",
+  "nullable",
+  "default",
+  "items",
+  "enum",
+  "relation",
+  "target",
+  "through",
+]);
+
+/**
+ * Hand-written attributes kept on a scanned column
+ * @property {string} table - Table name
+ * @property {string} column - Column name
+ * @property {string[]} attributes - Attributes kept from the existing schema
+ */
+export type PreservedAttributes = {
+  table: string;
+  column: string;
+  attributes: string[];
+};
+
+/**
+ * Result of a schema merge
+ * @property {HosbySchema} schema - Merged schema
+ * @property {SchemaChange[]} changes - Tables and columns added or changed by the scan
+ * @property {SchemaChange[]} stale - Tables and columns of the existing schema the scan no longer
+ * finds, kept in the merged schema
+ * @property {PreservedAttributes[]} preserved - Hand-written attributes kept on scanned columns
+ */
+export type SchemaMerge = {
+  schema: HosbySchema;
+  changes: SchemaChange[];
+  stale: SchemaChange[];
+  preserved: PreservedAttributes[];
+};
+
+/**
+ * Merges a scanned schema into an existing one
+ * @description Scanned tables and columns are added, and scanned columns update the attributes the
+ * scanner describes while keeping the others. Tables and columns the scan no longer finds are kept
+ * and reported as stale. Metadata such as `metadata.project` and other top-level keys of the
+ * existing schema are kept; the metadata written by the scanner is refreshed. Unchanged columns
+ * keep their existing notation, e.g. a legacy `"string"` column
+ * @param {HosbySchema} existing - Schema of the existing file
+ * @param {HosbySchema} scanned - Filtered scan result
+ * @returns {SchemaMerge} Merged schema and what the merge changed, kept and preserved
+ */
+export function mergeSchemas(existing: HosbySchema, scanned: HosbySchema): SchemaMerge {
+  const existingTables = existing.tables || {};
+  const tables: HosbySchema["tables"] = {};
+  const preserved: PreservedAttributes[] = [];
+
+  for (const [table, columns] of Object.entries(existingTables)) {
+    tables[table] = { ...columns };
+  }
+
+  for (const [table, columns] of Object.entries(scanned.tables)) {
+    const merged = tables[table] || {};
+
+    for (const [column, scannedColumn] of Object.entries(columns)) {
+      if (!(column in merged)) {
+        merged[column] = scannedColumn;
+        continue;
+      }
+
+      const { definition, kept } = mergeColumn(merged[column], scannedColumn);
+      if (!isSameColumn(normalizeColumn(merged[column]), definition)) {
+        merged[column] = definition;
+      }
+      if (kept.length > 0) {
+        preserved.push({ table, column, attributes: kept });
+      }
+    }
+
+    tables[table] = merged;
+  }
+
+  const schema: HosbySchema = {
+    ...scanned,
+    ...existing,
+    tables,
+    metadata: { ...existing.metadata, ...scanned.metadata },
+  };
+
+  return {
+    schema,
+    changes: diffSchemas(existing, schema),
+    stale: diffSchemas(existing, scanned).filter(
+      change => change.kind === "table-removed" || change.kind === "column-removed"
+    ),
+    preserved,
+  };
+}
+
+/**
+ * Summarizes a schema merge, one coloured line per change
+ * @example
+ * // + posts (3 columns), ! users.legacy: not found by the scan, kept, = users.email: kept unique
+ * @param {SchemaMerge} merge - Merge to describe
+ * @returns {string[]} Lines describing the merge
+ */
+export function formatSchemaMerge(merge: SchemaMerge): string[] {
+  return [
+    ...formatSchemaChanges(merge.changes),
+    ...merge.stale.map(change =>
+      chalk.yellow(
+        `! ${change.kind === "column-removed" ? `${change.table}.${change.column}` : change.table}: not found by the scan, kept`
+      )
+    ),
+    ...merge.preserved.map(({ table, column, attributes }) =>
+      chalk.gray(`= ${table}.${column}: kept ${attributes.join(", ")}`)
+    ),
+  ];
+}
+
+/**
+ * Merges a scanned column into an existing column
+ * @param {SchemaColumn} existing - Existing column
+ * @param {SchemaColumn} scanned - Scanned column
+ * @returns {{ definition: ColumnDefinition; kept: string[] }} Merged descriptor and the attributes
+ * kept from the existing column
+ */
+function mergeColumn(
+  existing: SchemaColumn,
+  scanned: SchemaColumn
+): { definition: ColumnDefinition; kept: string[] } {
+  const definition = normalizeColumn(scanned);
+  const kept = Object.entries(normalizeColumn(existing))
+    .filter(([key]) => !SCANNED_ATTRIBUTES.has(key) && !(key in definition))
+    .map(([key, value]) => {
+      definition[key] = value;
+      return key;
+    });
+
+  return { definition, kept };
+}
@@ -0,0 +1,216 @@
+/**
+ * @file Schema versioning
+ * @description Bumps the semantic version of a schema from the impact of its changes since the last
+ * push, and keeps a human-readable changelog of the pushed versions
+ */
+import fs from "fs";
+import { describeColumnChange, diffSchemas, SchemaChange } from "./schemaDiff.js";
+import {
+  CHANGE_SEVERITIES,
+  ClassifiedChange,
+  classifySchemaChanges,
+} from "./schemaCompatibility.js";
+import { HosbySchema } from "../types/types.js";
+
+/**
+ * Part of a semantic version to increment
+ */
+export type VersionBump = "major" | "minor" | "patch";
+
+/**
+ * Version of a schema that has never been versioned
+ */
+export const INITIAL_SCHEMA_VERSION = "1.0.0";
+
+/**
+ * Title of the schema changelog
+ */
+const CHANGELOG_TITLE = "# Hosby Schema Changelog";
+
+/**
+ * Version a push gives the schema
+ * @property {string} [previous] - Version of the last pushed schema, absent for a first push
+ * @property {string} version - Version to push
+ * @property {VersionBump} [bump] - Automatic increment, absent for a first push, a version set by
+ * hand or a schema without table changes
+ * @property {ClassifiedChange[]} changes - Changes since the last pushed schema
+ */
+export type SchemaVersionChange = {
+  previous?: string;
+  version: string;
+  bump?: VersionBump;
+  changes: ClassifiedChange[];
+};
+
+/**
+ * Picks the increment matching the impact of schema changes
+ * @description Breaking changes bump the major version. Risky changes and new tables or columns
+ * bump the minor version. Other changes bump the patch version
+ * @param {ClassifiedChange[]} changes - Classified changes
+ * @returns {VersionBump | undefined} Increment, undefined without changes
+ */
+export function getVersionBump(changes: ClassifiedChange[]): VersionBump | undefined {
+  if (changes.length === 0) return undefined;
+  if (changes.some(item => item.severity === "breaking")) return "major";
+  if (
+    changes.some(
+      item =>
+        item.severity === "risky" ||
+        item.change.kind === "table-added" ||
+        item.change.kind === "column-added"
+    )
+  ) {
+    return "minor";
+  }
+  return "patch";
+}
+
+/**
+ * Increments a semantic version
+ * @example
+ * bumpVersion("1.4.2", "minor"); // "1.5.0"
+ * @param {string} version - Current version, the initial version if it is not `x.y.z`
+ * @param {VersionBump} bump - Part to increment
+ * @returns {string} New version
+ */
+export function bumpVersion(version: string, bump: VersionBump): string {
+  const [major, minor, patch] = parseVersion(version) || [1, 0, 0];
+
+  if (bump === "major") return `${major + 1}.0.0`;
+  if (bump === "minor") return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+/**
+ * Works out the version a push gives the schema
+ * @description The version of the last pushed schema is bumped from the changes since then. A
+ * local version higher than the last pushed one was set by hand and is kept
+ * @param {HosbySchema | undefined} pushed - Last pushed schema, undefined before the first push
+ * @param {HosbySchema} current - Schema to push
+ * @returns {SchemaVersionChange} Version to push and the changes behind it
+ */
+export function planSchemaVersion(
+  pushed: HosbySchema | undefined,
+  current: HosbySchema
+): SchemaVersionChange {
+  if (!pushed) {
+    return {
+      version: current.version || INITIAL_SCHEMA_VERSION,
+      changes: classifySchemaChanges(diffSchemas({ tables: {} }, current)),
+    };
+  }
+
+  const previous = pushed.version || INITIAL_SCHEMA_VERSION;
+  const changes = classifySchemaChanges(diffSchemas(pushed, current, { detectRenames: true }));
+
+  if (current.version && compareVersions(current.version, previous) > 0) {
+    return { previous, version: current.version, changes };
+  }
+
+  const bump = getVersionBump(changes);
+  return { previous, version: bump ? bumpVersion(previous, bump) : previous, bump, changes };
+}
+
+/**
+ * Writes the changelog entry of a pushed version
+ * @example
+ * // ## 1.1.0 (2026-03-02)
+ * //
+ * // ### Safe
+ * //
+ * // - Added column `users.nickname` (string)
+ * @param {SchemaVersionChange} versionChange - Pushed version
+ * @param {Date} [date] - Push date
+ * @returns {string} Markdown entry, changes grouped from the most severe
+ */
+export function formatChangelogEntry(
+  versionChange: SchemaVersionChange,
+  date = new Date()
+): string {
+  const lines = [`## ${versionChange.version} (${date.toISOString().slice(0, 10)})`, ""];
+
+  if (!versionChange.previous) {
+    const count = versionChange.changes.filter(item => item.change.kind === "table-added").length;
+    lines.push(`Initial version with ${count} ${count === 1 ? "table" : "tables"}.`, "");
+    return lines.join("\n");
+  }
+
+  if (versionChange.changes.length === 0) {
+    lines.push(`No table changes since ${versionChange.previous}.`, "");
+    return lines.join("\n");
+  }
+
+  for (const severity of [...CHANGE_SEVERITIES].reverse()) {
+    const changes = versionChange.changes.filter(item => item.severity === severity);
+    if (changes.length === 0) continue;
+
+    lines.push(`### ${severity[0].toUpperCase()}${severity.slice(1)}`, "");
+    changes.forEach(item => lines.push(`- ${describeChange(item.change)}`));
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Adds an entry to the schema changelog, below its title and above the previous entries
+ * @param {string} changelogFile - Path to the changelog, created if missing
+ * @param {string} entry - Markdown entry
+ */
+export function addChangelogEntry(changelogFile: string, entry: string): void {
+  const content = fs.existsSync(changelogFile) ? fs.readFileSync(changelogFile, "utf-8") : "";
+  const previous = content.startsWith(CHANGELOG_TITLE)
+    ? content.slice(CHANGELOG_TITLE.length).trimStart()
+    : content.trimStart();
+
+  const updated = `${CHANGELOG_TITLE}\n\n${entry.trimEnd()}\n`;
+  fs.writeFileSync(changelogFile, previous ? `${updated}\n${previous}` : updated, "utf-8");
+}
+
+/**
+ * Compares two semantic versions
+ * @param {string} a - First version
+ * @param {string} b - Second version
+ * @returns {number} Negative if a is lower, positive if higher, 0 if equal or not comparable
+ */
+function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return 0;
+
+  return left[0] - right[0] || left[1] - right[1] || left[2] - right[2];
+}
+
+/**
+ * Parses an `x.y.z` version, ignoring any pre-release or build suffix
+ * @param {string} version - Version
+ * @returns {number[] | null} Major, minor and patch numbers, null if the version is not `x.y.z`
+ */
+function parseVersion(version: string): [number, number, number] | null {
+  const match = version.match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+/**
+ * Describes a schema change as a changelog line
+ * @param {SchemaChange} change - Change
+ * @returns {string} Sentence naming the table or column in code spans
+ */
+function describeChange(change: SchemaChange): string {
+  switch (change.kind) {
+    case "table-added":
+      return `Added table \`${change.table}\``;
+    case "table-removed":
+      return `Dropped table \`${change.table}\``;
+    case "table-renamed":
+      return `Renamed table \`${change.from}\` to \`${change.table}\``;
+    case "column-added":
+      return `Added column \`${change.table}.${change.column}\` (${change.after.type}${change.after.required === true ? ", required" : ""})`;
+    case "column-removed":
+      return `Dropped column \`${change.table}.${change.column}\``;
+    case "column-renamed":
+      return `Renamed column \`${change.table}.${change.from}\` to \`${change.column}\``;
+    case "column-changed":
+      return `Changed column \`${change.table}.${change.column}\`: ${describeColumnChange(change.before, change.after)}`;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * @file Three-way schema merge
+ * @description Merges the local and server versions of a schema against their common ancestor, the
+ * schema recorded at the last pull or push, table by table and column by column
+ */
+import { normalizeColumn } from "./filterSchema.js";
+import { isSameColumn } from "./schemaDiff.js";
+import { HosbySchema, SchemaColumn } from "../types/types.js";
+
+/**
+ * Columns of a table
+ */
+type TableColumns = Record<string, SchemaColumn>;
+
+/**
+ * A change made on both sides that the merge cannot settle
+ * @description Without `column`, the conflict is about a whole table one side deleted while the
+ * other changed it. A missing value means the table or column is absent from that version
+ * @property {string} table - Table name
+ * @property {string} [column] - Column name, for column conflicts
+ * @property {SchemaColumn | TableColumns} [base] - Value at the last pull
+ * @property {SchemaColumn | TableColumns} [local] - Local value
+ * @property {SchemaColumn | TableColumns} [server] - Server value
+ */
+export type SchemaConflict = {
+  table: string;
+  column?: string;
+  base?: SchemaColumn | TableColumns;
+  local?: SchemaColumn | TableColumns;
+  server?: SchemaColumn | TableColumns;
+};
+
+/**
+ * Version chosen to resolve a conflict
+ */
+export type ConflictResolution = "local" | "server" | "base";
+
+/**
+ * Result of a three-way merge
+ * @property {HosbySchema} schema - Merged schema, holding the local value of conflicting entries
+ * until they are resolved
+ * @property {SchemaConflict[]} conflicts - Entries changed differently on both sides
+ */
+export type ThreeWayMerge = {
+  schema: HosbySchema;
+  conflicts: SchemaConflict[];
+};
+
+/**
+ * Merges the local and server versions of a schema against their common ancestor
+ * @description A table or column changed on one side only takes that side's value, including its
+ * removal; one changed the same way on both sides is kept. Only entries changed differently on
+ * both sides are conflicts. Tables changed on both sides are merged column by column, so a column
+ * added locally survives a server change to another column of the table. Other top-level keys, such
+ * as `metadata`, follow the same rule and keep the local value when both sides changed them.
+ * Without an ancestor, nothing can be known to be removed: entries present on one side only are
+ * kept
+ * @param {HosbySchema | undefined} base - Schema at the last pull
+ * @param {HosbySchema} local - Local schema
+ * @param {HosbySchema} server - Server schema
+ * @returns {ThreeWayMerge} Merged schema and conflicts
+ */
+export function mergeThreeWay(
+  base: HosbySchema | undefined,
+  local: HosbySchema,
+  server: HosbySchema
+): ThreeWayMerge {
+  const conflicts: SchemaConflict[] = [];
+  const baseTables = base?.tables || {};
+  const localTables = local.tables || {};
+  const serverTables = server.tables || {};
+  const tables: HosbySchema["tables"] = {};
+
+  for (const table of getKeys(localTables, serverTables)) {
+    const localTable = localTables[table];
+    const serverTable = serverTables[table];
+    const baseTable = baseTables[table];
+
+    const resolved = pickChange(baseTable, localTable, serverTable, isSameTable);
+    if (resolved !== CONFLICT) {
+      if (resolved) tables[table] = resolved;
+      continue;
+    }
+
+    if (!localTable || !serverTable) {
+      conflicts.push({ table, base: baseTable, local: localTable, server: serverTable });
+      if (localTable) tables[table] = localTable;
+      continue;
+    }
+
+    tables[table] = mergeTable(table, baseTable || {}, localTable, serverTable, conflicts);
+  }
+
+  const schema: HosbySchema = { tables };
+  for (const key of getKeys(local, server)) {
+    if (key === "tables") continue;
+
+    const resolved = pickChange(base?.[key], local[key], server[key], isSameValue);
+    const value = resolved === CONFLICT ? local[key] : resolved;
+    if (value !== undefined) schema[key] = value;
+  }
+
+  return { schema: { ...schema, tables }, conflicts };
+}
+
+/**
+ * Applies the version chosen for a conflict to a merged schema
+ * @param {HosbySchema} schema - Merged schema, updated in place
+ * @param {SchemaConflict} conflict - Conflict to resolve
+ * @param {ConflictResolution} resolution - Version to keep
+ */
+export function resolveSchemaConflict(
+  schema: HosbySchema,
+  conflict: SchemaConflict,
+  resolution: ConflictResolution
+): void {
+  const value = conflict[resolution];
+
+  if (conflict.column === undefined) {
+    if (value === undefined) delete schema.tables[conflict.table];
+    else schema.tables[conflict.table] = value as TableColumns;
+    return;
+  }
+
+  const table = schema.tables[conflict.table] || {};
+  if (value === undefined) delete table[conflict.column];
+  else table[conflict.column] = value as SchemaColumn;
+  schema.tables[conflict.table] = table;
+}
+
+/**
+ * Marks a change made differently on both sides
+ */
+const CONFLICT = Symbol("conflict");
+
+/**
+ * Picks the value of an entry from its three versions
+ * @param {T | undefined} base - Ancestor value
+ * @param {T | undefined} local - Local value
+ * @param {T | undefined} server - Server value
+ * @param {(a: T, b: T) => boolean} isSame - Equality of two present values
+ * @returns {T | undefined | typeof CONFLICT} Value to keep, undefined when the entry is removed
+ */
+function pickChange<T>(
+  base: T | undefined,
+  local: T | undefined,
+  server: T | undefined,
+  isSame: (a: T, b: T) => boolean
+): T | undefined | typeof CONFLICT {
+  const same = (a: T | undefined, b: T | undefined) =>
+    a === undefined || b === undefined ? a === b : isSame(a, b);
+
+  if (same(local, server)) return local;
+  if (same(base, local)) return server;
+  if (same(base, server)) return local;
+  return CONFLICT;
+}
+
+/**
+ * Merges the columns of a table changed on both sides
+ * @param {string} table - Table name
+ * @param {TableColumns} base - Columns at the last pull
+ * @param {TableColumns} local - Local columns
+ * @param {TableColumns} server - Server columns
+ * @param {SchemaConflict[]} conflicts - Conflicts found so far, completed in place
+ * @returns {TableColumns} Merged columns, in local order then server order
+ */
+function mergeTable(
+  table: string,
+  base: TableColumns,
+  local: TableColumns,
+  server: TableColumns,
+  conflicts: SchemaConflict[]
+): TableColumns {
+  const columns: TableColumns = {};
+
+  for (const column of getKeys(local, server)) {
+    const resolved = pickChange(base[column], local[column], server[column], (a, b) =>
+      isSameColumn(normalizeColumn(a), normalizeColumn(b))
+    );
+
+    if (resolved === CONFLICT) {
+      conflicts.push({
+        table,
+        column,
+        base: base[column],
+        local: local[column],
+        server: server[column],
+      });
+      if (local[column] !== undefined) columns[column] = local[column];
+    } else if (resolved !== undefined) {
+      columns[column] = resolved;
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Determines if two versions of a table hold the same columns
+ * @param {TableColumns} a - First version
+ * @param {TableColumns} b - Second version
+ * @returns {boolean} True if both have the same columns with equivalent descriptors
+ */
+function isSameTable(a: TableColumns, b: TableColumns): boolean {
+  const columns = getKeys(a, b);
+  return columns.every(
+    column =>
+      column in a &&
+      column in b &&
+      isSameColumn(normalizeColumn(a[column]), normalizeColumn(b[column]))
+  );
+}
+
+/**
+ * Determines if two JSON values are equal
+ * @param {unknown} a - First value
+ * @param {unknown} b - Second value
+ * @returns {boolean} True if both serialize the same
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Lists the keys of two objects, those of the first one first
+ * @param {object} a - First object
+ * @param {object} b - Second object
+ * @returns {string[]} Keys without duplicates
+ */
+function getKeys(a: object, b: object): string[] {
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])];
+}
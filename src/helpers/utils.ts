@@ -5,7 +5,8 @@ import logger from "./logger.js";
 import path from "path";
 import ora, { Ora } from "ora";
 import inquirer from "inquirer";
-import { SimpleSpinner } from "../types/types.js";
+import { RelationColumn, SimpleSpinner } from "../types/types.js";
+import { normalizeColumn } from "./filterSchema.js";
 
 /**
  * Prompts the user to choose whether to use AI
@@ -113,32 +114,6 @@ export function cleanupAndSucceed(
   spinner.succeed(message);
 }
 
-/**
- * Gets the last modified time of a schema file
- * @param {string} filePath - Path to the schema file
- * @returns {Date} Last modified date of the file
- */
-export function getSchemaLastModified(filePath: string): Date {
-  try {
-    const stats = fs.statSync(filePath);
-    return stats.mtime;
-  } catch (err) {
-    logger.error("Failed to get file stats", err);
-    return new Date(0); // Return epoch if file doesn't exist or can't be accessed
-  }
-}
-
-/**
- * Checks if the local schema has been modified since the last pull
- * @param {string} filePath - Path to the schema file
- * @param {Date} lastPullTime - Time of the last pull operation
- * @returns {boolean} True if the schema has been modified locally
- */
-export function hasLocalChanges(filePath: string, lastPullTime: Date): boolean {
-  const lastModified = getSchemaLastModified(filePath);
-  return lastModified > lastPullTime;
-}
-
 /**
  * Checks if the schema file exists before pushing
  * @returns {boolean} True if schema file exists
@@ -180,6 +155,25 @@ export function getSchemaHash(schema: Record<string, unknown>): string {
   return (hash & 0x7fffffff).toString(36);
 }
 
+/**
+ * Determines if nobody can answer prompts, in CI or without a terminal
+ * @returns {boolean} True if the CLI runs non-interactively
+ */
+export function isNonInteractive(): boolean {
+  const ci = process.env.CI;
+  return (!!ci && ci !== "false") || !process.stdin.isTTY;
+}
+
+/**
+ * Reads the schema revision reported by the server in a response body
+ * @param {Record<string, any>} [data] - Response body, possibly wrapping its payload in `data`
+ * @returns {string | undefined} Revision, undefined if the server did not report one
+ */
+export function getServerRevision(data?: Record<string, any>): string | undefined {
+  const revision = data?.revision ?? data?.data?.revision;
+  return revision === undefined || revision === null ? undefined : String(revision);
+}
+
 /**
  * Validates the scan path to ensure it exists and is accessible
  * @param {string} scanPath - Path to scan for project files
@@ -207,7 +201,7 @@ export function validateScanPath(scanPath: string): boolean {
 
 /**
  * Determine TypeScript type from schema value
- * @param value - Schema value
+ * @param value - Schema value, either a legacy type string or a column descriptor
  * @returns TypeScript type
  */
 export function getTypeFromSchema(value: unknown): string {
@@ -215,27 +209,61 @@ export function getTypeFromSchema(value: unknown): string {
     return "any";
   }
 
-  if (Array.isArray(value)) {
-    if (value.length === 0) {
-      return "any[]";
-    }
-    return `${getTypeFromSchema(value[0])}[]`;
-  }
-
-  if (typeof value === "object") {
-    return "Record<string, any>";
-  }
+  const column = normalizeColumn(value);
+  let type: string;
 
-  switch (typeof value) {
+  switch (column.type) {
     case "string":
-      return "string";
     case "number":
-      return "number";
     case "boolean":
-      return "boolean";
+      type = column.type;
+      break;
+    case "date":
+      type = "Date";
+      break;
+    case "array":
+      type = column.items ? `${getTypeFromSchema(column.items)}[]` : "any[]";
+      break;
+    case "enum":
+      type =
+        column.enum && column.enum.length > 0
+          ? column.enum.map(item => (typeof item === "number" ? item : `'${item}'`)).join(" | ")
+          : "string";
+      break;
+    case "relation":
+      type = isRelationColumn(column) && isToManyRelation(column) ? "string[]" : "string";
+      break;
+    case "object":
+      type = "Record<string, any>";
+      break;
     default:
-      return "any";
+      type = "any";
   }
+
+  return column.nullable ? `${type} | null` : type;
+}
+
+/**
+ * Checks if a relation column holds several references
+ * @param column - Relation column
+ * @returns True for one-to-many and many-to-many relations
+ */
+function isToManyRelation(column: RelationColumn): boolean {
+  return column.relation === "one-to-many" || column.relation === "many-to-many";
+}
+
+/**
+ * Checks if a schema column value is a relation column
+ * @param value - Schema column value
+ * @returns True if the column references another table
+ */
+export function isRelationColumn(value: unknown): value is RelationColumn {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (value as RelationColumn).type === "relation" &&
+    typeof (value as RelationColumn).target === "string"
+  );
 }
 
 /**
@@ -270,7 +298,8 @@ export function generateServiceFromTemplate(
     .filter(([key]) => !["id", "createdAt", "updatedAt"].includes(key))
     .map(([key, value]) => {
       const type = getTypeFromSchema(value);
-      return `  ${key}: ${type};`;
+      const optional = normalizeColumn(value).required === false ? "?" : "";
+      return `  ${key}${optional}: ${type};`;
     })
     .join("\n");
 
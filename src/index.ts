@@ -11,6 +11,12 @@ import { createService } from "./commands/create-service.js";
 import { config } from "./commands/config.js";
 import { login } from "./commands/login.js";
 import { scan } from "./commands/scan.js";
+import { importDefinitions } from "./commands/import.js";
+import { explain } from "./commands/explain.js";
+import { diff } from "./commands/diff.js";
+import { check } from "./commands/check.js";
+import { history, showRevision } from "./commands/history.js";
+import { rollback } from "./commands/rollback.js";
 import { push } from "./commands/push.js";
 import { pull } from "./commands/pull.js";
 import { ai } from "./commands/ai.js";
@@ -33,13 +39,76 @@ program
   .description("Scan project and generate schema")
   .option("--ai", "Use AI to generate schema (recommended)")
   .option("--timeout <ms>", "Timeout for AI operations in milliseconds", parseInt)
+  .option("--no-cache", "Re-analyse every file instead of reusing the scan cache")
+  .option("--watch", "Keep running and update the schema whenever a file is saved")
+  .option("--regenerate-services", "In watch mode, regenerate the services of changed tables")
+  .option("--out <file>", "Schema file to write (default: <path>/hosby.schema.json)")
+  .option("--client-out <file>", "Hosby client file to write (default: src/api/hosbyClient.ts)")
+  .option("--no-client", "Do not generate the Hosby client nor install hosby-ts")
+  .option("--services <tables>", "Services to generate: all, none or a comma-separated list")
+  .option("-y, --yes", "Do not ask questions; generate services from the template")
+  .option("--merge", "Merge into the existing schema file, keeping manual edits and metadata")
   .action((path = ".", options) => scan(path, options));
+program
+  .command("import <source>")
+  .description("Import ORM definitions or API contracts into the schema")
+  .option(
+    "--format <format>",
+    "Definition format (prisma, typeorm, drizzle, mongoose, openapi, graphql)"
+  )
+  .action((source, options) => importDefinitions(source, options));
+program
+  .command("explain <table>")
+  .description("Show the source file, declaration and line a table and its columns come from")
+  .option("--schema <file>", "Schema file (default: hosby.schema.json)")
+  .action((table, options) => explain(table, options));
+program
+  .command("diff [from] [to]")
+  .description(
+    "Compare two schemas: local, last-pull, last-push, server, a schema file or a git revision (default: last-push local)"
+  )
+  .option("--json", "Print the changes as JSON")
+  .option("--schema <file>", "Local schema file (default: hosby.schema.json)")
+  .action((from, to, options) => diff(from, to, options));
+program
+  .command("check [from] [to]")
+  .description(
+    "Classify the changes between two schemas as safe, risky or breaking (default: server local)"
+  )
+  .option(
+    "--fail-on <severity>",
+    "Exit with an error on changes this severe: safe, risky or breaking",
+    "breaking"
+  )
+  .option("--json", "Print the classified changes as JSON")
+  .option("--schema <file>", "Local schema file (default: hosby.schema.json)")
+  .action((from, to, options) => check(from, to, options));
 program
   .command("push")
   .description("Push local schema to Hosby server")
   .option("-f, --force", "Force push even if schema is unchanged")
-  .action(options => push(options.force));
+  .option("--dry-run", "Show the tables and columns the push would change without pushing")
+  .option("--allow-destructive", "Push changes that drop tables or columns or change their types")
+  .option("--fail-on <severity>", "Refuse to push changes this severe: safe, risky or breaking")
+  .action(options => push(options.force, options));
 program.command("pull").description("Pull latest schema from Hosby server").action(pull);
+const historyCommand = program
+  .command("history")
+  .description("List the pushed revisions of the project schema")
+  .option("-n, --limit <count>", "Maximum number of revisions to list", parseInt)
+  .option("--json", "Print the revisions as JSON")
+  .action(options => history(options));
+historyCommand
+  .command("show <revision>")
+  .description("Print the schema of a pushed revision")
+  .action(revision => showRevision(revision));
+program
+  .command("rollback <revision>")
+  .description("Restore the schema of a pushed revision into the local schema file")
+  .option("--push", "Push the restored schema as a new version")
+  .option("-y, --yes", "Do not ask for confirmation")
+  .option("--allow-destructive", "With --push, push changes that drop tables or columns")
+  .action((revision, options) => rollback(revision, options));
 program.command("ai").description("Configure/Analyse project via AI").action(ai);
 program
   .command("create-service [tableName]")
@@ -49,7 +118,7 @@ program
   });
 program
   .command("config [type]")
-  .description("Configure Hosby CLI (type: project, ai)")
+  .description("Configure Hosby CLI (type: project, ai, naming)")
   .action(config);
 
 program
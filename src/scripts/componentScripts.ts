@@ -0,0 +1,143 @@
+/**
+ * @file Component script extraction
+ * @description Turns the script blocks of Vue, Svelte and Astro components into virtual TypeScript
+ * source files, so the static scanner reads the models they declare
+ */
+import fs from "fs";
+import path from "path";
+import { Project, SourceFile } from "ts-morph";
+import logger from "../helpers/logger.js";
+
+/**
+ * Extensions of the single-file components whose script blocks are extracted
+ */
+export const COMPONENT_EXTENSIONS = [".vue", ".svelte", ".astro"];
+
+/**
+ * Script code extracted from a component
+ * @property {string} code - Component content with everything outside its script blocks blanked
+ * @property {string} extension - Extension of the virtual source file, `.ts` or `.tsx`
+ */
+export type ComponentScript = {
+  code: string;
+  extension: ".ts" | ".tsx";
+};
+
+/**
+ * `<script ...>...</script>` blocks, with their attributes and content
+ */
+const SCRIPT_BLOCK = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+
+/**
+ * Astro frontmatter, fenced by `---` lines at the start of the component
+ */
+const ASTRO_FRONTMATTER = /^(\s*---[^\S\r\n]*\r?\n)([\s\S]*?)\r?\n[^\S\r\n]*---/;
+
+/**
+ * Script languages the TypeScript compiler reads
+ */
+const SCRIPT_LANGUAGES = ["ts", "tsx", "js", "jsx"];
+
+/**
+ * Determines if a file is a Vue, Svelte or Astro component
+ * @param {string} filePath - File path
+ * @returns {boolean} True for `.vue`, `.svelte` and `.astro` files
+ */
+export function isComponentFile(filePath: string): boolean {
+  return COMPONENT_EXTENSIONS.includes(path.extname(filePath));
+}
+
+/**
+ * Adds the script blocks of components to a project as virtual source files
+ * @description The virtual file of `UserCard.vue` is `UserCard.vue.ts`, next to the component so
+ * its relative and aliased imports resolve; components without script blocks are skipped
+ * @param {Project} project - Scan project
+ * @param {string[]} componentPaths - Paths of the Vue, Svelte and Astro components
+ * @returns {SourceFile[]} Virtual source files
+ */
+export function addComponentSourceFiles(project: Project, componentPaths: string[]): SourceFile[] {
+  return componentPaths.flatMap(componentPath => {
+    const script = extractComponentScript(componentPath, fs.readFileSync(componentPath, "utf-8"));
+    if (!script) return [];
+
+    logger.debug(`Extracted script blocks of ${componentPath}`);
+    return [
+      project.createSourceFile(`${path.resolve(componentPath)}${script.extension}`, script.code, {
+        overwrite: true,
+      }),
+    ];
+  });
+}
+
+/**
+ * Extracts the script code of a Vue, Svelte or Astro component
+ * @description Vue `<script>` and `<script setup>` blocks, Svelte instance and module scripts and
+ * the Astro frontmatter are kept in place while the rest of the component is blanked, so line and
+ * column positions match the component. Scripts loaded with `src` and non-JavaScript types such as
+ * `application/ld+json` are skipped
+ * @param {string} filePath - Component path, used to recognize Astro components
+ * @param {string} content - Component content
+ * @returns {ComponentScript | null} Script code, or null if the component has no script block
+ */
+export function extractComponentScript(filePath: string, content: string): ComponentScript | null {
+  const ranges: Array<[number, number]> = [];
+  let extension: ComponentScript["extension"] = ".ts";
+
+  if (path.extname(filePath) === ".astro") {
+    const frontmatter = content.match(ASTRO_FRONTMATTER);
+    if (frontmatter) {
+      const start = frontmatter[1].length;
+      ranges.push([start, start + frontmatter[2].length]);
+    }
+  }
+
+  for (const match of content.matchAll(SCRIPT_BLOCK)) {
+    const [block, attributes, code] = match;
+    const start = (match.index || 0) + block.indexOf(">") + 1;
+    if (ranges.some(([, end]) => start < end)) continue;
+
+    if (/\bsrc\s*=/i.test(attributes)) continue;
+
+    const type = getAttribute(attributes, "type");
+    if (type && !/^(module|text\/(javascript|typescript)|application\/javascript)$/i.test(type)) {
+      continue;
+    }
+
+    const lang = getAttribute(attributes, "lang") || "ts";
+    if (!SCRIPT_LANGUAGES.includes(lang)) continue;
+    if (lang.endsWith("x")) extension = ".tsx";
+
+    ranges.push([start, start + code.length]);
+  }
+
+  if (ranges.length === 0) return null;
+
+  let code = "";
+  let last = 0;
+  for (const [start, end] of ranges) {
+    code += blank(content.slice(last, start)) + content.slice(start, end);
+    last = end;
+  }
+  code += blank(content.slice(last));
+
+  return { code, extension };
+}
+
+/**
+ * Reads the value of an HTML attribute
+ * @param {string} attributes - Attributes of a tag
+ * @param {string} name - Attribute name
+ * @returns {string | undefined} Attribute value, or undefined if the attribute is absent
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']?([^"'\\s>]*)`, "i"))?.[1];
+}
+
+/**
+ * Replaces text with spaces, keeping its line breaks
+ * @param {string} text - Text to blank
+ * @returns {string} Blanked text of the same length
+ */
+function blank(text: string): string {
+  return text.replace(/[^\r\n]/g, " ");
+}
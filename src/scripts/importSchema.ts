@@ -0,0 +1,160 @@
+import fs from "fs";
+import path from "path";
+import { globSync } from "glob";
+import { SourceFile } from "ts-morph";
+import { ignorePatterns } from "../helpers/ignoreFiles.js";
+import { DEFAULT_TABLE_NAMING } from "../helpers/naming.js";
+import { loadScanProject } from "./tsProject.js";
+import { parsePrismaSchema } from "./importers/prisma.js";
+import { readTypeOrmEntities } from "./importers/typeorm.js";
+import { readDrizzleTables } from "./importers/drizzle.js";
+import { readMongooseModels } from "./importers/mongoose.js";
+import { OPENAPI_EXTENSIONS, readOpenApiDocuments } from "./importers/openapi.js";
+import { GRAPHQL_EXTENSIONS, readGraphQLSchemas } from "./importers/graphql.js";
+import { buildImportedSchema } from "./importers/common.js";
+import { HosbySchema, ImportedModel, ImportFormat, ImportSchemaOptions } from "../types/types.js";
+
+/**
+ * Supported import formats with their descriptions
+ */
+export const IMPORT_FORMATS: Record<ImportFormat, string> = {
+  prisma: "Prisma schema (schema.prisma)",
+  typeorm: "TypeORM entities (@Entity classes)",
+  drizzle: "Drizzle tables (pgTable, mysqlTable, sqliteTable)",
+  mongoose: "Mongoose schemas (new Schema)",
+  openapi: "OpenAPI documents (openapi.yaml, swagger.json)",
+  graphql: "GraphQL SDL (.graphql, .gql)",
+};
+
+/**
+ * Module specifiers identifying the code-based formats, checked in order
+ */
+const FORMAT_MODULES: Array<[ImportFormat, RegExp]> = [
+  ["typeorm", /["']typeorm["']/],
+  ["drizzle", /["']drizzle-orm(\/[\w-]+)*["']/],
+  ["mongoose", /["']mongoose["']/],
+];
+
+/**
+ * Imports ORM/ODM definitions as a Hosby schema
+ * @description Reads a Prisma schema, TypeORM entities, Drizzle tables, Mongoose schemas, OpenAPI
+ * component schemas or GraphQL object types with their types, relations, indexes and defaults. Tables keep the name declared by the definitions
+ * (`@@map`, `@Entity("...")`, the Drizzle table name or the Mongoose collection) and are otherwise
+ * named with the naming strategy. Imported tables are listed in `metadata.annotatedTables` so the
+ * UI component heuristics of `filterSchema` keep them, and indexes spanning several columns are
+ * stored in `metadata.indexes`
+ * @param {string} source - File or directory holding the definitions
+ * @param {ImportSchemaOptions} [options] - Import options such as the format
+ * @returns {Promise<HosbySchema>} Imported schema
+ * @throws {Error} If the source does not exist or its format cannot be detected
+ */
+export async function importSchema(
+  source: string,
+  options: ImportSchemaOptions = {}
+): Promise<HosbySchema> {
+  if (!fs.existsSync(source)) {
+    throw new Error(`Import source not found: ${source}`);
+  }
+
+  const format = options.format || detectImportFormat(source);
+  if (!format) {
+    throw new Error(
+      `Could not detect the format of ${source}. Use --format with one of: ${Object.keys(IMPORT_FORMATS).join(", ")}`
+    );
+  }
+
+  const models = readImportedModels(source, format);
+  return buildImportedSchema(models, format, options.naming || DEFAULT_TABLE_NAMING);
+}
+
+/**
+ * Detects the format of ORM/ODM definitions
+ * @description Prisma schema files take precedence; code-based formats are detected from the
+ * modules the source files import, the most imported one winning, before OpenAPI documents and
+ * GraphQL SDL files
+ * @param {string} source - File or directory holding the definitions
+ * @returns {ImportFormat | null} Detected format, or null if none matches
+ */
+export function detectImportFormat(source: string): ImportFormat | null {
+  const files = getSourcePaths(source, "{prisma,ts,tsx,js,mjs,cjs,mts,cts}");
+  if (files.some(file => file.endsWith(".prisma"))) return "prisma";
+
+  const counts = new Map<ImportFormat, number>();
+  files.forEach(file => {
+    const content = fs.readFileSync(file, "utf-8");
+    const match = FORMAT_MODULES.find(([, pattern]) => pattern.test(content));
+    if (match) counts.set(match[0], (counts.get(match[0]) || 0) + 1);
+  });
+
+  const detected = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  if (detected) return detected;
+
+  if (readOpenApiDocuments(getSourcePaths(source, OPENAPI_EXTENSIONS)).length > 0) return "openapi";
+  if (getSourcePaths(source, GRAPHQL_EXTENSIONS).some(file => /\.(graphqls?|gql)$/.test(file))) {
+    return "graphql";
+  }
+
+  return null;
+}
+
+/**
+ * Lists the files of a source with the given extensions
+ * @param {string} source - File or directory
+ * @param {string} extensions - Brace pattern of extensions, e.g. `{ts,js}`
+ * @returns {string[]} Matching files
+ */
+function getSourcePaths(source: string, extensions: string): string[] {
+  if (fs.statSync(source).isFile()) return [source];
+
+  return globSync(`${source}/**/*.${extensions}`, { ignore: ignorePatterns });
+}
+
+/**
+ * Reads the models of a source with the importer of its format
+ * @param {string} source - File or directory holding the definitions
+ * @param {ImportFormat} format - Format of the definitions
+ * @returns {ImportedModel[]} Imported models
+ */
+function readImportedModels(source: string, format: ImportFormat): ImportedModel[] {
+  if (format === "prisma") {
+    const content = getSourcePaths(source, "prisma")
+      .map(file => fs.readFileSync(file, "utf-8"))
+      .join("\n");
+    return parsePrismaSchema(content);
+  }
+
+  if (format === "openapi") {
+    return readOpenApiDocuments(getSourcePaths(source, OPENAPI_EXTENSIONS));
+  }
+
+  if (format === "graphql") {
+    return readGraphQLSchemas(getSourcePaths(source, GRAPHQL_EXTENSIONS));
+  }
+
+  const files = getSourceFiles(source);
+
+  switch (format) {
+    case "typeorm":
+      return readTypeOrmEntities(files);
+    case "drizzle":
+      return readDrizzleTables(files);
+    case "mongoose":
+      return readMongooseModels(files);
+  }
+}
+
+/**
+ * Loads the TypeScript and JavaScript files of a source with the scan project setup
+ * @param {string} source - File or directory
+ * @returns {SourceFile[]} Source files
+ */
+function getSourceFiles(source: string): SourceFile[] {
+  if (!fs.statSync(source).isFile()) {
+    return loadScanProject(source).files;
+  }
+
+  const filePath = path.resolve(source);
+  const { project } = loadScanProject(path.dirname(source));
+  const file = project.getSourceFile(filePath) || project.addSourceFileAtPath(filePath);
+  return [file];
+}
@@ -0,0 +1,138 @@
+/**
+ * @file Helpers shared by the ORM/ODM importers
+ */
+import { toTableName } from "../../helpers/naming.js";
+import { getRelationColumn, ModelReference } from "../../helpers/relations.js";
+import {
+  ColumnDefinition,
+  HosbySchema,
+  ImportedModel,
+  ImportFormat,
+  SchemaIndex,
+  TableNamingStrategy,
+} from "../../types/types.js";
+
+/**
+ * Hosby column types of database and ORM type names, checked in order
+ */
+const DATABASE_TYPES: Array<[RegExp, string]> = [
+  [/^bool(ean)?$/i, "boolean"],
+  [/^(tiny|small|medium|big)?(int\d*|integer|serial|smallserial|bigserial)$/i, "number"],
+  [/^(float\d*|double|double ?precision|decimal(128)?|numeric|real|number|money)$/i, "number"],
+  [/^(date|time|timestamp)/i, "date"],
+  [/^(json|jsonb|simple-json|object|mixed|map)$/i, "object"],
+  [/^(simple-array|array)$/i, "array"],
+  [/^(simple-)?enum$/i, "enum"],
+  [/(char|text|uuid|string|blob|binary|bytes?|buffer|inet|cidr|macaddr|objectid)/i, "string"],
+];
+
+/**
+ * Maps a database or ORM type name such as `varchar`, `Int` or `timestamptz` to a column type
+ * @param {string} typeName - Type name
+ * @returns {string | undefined} Hosby column type, or undefined if the type is unknown
+ */
+export function mapDatabaseType(typeName: string): string | undefined {
+  return DATABASE_TYPES.find(([pattern]) => pattern.test(typeName))?.[1];
+}
+
+/**
+ * Normalizes a database default expression
+ * @description Current-time defaults such as `now()` or `CURRENT_TIMESTAMP` become `"now"`, like
+ * `@hosby.default now`; other generated defaults keep their expression, e.g. `"uuid()"`
+ * @param {string} expression - Default expression
+ * @returns {string} Normalized default
+ */
+export function normalizeDefaultExpression(expression: string): string {
+  return /^(now\(\)|current_timestamp(\(\))?|date\.now)$/i.test(expression.trim())
+    ? "now"
+    : expression.trim();
+}
+
+/**
+ * Records an index on its columns when it covers a single column, or returns it otherwise
+ * @param {Record<string, ColumnDefinition>} columns - Columns of the model
+ * @param {SchemaIndex} index - Index to record
+ * @returns {SchemaIndex | null} The index if it spans several columns, null if it was recorded on
+ * its column
+ */
+export function applySingleColumnIndex(
+  columns: Record<string, ColumnDefinition>,
+  index: SchemaIndex
+): SchemaIndex | null {
+  if (index.columns.length !== 1 || !columns[index.columns[0]]) return index;
+
+  columns[index.columns[0]] = {
+    ...columns[index.columns[0]],
+    ...(index.unique ? { unique: true } : { index: true }),
+  };
+  return null;
+}
+
+/**
+ * Builds a Hosby schema from imported models
+ * @param {ImportedModel[]} models - Imported models
+ * @param {ImportFormat} format - Format the models were read from
+ * @param {TableNamingStrategy} naming - Strategy naming the tables without an explicit name
+ * @returns {HosbySchema} Schema with relation columns and index metadata
+ */
+export function buildImportedSchema(
+  models: ImportedModel[],
+  format: ImportFormat,
+  naming: TableNamingStrategy
+): HosbySchema {
+  const schema: HosbySchema = { tables: {} };
+  const tableNames = new Map(
+    models.map(model => [model.name, model.tableName || toTableName(model.name, naming)])
+  );
+
+  const referencesByTable = new Map<string, ModelReference[]>();
+  models.forEach(model => {
+    referencesByTable.set(
+      tableNames.get(model.name) as string,
+      model.references
+        .filter(reference => tableNames.has(reference.target))
+        .map(reference => ({
+          property: reference.property,
+          target: tableNames.get(reference.target) as string,
+          many: reference.many,
+          relation: reference.relation,
+        }))
+    );
+  });
+
+  const indexes: Record<string, SchemaIndex[]> = {};
+
+  models.forEach(model => {
+    const tableName = tableNames.get(model.name) as string;
+    const table = { ...model.columns };
+    const references = referencesByTable.get(tableName) || [];
+
+    model.references.forEach(imported => {
+      const reference = references.find(ref => ref.property === imported.property);
+      table[imported.property] = reference
+        ? {
+            ...getRelationColumn(tableName, reference, referencesByTable),
+            required: imported.required,
+          }
+        : // Reference to a model outside the source, kept as its identifier
+          {
+            type: imported.many ? "array" : "string",
+            required: imported.required,
+            ...(imported.many && { items: "string" }),
+          };
+    });
+
+    schema.tables[tableName] = table;
+    if (model.indexes.length > 0) {
+      indexes[tableName] = model.indexes;
+    }
+  });
+
+  schema.metadata = {
+    importedFrom: format,
+    annotatedTables: Object.keys(schema.tables),
+    ...(Object.keys(indexes).length > 0 && { indexes }),
+  };
+
+  return schema;
+}
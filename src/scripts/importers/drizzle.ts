@@ -0,0 +1,353 @@
+/**
+ * @file Drizzle table importer
+ * @description Reads `pgTable`, `mysqlTable` and `sqliteTable` definitions, their enums, index
+ * callbacks and `relations()` declarations
+ */
+import { CallExpression, Node, SourceFile } from "ts-morph";
+import { ColumnDefinition, ImportedModel, SchemaIndex } from "../../types/types.js";
+import {
+  getEnumArgumentValues,
+  getLiteralValue,
+  getNumberValue,
+  getPropertyName,
+  unwrapExpression,
+} from "../../helpers/astValues.js";
+import { applySingleColumnIndex, mapDatabaseType, normalizeDefaultExpression } from "./common.js";
+
+/**
+ * Functions declaring a table
+ */
+const TABLE_FUNCTIONS = ["pgTable", "mysqlTable", "sqliteTable", "singlestoreTable", "table"];
+
+/**
+ * Functions declaring an enum type
+ */
+const ENUM_FUNCTIONS = ["pgEnum", "mysqlEnum"];
+
+/**
+ * Functions declaring an index or a composite key in the extra configuration of a table
+ */
+const INDEX_FUNCTIONS = ["index", "uniqueIndex", "unique", "primaryKey"];
+
+/**
+ * A call of a column builder chain, e.g. `varchar("email", { length: 80 })` or `.notNull()`
+ */
+type BuilderCall = {
+  name: string;
+  args: Node[];
+};
+
+/**
+ * Reads the Drizzle tables of a set of files
+ * @description Columns are nullable unless `.notNull()` or `.primaryKey()`, and relations come
+ * from the `relations()` declarations, named after the table variables
+ * @param {SourceFile[]} files - Source files declaring the tables
+ * @returns {ImportedModel[]} Tables as imported models
+ */
+export function readDrizzleTables(files: SourceFile[]): ImportedModel[] {
+  const enums = new Map<string, Array<string | number>>();
+  const models = new Map<string, ImportedModel>();
+  const relationCalls: CallExpression[] = [];
+
+  const declarations = files.flatMap(file =>
+    file.getVariableStatements().flatMap(statement => statement.getDeclarations())
+  );
+
+  declarations.forEach(declaration => {
+    const initializer = declaration.getInitializer();
+    const call = initializer && unwrapExpression(initializer);
+    if (!call || !Node.isCallExpression(call)) return;
+
+    const name = getCalleeName(call);
+    const [first, second] = call.getArguments();
+
+    if (ENUM_FUNCTIONS.includes(name) && second) {
+      const values = getEnumArgumentValues(second);
+      if (values) enums.set(declaration.getName(), values);
+    } else if (name === "relations") {
+      relationCalls.push(call);
+    } else if (TABLE_FUNCTIONS.includes(name) && first && second) {
+      const tableName = getLiteralValue(first);
+      models.set(declaration.getName(), {
+        name: declaration.getName(),
+        ...(typeof tableName === "string" && { tableName }),
+        columns: {},
+        references: [],
+        indexes: [],
+      });
+    }
+  });
+
+  declarations.forEach(declaration => {
+    const model = models.get(declaration.getName());
+    const call = model && unwrapExpression(declaration.getInitializerOrThrow());
+    if (!model || !call || !Node.isCallExpression(call)) return;
+
+    const [, columnsArgument, extraArgument] = call.getArguments();
+    const columns = getReturnedExpression(columnsArgument);
+
+    if (Node.isObjectLiteralExpression(columns)) {
+      columns.getProperties().forEach(property => {
+        if (Node.isPropertyAssignment(property)) {
+          model.columns[getPropertyName(property)] = getColumn(
+            property.getInitializerOrThrow(),
+            enums
+          );
+        }
+      });
+    }
+
+    if (extraArgument) {
+      getIndexes(extraArgument).forEach(index => {
+        if (applySingleColumnIndex(model.columns, index)) {
+          model.indexes.push(index);
+        }
+      });
+    }
+  });
+
+  relationCalls.forEach(call => readRelations(call, models));
+
+  return [...models.values()];
+}
+
+/**
+ * Reads the name of a called function, e.g. `pgTable` for `pgTable(...)` or `table` for
+ * `schema.table(...)`
+ * @param {CallExpression} call - Call expression
+ * @returns {string} Function name
+ */
+function getCalleeName(call: CallExpression): string {
+  const callee = call.getExpression();
+  if (Node.isIdentifier(callee)) return callee.getText();
+  if (Node.isPropertyAccessExpression(callee)) return callee.getName();
+  return "";
+}
+
+/**
+ * Reads the expression returned by a callback such as `(t) => ({ ... })`, or the expression itself
+ * @param {Node | undefined} node - Callback or expression
+ * @returns {Node | undefined} Returned expression
+ */
+function getReturnedExpression(node: Node | undefined): Node | undefined {
+  if (!node) return undefined;
+
+  const expression = unwrapExpression(node);
+  if (!Node.isArrowFunction(expression) && !Node.isFunctionExpression(expression)) {
+    return expression;
+  }
+
+  const body = expression.getBody();
+  if (Node.isBlock(body)) {
+    const returned = body.getStatements().find(statement => Node.isReturnStatement(statement));
+    const value =
+      returned && Node.isReturnStatement(returned) ? returned.getExpression() : undefined;
+    return value && unwrapExpression(value);
+  }
+
+  return unwrapExpression(body);
+}
+
+/**
+ * Flattens a column builder expression such as `text("name").notNull().default("x")`
+ * @param {Node} expression - Column expression
+ * @returns {BuilderCall[]} Builder call followed by the chained calls
+ */
+function getBuilderCalls(expression: Node): BuilderCall[] {
+  const node = unwrapExpression(expression);
+  if (!Node.isCallExpression(node)) return [];
+
+  const callee = node.getExpression();
+  const call = { name: getCalleeName(node), args: node.getArguments() };
+
+  if (Node.isPropertyAccessExpression(callee) && Node.isCallExpression(callee.getExpression())) {
+    return [...getBuilderCalls(callee.getExpression()), call];
+  }
+
+  return [call];
+}
+
+/**
+ * Builds the column descriptor of a column builder expression
+ * @param {Node} expression - Column expression
+ * @param {Map<string, Array<string | number>>} enums - Enum values indexed by enum variable
+ * @returns {ColumnDefinition} Column descriptor
+ */
+function getColumn(expression: Node, enums: Map<string, Array<string | number>>): ColumnDefinition {
+  const [builder, ...methods] = getBuilderCalls(expression);
+  if (!builder) return { type: "string", required: false, nullable: true };
+
+  const options = builder.args
+    .map(arg => unwrapExpression(arg))
+    .find(arg => Node.isObjectLiteralExpression(arg));
+  const option = (name: string): Node | undefined => {
+    const property =
+      options && Node.isObjectLiteralExpression(options) ? options.getProperty(name) : undefined;
+    return property && Node.isPropertyAssignment(property)
+      ? property.getInitializerOrThrow()
+      : undefined;
+  };
+
+  let column: ColumnDefinition = {
+    type: mapDatabaseType(builder.name) || "string",
+    required: false,
+    nullable: true,
+  };
+
+  const enumOption = option("enum");
+  const enumValues =
+    enums.get(builder.name) ||
+    (ENUM_FUNCTIONS.includes(builder.name) && builder.args[1]
+      ? getEnumArgumentValues(builder.args[1])
+      : null) ||
+    (enumOption ? getEnumArgumentValues(enumOption) : null);
+  if (enumValues) {
+    column = { ...column, type: "enum", enum: enumValues };
+  }
+
+  const modeOption = option("mode");
+  const mode = modeOption && getLiteralValue(modeOption);
+  if (mode === "boolean") column.type = "boolean";
+  if (mode === "json") column.type = "object";
+  if (mode === "timestamp" || mode === "timestamp_ms" || mode === "date") column.type = "date";
+
+  const length = getNumberValue(option("length"));
+  if (length !== undefined) column.maxLength = length;
+
+  methods.forEach(method => {
+    switch (method.name) {
+      case "notNull":
+        column.required = true;
+        delete column.nullable;
+        break;
+      case "primaryKey":
+        column = { ...column, primary: true, required: true };
+        delete column.nullable;
+        break;
+      case "unique":
+        column.unique = true;
+        break;
+      case "default": {
+        const value = method.args[0] && getLiteralValue(method.args[0]);
+        if (value !== undefined) column.default = value;
+        break;
+      }
+      case "defaultNow":
+        column.default = normalizeDefaultExpression("now()");
+        break;
+      case "defaultRandom":
+        column.default = "uuid()";
+        break;
+      case "array": {
+        const { type, enum: values } = column;
+        column = { ...column, type: "array", items: type };
+        if (values) column.enum = values;
+        break;
+      }
+    }
+  });
+
+  return column;
+}
+
+/**
+ * Reads the indexes returned by the extra configuration callback of a table
+ * @example
+ * // (t) => [uniqueIndex("email_idx").on(t.email), index("name_idx").on(t.first, t.last)]
+ * @param {Node} argument - Third argument of the table function
+ * @returns {SchemaIndex[]} Indexes
+ */
+function getIndexes(argument: Node): SchemaIndex[] {
+  const returned = getReturnedExpression(argument);
+  let entries: Node[] = [];
+  if (Node.isArrayLiteralExpression(returned)) {
+    entries = returned.getElements();
+  } else if (Node.isObjectLiteralExpression(returned)) {
+    entries = returned
+      .getProperties()
+      .flatMap(property =>
+        Node.isPropertyAssignment(property) ? [property.getInitializerOrThrow()] : []
+      );
+  }
+
+  return entries
+    .map(entry => {
+      const [builder, ...methods] = getBuilderCalls(entry);
+      if (!builder || !INDEX_FUNCTIONS.includes(builder.name)) return null;
+
+      const columns = getColumnNames(
+        builder.name === "primaryKey"
+          ? getArrayOption(builder.args[0], "columns")
+          : methods.find(method => method.name === "on")?.args || []
+      );
+      if (columns.length === 0) return null;
+
+      const index: SchemaIndex = { columns };
+      if (builder.name !== "index") index.unique = true;
+      return index;
+    })
+    .filter((index): index is SchemaIndex => index !== null);
+}
+
+/**
+ * Reads the elements of an array option, e.g. `columns` in `primaryKey({ columns: [t.a, t.b] })`
+ * @param {Node | undefined} argument - Options object
+ * @param {string} name - Option name
+ * @returns {Node[]} Array elements
+ */
+function getArrayOption(argument: Node | undefined, name: string): Node[] {
+  const options = argument && unwrapExpression(argument);
+  if (!options || !Node.isObjectLiteralExpression(options)) return [];
+
+  const property = options.getProperty(name);
+  const list =
+    property && Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+  return list && Node.isArrayLiteralExpression(list) ? list.getElements() : [];
+}
+
+/**
+ * Reads the column names of column expressions such as `t.email` or `posts.authorId`
+ * @param {Node[]} nodes - Column expressions
+ * @returns {string[]} Column names
+ */
+function getColumnNames(nodes: Node[]): string[] {
+  return nodes
+    .map(node => unwrapExpression(node))
+    .filter(node => Node.isPropertyAccessExpression(node))
+    .map(node => (Node.isPropertyAccessExpression(node) ? node.getName() : ""));
+}
+
+/**
+ * Adds the references declared by a `relations(table, ({ one, many }) => ({ ... }))` call
+ * @description `one(...)` references are required when their `fields` columns are not null
+ * @param {CallExpression} call - `relations()` call
+ * @param {Map<string, ImportedModel>} models - Models indexed by table variable
+ */
+function readRelations(call: CallExpression, models: Map<string, ImportedModel>): void {
+  const [tableArgument, callback] = call.getArguments();
+  const model = tableArgument && models.get(unwrapExpression(tableArgument).getText());
+  const fields = getReturnedExpression(callback);
+  if (!model || !fields || !Node.isObjectLiteralExpression(fields)) return;
+
+  fields.getProperties().forEach(property => {
+    if (!Node.isPropertyAssignment(property)) return;
+
+    const [builder] = getBuilderCalls(property.getInitializerOrThrow());
+    const target = builder?.args[0] && unwrapExpression(builder.args[0]).getText();
+    if (!builder || !target || !models.has(target)) return;
+
+    const many = builder.name === "many";
+    const fieldColumns = getColumnNames(getArrayOption(builder.args[1], "fields")).map(
+      column => model.columns[column]
+    );
+
+    model.references.push({
+      property: getPropertyName(property),
+      target,
+      many,
+      required:
+        many ||
+        (fieldColumns.length > 0 && fieldColumns.every(column => column?.required === true)),
+    });
+  });
+}
@@ -0,0 +1,240 @@
+/**
+ * @file GraphQL SDL importer
+ * @description Reads the object types and enums of GraphQL schema definition files
+ */
+import fs from "fs";
+import {
+  DefinitionNode,
+  FieldDefinitionNode,
+  Kind,
+  ObjectTypeDefinitionNode,
+  ObjectTypeExtensionNode,
+  parse,
+  TypeNode,
+} from "graphql";
+import logger from "../../helpers/logger.js";
+import { ColumnDefinition, ImportedModel } from "../../types/types.js";
+import { mapDatabaseType } from "./common.js";
+
+/**
+ * Extensions of GraphQL SDL files, as a brace pattern
+ */
+export const GRAPHQL_EXTENSIONS = "{graphql,gql,graphqls}";
+
+/**
+ * Column types of the built-in and common custom scalars
+ */
+const SCALAR_TYPES: Record<string, string> = {
+  ID: "string",
+  String: "string",
+  Int: "number",
+  Float: "number",
+  Boolean: "boolean",
+  DateTime: "date",
+  Date: "date",
+  Time: "date",
+  Timestamp: "date",
+  JSON: "object",
+  JSONObject: "object",
+};
+
+/**
+ * Column formats of common custom scalars
+ */
+const SCALAR_FORMATS: Record<string, string> = {
+  EmailAddress: "email",
+  Email: "email",
+  URL: "url",
+  URI: "url",
+  UUID: "uuid",
+};
+
+/**
+ * Object types holding pagination rather than data (Relay connections, edges and page info)
+ */
+const PAGINATION_TYPE = /(Connection|Edge|PageInfo|Payload)$/;
+
+/**
+ * Reads the models of GraphQL SDL files
+ * @description Files are parsed one by one, so an invalid file is skipped with a warning, and
+ * their definitions are read together so types may reference types of other files
+ * @param {string[]} files - `.graphql`, `.gql` or `.graphqls` files
+ * @returns {ImportedModel[]} Models of the schema
+ */
+export function readGraphQLSchemas(files: string[]): ImportedModel[] {
+  const definitionFiles = new Map<DefinitionNode, string>();
+  const definitions = files.flatMap(file => {
+    try {
+      const parsed = [...parse(fs.readFileSync(file, "utf-8")).definitions];
+      parsed.forEach(definition => definitionFiles.set(definition, file));
+      return parsed;
+    } catch (error) {
+      logger.warn(`Skipping invalid GraphQL schema ${file}: ${(error as Error).message}`);
+      return [];
+    }
+  });
+
+  return parseGraphQLDefinitions(definitions).map(model => {
+    const definition = definitions.find(
+      node => node.kind === Kind.OBJECT_TYPE_DEFINITION && node.name.value === model.name
+    );
+    const file = definition && definitionFiles.get(definition);
+    return file
+      ? {
+          ...model,
+          location: { file, line: definition.loc?.startToken.line, declaration: model.name },
+        }
+      : model;
+  });
+}
+
+/**
+ * Reads the models of GraphQL definitions
+ * @description Object types become models, except the root operation types and pagination types;
+ * extensions add their fields. Non-null fields are required, other fields are optional and
+ * nullable, fields typed with another object type become references (Relay connections resolve
+ * to their node type) and enums become enum columns. Types whose description holds
+ * `@hosby.ignore` are skipped and `@hosby.table <name>` renames their table
+ * @param {DefinitionNode[]} definitions - Parsed definitions
+ * @returns {ImportedModel[]} Models of the definitions
+ */
+function parseGraphQLDefinitions(definitions: DefinitionNode[]): ImportedModel[] {
+  const rootTypes = new Set(["Query", "Mutation", "Subscription"]);
+  const enums = new Map<string, string[]>();
+  const objectTypes = new Map<string, Array<ObjectTypeDefinitionNode | ObjectTypeExtensionNode>>();
+
+  definitions.forEach(definition => {
+    switch (definition.kind) {
+      case Kind.SCHEMA_DEFINITION:
+        definition.operationTypes.forEach(operation => rootTypes.add(operation.type.name.value));
+        break;
+      case Kind.ENUM_TYPE_DEFINITION:
+      case Kind.ENUM_TYPE_EXTENSION:
+        enums.set(definition.name.value, [
+          ...(enums.get(definition.name.value) || []),
+          ...(definition.values || []).map(value => value.name.value),
+        ]);
+        break;
+      case Kind.OBJECT_TYPE_DEFINITION:
+      case Kind.OBJECT_TYPE_EXTENSION:
+        objectTypes.set(definition.name.value, [
+          ...(objectTypes.get(definition.name.value) || []),
+          definition,
+        ]);
+        break;
+    }
+  });
+
+  const getFields = (typeName: string): FieldDefinitionNode[] =>
+    (objectTypes.get(typeName) || []).flatMap(node => [...(node.fields || [])]);
+
+  const modelNames = new Set(
+    [...objectTypes.entries()]
+      .filter(([name, nodes]) => {
+        const description = getDescription(nodes);
+        return (
+          !rootTypes.has(name) &&
+          !/@hosby\.ignore\b/.test(description) &&
+          (!PAGINATION_TYPE.test(name) || /@hosby\.table\b/.test(description))
+        );
+      })
+      .map(([name]) => name)
+  );
+
+  // Resolves a Relay connection to the node type of its `nodes` or `edges { node }` field
+  const getConnectionNode = (typeName: string): string | undefined => {
+    const fields = getFields(typeName);
+    const nodes = fields.find(field => field.name.value === "nodes");
+    if (nodes) return getNamedType(nodes.type);
+
+    const edges = fields.find(field => field.name.value === "edges");
+    const node = edges && getFields(getNamedType(edges.type)).find(f => f.name.value === "node");
+    return node && getNamedType(node.type);
+  };
+
+  return [...modelNames].map(name => {
+    const nodes = objectTypes.get(name) || [];
+    const model: ImportedModel = { name, columns: {}, references: [], indexes: [] };
+
+    const tableName = getDescription(nodes).match(/@hosby\.table\s+(\S+)/)?.[1];
+    if (tableName) model.tableName = tableName;
+
+    getFields(name).forEach(field => {
+      const property = field.name.value;
+      const required = field.type.kind === Kind.NON_NULL_TYPE;
+      const many = isListType(field.type);
+      const typeName = getNamedType(field.type);
+
+      const connectionNode = PAGINATION_TYPE.test(typeName)
+        ? getConnectionNode(typeName)
+        : undefined;
+      const target = modelNames.has(typeName) ? typeName : connectionNode;
+      if (target && modelNames.has(target)) {
+        model.references.push({ property, target, many: many || !!connectionNode, required });
+        return;
+      }
+
+      const column = getScalarColumn(typeName, enums, objectTypes.has(typeName));
+      model.columns[property] = {
+        ...(many
+          ? { type: "array", items: column.type, ...(column.enum && { enum: column.enum }) }
+          : column),
+        required,
+        ...(!required && { nullable: true }),
+      };
+    });
+
+    return model;
+  });
+}
+
+/**
+ * Maps a scalar, enum or non-model object type to a column
+ * @param {string} typeName - Named type of the field
+ * @param {Map<string, string[]>} enums - Enum values, by enum name
+ * @param {boolean} isObjectType - Whether the type is an object type that is not a model
+ * @returns {ColumnDefinition} Column type with its `enum` or `format` details
+ */
+function getScalarColumn(
+  typeName: string,
+  enums: Map<string, string[]>,
+  isObjectType: boolean
+): ColumnDefinition {
+  const enumValues = enums.get(typeName);
+  if (enumValues) return { type: "enum", enum: enumValues };
+  if (isObjectType) return { type: "object" };
+  if (SCALAR_FORMATS[typeName]) return { type: "string", format: SCALAR_FORMATS[typeName] };
+
+  return { type: SCALAR_TYPES[typeName] || mapDatabaseType(typeName) || "string" };
+}
+
+/**
+ * Reads the named type of a field, through non-null and list wrappers
+ * @param {TypeNode} type - Field type
+ * @returns {string} Named type
+ */
+function getNamedType(type: TypeNode): string {
+  return type.kind === Kind.NAMED_TYPE ? type.name.value : getNamedType(type.type);
+}
+
+/**
+ * Determines if a field type is a list, possibly non-null
+ * @param {TypeNode} type - Field type
+ * @returns {boolean} True for `[T]`, `[T!]` and `[T!]!`
+ */
+function isListType(type: TypeNode): boolean {
+  return (
+    type.kind === Kind.LIST_TYPE || (type.kind === Kind.NON_NULL_TYPE && isListType(type.type))
+  );
+}
+
+/**
+ * Reads the descriptions of an object type and its extensions
+ * @param {Array<ObjectTypeDefinitionNode | ObjectTypeExtensionNode>} nodes - Definition and extensions
+ * @returns {string} Joined descriptions
+ */
+function getDescription(nodes: Array<ObjectTypeDefinitionNode | ObjectTypeExtensionNode>): string {
+  return nodes
+    .map(node => (node.kind === Kind.OBJECT_TYPE_DEFINITION ? node.description?.value || "" : ""))
+    .join("\n");
+}
@@ -0,0 +1,324 @@
+/**
+ * @file Mongoose schema importer
+ * @description Reads `new Schema({...})` definitions, the `model()` calls naming them and their
+ * `schema.index()` calls
+ */
+import { Node, ObjectLiteralExpression, SourceFile } from "ts-morph";
+import {
+  ColumnDefinition,
+  ImportedModel,
+  ImportedReference,
+  SchemaIndex,
+} from "../../types/types.js";
+import {
+  getEnumArgumentValues,
+  getLiteralValue,
+  getNumberValue,
+  getPropertyName,
+  unwrapExpression,
+} from "../../helpers/astValues.js";
+import { applySingleColumnIndex, mapDatabaseType, normalizeDefaultExpression } from "./common.js";
+
+/**
+ * Column types of the Mongoose schema types, indexed by constructor name
+ */
+const MONGOOSE_TYPES: Record<string, string> = {
+  String: "string",
+  Number: "number",
+  Boolean: "boolean",
+  Date: "date",
+  Buffer: "string",
+  ObjectId: "string",
+  UUID: "string",
+  Decimal128: "number",
+  BigInt: "number",
+  Double: "number",
+  Int32: "number",
+  Map: "object",
+  Mixed: "object",
+  Object: "object",
+  Array: "array",
+};
+
+/**
+ * Numeric validators, with the column constraint they set
+ */
+const NUMERIC_OPTIONS: Record<string, string> = {
+  min: "min",
+  max: "max",
+  minlength: "minLength",
+  maxlength: "maxLength",
+  minLength: "minLength",
+  maxLength: "maxLength",
+};
+
+/**
+ * A schema field read as either a column or a reference to another model
+ */
+type MongooseField =
+  | { column: ColumnDefinition; reference?: undefined }
+  | { column?: undefined; reference: Omit<ImportedReference, "property"> };
+
+/**
+ * Reads the Mongoose schemas of a set of files
+ * @description Schemas are named after the `model("User", userSchema)` call registering them,
+ * fields are optional unless `required`, `ref` fields become references and `timestamps` adds
+ * `createdAt` and `updatedAt`
+ * @param {SourceFile[]} files - Source files declaring the schemas
+ * @returns {ImportedModel[]} Schemas as imported models
+ */
+export function readMongooseModels(files: SourceFile[]): ImportedModel[] {
+  const models = new Map<string, ImportedModel>();
+
+  files.forEach(file => {
+    file.getVariableStatements().forEach(statement => {
+      statement.getDeclarations().forEach(declaration => {
+        const initializer = declaration.getInitializer();
+        const expression = initializer && unwrapExpression(initializer);
+        if (!expression || !Node.isNewExpression(expression)) return;
+        if (!/(^|\.)Schema$/.test(expression.getExpression().getText())) return;
+
+        const [definition, options] = expression.getArguments().map(unwrapExpression);
+        if (!definition || !Node.isObjectLiteralExpression(definition)) return;
+
+        models.set(declaration.getName(), readSchema(declaration.getName(), definition, options));
+      });
+    });
+  });
+
+  files.forEach(file => {
+    file.forEachDescendant(node => {
+      if (!Node.isCallExpression(node)) return;
+
+      const callee = node.getExpression();
+      const [first, second, third] = node.getArguments().map(unwrapExpression);
+
+      // model("User", userSchema, "collection") names the schema
+      if (
+        (Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText()) === "model"
+      ) {
+        const model = second && models.get(second.getText());
+        const name = first && getLiteralValue(first);
+        const collection = third && getLiteralValue(third);
+        if (model && typeof name === "string") model.name = name;
+        if (model && typeof collection === "string") model.tableName = collection;
+        return;
+      }
+
+      // userSchema.index({ a: 1, b: -1 }, { unique: true })
+      if (!Node.isPropertyAccessExpression(callee) || callee.getName() !== "index") return;
+
+      const model = models.get(callee.getExpression().getText());
+      const [fields, options] = [first, second];
+      if (!model || !fields || !Node.isObjectLiteralExpression(fields)) return;
+
+      const index: SchemaIndex = {
+        columns: fields.getProperties().map(property => getPropertyName(property)),
+      };
+      if (options && Node.isObjectLiteralExpression(options) && getOption(options, "unique")) {
+        index.unique = true;
+      }
+      if (applySingleColumnIndex(model.columns, index)) {
+        model.indexes.push(index);
+      }
+    });
+  });
+
+  return [...models.values()];
+}
+
+/**
+ * Reads a schema definition and its options
+ * @param {string} variableName - Name of the schema variable
+ * @param {ObjectLiteralExpression} definition - Schema definition
+ * @param {Node | undefined} options - Schema options such as `{ timestamps: true }`
+ * @returns {ImportedModel} Imported model, named after the variable until a `model()` call names it
+ */
+function readSchema(
+  variableName: string,
+  definition: ObjectLiteralExpression,
+  options: Node | undefined
+): ImportedModel {
+  const model: ImportedModel = {
+    name: variableName.replace(/[_-]?schema$/i, "") || variableName,
+    columns: {},
+    references: [],
+    indexes: [],
+  };
+
+  definition.getProperties().forEach(property => {
+    if (!Node.isPropertyAssignment(property)) return;
+
+    const name = getPropertyName(property);
+    const field = getField(property.getInitializerOrThrow());
+    if (field.reference) {
+      model.references.push({ property: name, ...field.reference });
+    } else {
+      model.columns[name] = field.column;
+    }
+  });
+
+  if (options && Node.isObjectLiteralExpression(options)) {
+    const collection = getOption(options, "collection");
+    if (typeof collection === "string") model.tableName = collection;
+
+    const timestamps = getOption(options, "timestamps");
+    if (timestamps !== undefined && timestamps !== false) {
+      model.columns.createdAt = { type: "date", required: true, default: "now" };
+      model.columns.updatedAt = { type: "date", required: true, default: "now" };
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Reads a schema field, either a type such as `String`, an array such as `[String]` or an options
+ * object such as `{ type: String, required: true }`
+ * @param {Node} node - Field definition
+ * @returns {MongooseField} Column or reference
+ */
+function getField(node: Node): MongooseField {
+  const definition = unwrapExpression(node);
+
+  if (Node.isArrayLiteralExpression(definition)) {
+    const [element] = definition.getElements();
+    const field = element ? getField(element) : undefined;
+    if (field?.reference) {
+      return { reference: { ...field.reference, many: true, required: true } };
+    }
+
+    const items = field?.column;
+    return {
+      column: {
+        type: "array",
+        required: false,
+        ...(items && { items: items.type }),
+        ...(items?.enum && { enum: items.enum }),
+      },
+    };
+  }
+
+  if (!Node.isObjectLiteralExpression(definition) || !definition.getProperty("type")) {
+    return { column: { type: getTypeName(definition), required: false } };
+  }
+
+  const typeProperty = definition.getProperty("type");
+  const typeField =
+    typeProperty && Node.isPropertyAssignment(typeProperty)
+      ? getField(typeProperty.getInitializerOrThrow())
+      : undefined;
+  const required = isRequired(definition);
+
+  const ref = getOption(definition, "ref");
+  const refProperty = definition.getProperty("ref");
+  const target =
+    typeof ref === "string"
+      ? ref
+      : refProperty && Node.isPropertyAssignment(refProperty)
+        ? unwrapExpression(refProperty.getInitializerOrThrow()).getText()
+        : undefined;
+  if (target) {
+    return { reference: { target, many: typeField?.column?.type === "array", required } };
+  }
+
+  const column: ColumnDefinition = { ...(typeField?.column || { type: "string" }), required };
+
+  for (const [option, constraint] of Object.entries(NUMERIC_OPTIONS)) {
+    const property = definition.getProperty(option);
+    const value =
+      property && Node.isPropertyAssignment(property)
+        ? getNumberValue(getFirstArrayElement(property.getInitializerOrThrow()))
+        : undefined;
+    if (value !== undefined) column[constraint] = value;
+  }
+
+  if (getOption(definition, "unique") === true) column.unique = true;
+  if (getOption(definition, "index") === true) column.index = true;
+
+  const enumProperty = definition.getProperty("enum");
+  if (enumProperty && Node.isPropertyAssignment(enumProperty)) {
+    let values = unwrapExpression(enumProperty.getInitializerOrThrow());
+    if (Node.isObjectLiteralExpression(values)) {
+      const valuesProperty = values.getProperty("values");
+      values =
+        valuesProperty && Node.isPropertyAssignment(valuesProperty)
+          ? valuesProperty.getInitializerOrThrow()
+          : values;
+    }
+
+    const enumValues = getEnumArgumentValues(values);
+    if (enumValues) {
+      column.type = "enum";
+      column.enum = enumValues;
+    }
+  }
+
+  const defaultProperty = definition.getProperty("default");
+  if (defaultProperty && Node.isPropertyAssignment(defaultProperty)) {
+    const initializer = defaultProperty.getInitializerOrThrow();
+    const value = getLiteralValue(initializer);
+    if (value !== undefined) {
+      column.default = value;
+    } else if (Node.isPropertyAccessExpression(unwrapExpression(initializer))) {
+      column.default = normalizeDefaultExpression(unwrapExpression(initializer).getText());
+    }
+  }
+
+  return { column };
+}
+
+/**
+ * Maps a schema type expression such as `String` or `Schema.Types.ObjectId` to a column type
+ * @param {Node} type - Type expression
+ * @returns {string} Column type
+ */
+function getTypeName(type: Node): string {
+  if (Node.isObjectLiteralExpression(type) || Node.isNewExpression(type)) return "object";
+
+  const name = type.getText().split(".").pop() || "";
+  return MONGOOSE_TYPES[name] || mapDatabaseType(name) || "string";
+}
+
+/**
+ * Reads the `required` option of a field, which may be `true`, `[true, "message"]` or a function
+ * @param {ObjectLiteralExpression} definition - Field options
+ * @returns {boolean} Whether the field is required
+ */
+function isRequired(definition: ObjectLiteralExpression): boolean {
+  const property = definition.getProperty("required");
+  if (!property || !Node.isPropertyAssignment(property)) return false;
+
+  const value = unwrapExpression(getFirstArrayElement(property.getInitializerOrThrow()));
+  return (
+    getLiteralValue(value) === true ||
+    Node.isArrowFunction(value) ||
+    Node.isFunctionExpression(value)
+  );
+}
+
+/**
+ * Reads the first element of a validator given as `[value, "message"]`, or the value itself
+ * @param {Node} node - Validator value
+ * @returns {Node} Value node
+ */
+function getFirstArrayElement(node: Node): Node {
+  const value = unwrapExpression(node);
+  return Node.isArrayLiteralExpression(value) && value.getElements().length > 0
+    ? value.getElements()[0]
+    : value;
+}
+
+/**
+ * Reads a literal option value
+ * @param {ObjectLiteralExpression} options - Options object
+ * @param {string} name - Option name
+ * @returns {unknown} Literal value, `true` for non-literal values, or undefined if absent
+ */
+function getOption(options: ObjectLiteralExpression, name: string): unknown {
+  const property = options.getProperty(name);
+  if (!property || !Node.isPropertyAssignment(property)) return undefined;
+
+  const value = getLiteralValue(property.getInitializerOrThrow());
+  return value === undefined ? true : value;
+}
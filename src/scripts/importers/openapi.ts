@@ -0,0 +1,291 @@
+/**
+ * @file OpenAPI document importer
+ * @description Reads the component schemas of OpenAPI 3 documents and the definitions of Swagger 2
+ * documents, in YAML or JSON
+ */
+import fs from "fs";
+import { parse } from "yaml";
+import logger from "../../helpers/logger.js";
+import { ColumnDefinition, ImportedModel, ImportedReference } from "../../types/types.js";
+import { mapDatabaseType } from "./common.js";
+
+/**
+ * A schema object of an OpenAPI document, reduced to the keywords the importer reads
+ */
+type OpenApiSchema = {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  nullable?: boolean;
+  enum?: unknown[];
+  default?: unknown;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  "x-hosby-table"?: string;
+  "x-hosby-ignore"?: boolean;
+};
+
+/**
+ * A schema property read as either a column or a reference to another model
+ */
+type OpenApiField =
+  | { column: ColumnDefinition; reference?: undefined }
+  | { column?: undefined; reference: Omit<ImportedReference, "property" | "required"> };
+
+/**
+ * Extensions of OpenAPI documents, as a brace pattern
+ */
+export const OPENAPI_EXTENSIONS = "{yaml,yml,json}";
+
+/**
+ * Detects OpenAPI and Swagger documents before parsing them
+ */
+const OPENAPI_DOCUMENT = /^\s*["']?(openapi|swagger)["']?\s*:/m;
+
+/**
+ * Component schemas describing API messages rather than stored models
+ */
+const MESSAGE_SCHEMA = /(Request|Response|Input|Params|Error|Problem|ProblemDetails|Page|List)$/;
+
+/**
+ * Column formats of the OpenAPI string formats
+ */
+const STRING_FORMATS: Record<string, string> = {
+  email: "email",
+  uri: "url",
+  url: "url",
+  uuid: "uuid",
+  ipv4: "ip",
+  ipv6: "ip",
+};
+
+/**
+ * Numeric keywords, with the column constraint they set
+ */
+const NUMERIC_KEYWORDS: Array<[keyof OpenApiSchema, string]> = [
+  ["minLength", "minLength"],
+  ["maxLength", "maxLength"],
+  ["minimum", "min"],
+  ["maximum", "max"],
+];
+
+/**
+ * Reads the models of the OpenAPI documents among a set of YAML and JSON files
+ * @description Files that are not OpenAPI or Swagger documents are skipped, so the files of a whole
+ * project can be passed
+ * @param {string[]} files - YAML and JSON files
+ * @returns {ImportedModel[]} Models of the documents
+ */
+export function readOpenApiDocuments(files: string[]): ImportedModel[] {
+  return files.flatMap(file => {
+    const content = fs.readFileSync(file, "utf-8");
+    if (!OPENAPI_DOCUMENT.test(content)) return [];
+
+    try {
+      const lines = content.split(/\r?\n/);
+      return parseOpenApiDocument(parse(content)).map(model => {
+        const name = model.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        const key = new RegExp(`^\\s*["']?${name}["']?\\s*:`);
+        const line = lines.findIndex(text => key.test(text)) + 1;
+        return { ...model, location: { file, ...(line > 0 && { line }), declaration: model.name } };
+      });
+    } catch (error) {
+      logger.warn(`Skipping invalid OpenAPI document ${file}: ${(error as Error).message}`);
+      return [];
+    }
+  });
+}
+
+/**
+ * Reads the models of an OpenAPI document
+ * @description Object schemas become models, except request, response, error and list messages.
+ * `required` and `nullable` (or a `"null"` type) give the column flags, `$ref`s to other models
+ * become references, `allOf` compositions are merged, and `x-hosby-table` / `x-hosby-ignore`
+ * extensions rename or skip a schema
+ * @param {unknown} document - Parsed OpenAPI 3 or Swagger 2 document
+ * @returns {ImportedModel[]} Models of the document
+ */
+export function parseOpenApiDocument(document: unknown): ImportedModel[] {
+  const root = (document || {}) as {
+    components?: { schemas?: Record<string, OpenApiSchema> };
+    definitions?: Record<string, OpenApiSchema>;
+  };
+  const schemas = root.components?.schemas || root.definitions || {};
+
+  const resolve = (schema: OpenApiSchema, seen = new Set<string>()): OpenApiSchema => {
+    const name = getRefName(schema.$ref);
+    if (!name || seen.has(name) || !schemas[name]) return schema;
+    return resolve(schemas[name], new Set([...seen, name]));
+  };
+
+  const modelSchemas = new Map<string, OpenApiSchema>();
+  for (const [name, schema] of Object.entries(schemas)) {
+    const merged = mergeAllOf(resolve(schema), resolve);
+    if (schema["x-hosby-ignore"] || !merged.properties) continue;
+    if (MESSAGE_SCHEMA.test(name) && !schema["x-hosby-table"]) continue;
+    modelSchemas.set(name, merged);
+  }
+
+  return [...modelSchemas.entries()].map(([name, schema]) => {
+    const model: ImportedModel = {
+      name,
+      columns: {},
+      references: [],
+      indexes: [],
+    };
+    const tableName = schemas[name]["x-hosby-table"];
+    if (typeof tableName === "string") model.tableName = tableName;
+
+    const required = new Set(schema.required || []);
+    for (const [property, propertySchema] of Object.entries(schema.properties || {})) {
+      const field = getField(propertySchema, modelSchemas, resolve);
+      if (field.reference) {
+        model.references.push({ property, ...field.reference, required: required.has(property) });
+      } else {
+        const { type, ...details } = field.column;
+        model.columns[property] = { type, required: required.has(property), ...details };
+      }
+    }
+
+    return model;
+  });
+}
+
+/**
+ * Reads a schema property
+ * @param {OpenApiSchema} schema - Property schema
+ * @param {Map<string, OpenApiSchema>} modelSchemas - Schemas read as models, by name
+ * @param {(schema: OpenApiSchema) => OpenApiSchema} resolve - Resolves a `$ref` schema
+ * @returns {OpenApiField} Column or reference
+ */
+function getField(
+  schema: OpenApiSchema,
+  modelSchemas: Map<string, OpenApiSchema>,
+  resolve: (schema: OpenApiSchema) => OpenApiSchema
+): OpenApiField {
+  const variants = [...(schema.oneOf || schema.anyOf || []), ...(schema.allOf || [])];
+  const nullable =
+    schema.nullable === true ||
+    (Array.isArray(schema.type) && schema.type.includes("null")) ||
+    variants.some(variant => variant.type === "null");
+
+  const target = [schema, ...variants]
+    .map(variant => getRefName(variant.$ref))
+    .find(name => name && modelSchemas.has(name));
+  if (target) {
+    return { reference: { target, many: false } };
+  }
+
+  const resolved = mergeAllOf(resolve(schema), resolve);
+  const single = variants.filter(variant => variant.type !== "null");
+  const effective =
+    !resolved.type && !resolved.properties && single.length === 1
+      ? mergeAllOf(resolve(single[0]), resolve)
+      : resolved;
+  const type = getSchemaType(effective);
+
+  if (type === "array" && effective.items) {
+    const items = getField(effective.items, modelSchemas, resolve);
+    if (items.reference) {
+      return { reference: { ...items.reference, many: true } };
+    }
+    return {
+      column: {
+        type: "array",
+        items: items.column.type,
+        ...(items.column.enum && { enum: items.column.enum }),
+        ...(nullable && { nullable: true }),
+      },
+    };
+  }
+
+  const column: ColumnDefinition = { type };
+
+  const enumValues = (effective.enum || []).filter(
+    value => typeof value === "string" || typeof value === "number"
+  ) as Array<string | number>;
+  if (enumValues.length > 0) {
+    column.type = "enum";
+    column.enum = enumValues;
+  }
+
+  const format = effective.format && STRING_FORMATS[effective.format];
+  if (format && type === "string") column.format = format;
+
+  for (const [keyword, constraint] of NUMERIC_KEYWORDS) {
+    if (typeof effective[keyword] === "number") column[constraint] = effective[keyword];
+  }
+
+  if (effective.default !== undefined) column.default = effective.default;
+  if (nullable) column.nullable = true;
+
+  return { column };
+}
+
+/**
+ * Maps the type and format of a schema to a column type
+ * @param {OpenApiSchema} schema - Resolved schema
+ * @returns {string} Column type
+ */
+function getSchemaType(schema: OpenApiSchema): string {
+  const type = Array.isArray(schema.type)
+    ? schema.type.find(candidate => candidate !== "null")
+    : schema.type;
+
+  if (type === "string" && (schema.format === "date" || schema.format === "date-time")) {
+    return "date";
+  }
+  if (type === "integer") return "number";
+  if (!type) return schema.properties ? "object" : "string";
+
+  return ["string", "number", "boolean", "array", "object"].includes(type)
+    ? type
+    : mapDatabaseType(type) || "string";
+}
+
+/**
+ * Merges the members of an `allOf` composition into a single object schema
+ * @param {OpenApiSchema} schema - Schema to merge
+ * @param {(schema: OpenApiSchema) => OpenApiSchema} resolve - Resolves a `$ref` schema
+ * @returns {OpenApiSchema} Schema with the properties and required fields of its members, its own
+ * properties last
+ */
+function mergeAllOf(
+  schema: OpenApiSchema,
+  resolve: (schema: OpenApiSchema) => OpenApiSchema
+): OpenApiSchema {
+  if (!schema.allOf) return schema;
+
+  const members = [
+    ...schema.allOf.map(member => mergeAllOf(resolve(member), resolve)),
+    { ...schema, allOf: undefined },
+  ];
+
+  return members.reduce<OpenApiSchema>(
+    (merged, member) => ({
+      ...member,
+      ...merged,
+      type: merged.type || member.type,
+      properties: { ...merged.properties, ...member.properties },
+      required: [...(merged.required || []), ...(member.required || [])],
+    }),
+    {}
+  );
+}
+
+/**
+ * Reads the schema name of a local `$ref` such as `#/components/schemas/User`
+ * @param {string | undefined} ref - Reference
+ * @returns {string | undefined} Schema name, or undefined for missing or external references
+ */
+function getRefName(ref: string | undefined): string | undefined {
+  return ref?.match(/^#\/(?:components\/schemas|definitions)\/(.+)$/)?.[1];
+}
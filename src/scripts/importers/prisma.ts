@@ -0,0 +1,232 @@
+/**
+ * @file Prisma schema importer
+ * @description Parses `model`, `enum` and composite `type` blocks of Prisma schema files
+ */
+import { ColumnDefinition, ImportedModel, SchemaIndex } from "../../types/types.js";
+import { applySingleColumnIndex, mapDatabaseType, normalizeDefaultExpression } from "./common.js";
+
+/**
+ * A `model`, `enum` or `type` block of a Prisma schema
+ */
+type PrismaBlock = {
+  kind: string;
+  name: string;
+  lines: string[];
+};
+
+/**
+ * Parses Prisma schema files into imported models
+ * @description Scalar fields keep their type, optionality, `@default`, `@unique`, `@id` and
+ * `@db.VarChar(n)` length; fields typed with a model become references and `@@map`, `@@index`
+ * and `@@unique` give the table name and indexes
+ * @param {string} content - Content of one or more Prisma schema files
+ * @returns {ImportedModel[]} Models of the schema
+ */
+export function parsePrismaSchema(content: string): ImportedModel[] {
+  const blocks = getPrismaBlocks(content);
+  const enums = new Map(
+    blocks
+      .filter(block => block.kind === "enum")
+      .map(block => [
+        block.name,
+        block.lines.filter(line => !line.startsWith("@@")).map(line => line.split(/\s+/)[0]),
+      ])
+  );
+  const modelNames = new Set(
+    blocks.filter(block => block.kind === "model" || block.kind === "view").map(block => block.name)
+  );
+  const compositeTypes = new Set(
+    blocks.filter(block => block.kind === "type").map(block => block.name)
+  );
+
+  return blocks
+    .filter(block => modelNames.has(block.name))
+    .map(block => {
+      const model: ImportedModel = { name: block.name, columns: {}, references: [], indexes: [] };
+
+      block.lines.forEach(line => {
+        if (line.startsWith("@@")) {
+          readBlockAttribute(model, line);
+          return;
+        }
+
+        const field = line.match(/^(\w+)\s+(\w+(?:\([^)]*\))?)(\[\])?(\?)?\s*(.*)$/);
+        if (!field) return;
+
+        const [, name, type, list, optional, attributes] = field;
+
+        if (modelNames.has(type)) {
+          model.references.push({
+            property: name,
+            target: type,
+            many: !!list,
+            required: !optional,
+          });
+          return;
+        }
+
+        const column: ColumnDefinition = enums.has(type)
+          ? { type: "enum", enum: enums.get(type) }
+          : {
+              type: compositeTypes.has(type) ? "object" : mapDatabaseType(type) || "string",
+            };
+
+        model.columns[name] = {
+          ...(list
+            ? { type: "array", items: column.type, ...(column.enum && { enum: column.enum }) }
+            : column),
+          required: !optional,
+          ...(optional && { nullable: true }),
+          ...getFieldAttributes(attributes),
+        };
+      });
+
+      model.indexes = model.indexes.filter(
+        index => applySingleColumnIndex(model.columns, index) !== null
+      );
+
+      return model;
+    });
+}
+
+/**
+ * Splits a Prisma schema into its blocks, without comments
+ * @param {string} content - Prisma schema content
+ * @returns {PrismaBlock[]} Blocks with their trimmed, non-empty lines
+ */
+function getPrismaBlocks(content: string): PrismaBlock[] {
+  const source = content.split(/\r?\n/).map(stripPrismaComment).join("\n");
+  const blocks: PrismaBlock[] = [];
+
+  for (const match of source.matchAll(
+    /^\s*(model|enum|view|type)\s+(\w+)\s*\{([\s\S]*?)^\s*\}/gm
+  )) {
+    blocks.push({
+      kind: match[1],
+      name: match[2],
+      lines: match[3]
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Removes the `//` comment ending a Prisma line, leaving `//` inside quoted strings untouched
+ * @param {string} line - Line of a Prisma schema
+ * @returns {string} Line without its comment
+ */
+function stripPrismaComment(line: string): string {
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted && char === "\\") {
+      index++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === "/" && line[index + 1] === "/") {
+      return line.slice(0, index);
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Applies a block attribute such as `@@map("users")` or `@@index([a, b])` to a model
+ * @param {ImportedModel} model - Model being read
+ * @param {string} line - Block attribute line
+ */
+function readBlockAttribute(model: ImportedModel, line: string): void {
+  const name = line.match(/^@@(\w+)/)?.[1];
+  const args = getAttributeArguments(line, `@@${name}`) || "";
+
+  switch (name) {
+    case "map": {
+      const tableName = args.match(/"([^"]*)"/)?.[1];
+      if (tableName) model.tableName = tableName;
+      break;
+    }
+    case "index":
+    case "unique":
+    case "id": {
+      const columns = (args.match(/\[([^\]]*)\]/)?.[1] || "")
+        .split(",")
+        .map(column => column.trim().match(/^\w+/)?.[0])
+        .filter((column): column is string => !!column);
+      if (columns.length > 0) {
+        const index: SchemaIndex = { columns };
+        if (name !== "index") index.unique = true;
+        model.indexes.push(index);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Reads the column attributes of a scalar field
+ * @param {string} attributes - Attributes following the field type
+ * @returns {Partial<ColumnDefinition>} Column details
+ */
+function getFieldAttributes(attributes: string): Partial<ColumnDefinition> {
+  const details: Partial<ColumnDefinition> = {};
+
+  if (/@id\b/.test(attributes)) details.primary = true;
+  if (/@unique\b/.test(attributes)) details.unique = true;
+
+  const defaultValue = getAttributeArguments(attributes, "@default");
+  if (defaultValue !== null) {
+    details.default = parseDefaultValue(defaultValue);
+  }
+
+  const length = attributes.match(/@db\.(?:Var)?Char\((\d+)\)/i)?.[1];
+  if (length) details.maxLength = Number(length);
+
+  return details;
+}
+
+/**
+ * Reads the arguments of an attribute, balancing nested parentheses
+ * @example
+ * // getAttributeArguments('@default(dbgenerated("gen()"))', "@default") gives 'dbgenerated("gen()")'
+ * @param {string} text - Text holding the attribute
+ * @param {string} attribute - Attribute name including its `@` or `@@` prefix
+ * @returns {string | null} Arguments, or null if the attribute is absent
+ */
+function getAttributeArguments(text: string, attribute: string): string | null {
+  const start = text.indexOf(`${attribute}(`);
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start + attribute.length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' && text[i - 1] !== "\\") inString = !inString;
+    if (inString) continue;
+
+    if (char === "(") depth++;
+    if (char === ")" && --depth === 0) {
+      return text.slice(start + attribute.length + 1, i);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses the value of a `@default(...)` attribute
+ * @param {string} value - Attribute argument, e.g. `"guest"`, `0`, `now()` or an enum member
+ * @returns {unknown} Default value
+ */
+function parseDefaultValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return normalizeDefaultExpression(value);
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * @file TypeORM entity importer
+ * @description Reads classes decorated with `@Entity()`, their column and relation decorators and
+ * their `@Index`/`@Unique` decorators
+ */
+import { ClassDeclaration, Decorator, Node, ObjectLiteralExpression, SourceFile } from "ts-morph";
+import { ColumnDefinition, ImportedModel, RelationKind, SchemaIndex } from "../../types/types.js";
+import { getValueType } from "../schema.js";
+import {
+  getEnumArgumentValues,
+  getLiteralValue,
+  getNumberValue,
+  unwrapExpression,
+} from "../../helpers/astValues.js";
+import { applySingleColumnIndex, mapDatabaseType, normalizeDefaultExpression } from "./common.js";
+
+/**
+ * Column decorators, with the details they imply
+ */
+const COLUMN_DECORATORS: Record<string, Partial<ColumnDefinition>> = {
+  Column: {},
+  PrimaryColumn: { primary: true },
+  PrimaryGeneratedColumn: { primary: true },
+  ObjectIdColumn: { primary: true, type: "string" },
+  CreateDateColumn: { type: "date", default: "now" },
+  UpdateDateColumn: { type: "date", default: "now" },
+  DeleteDateColumn: { type: "date", nullable: true },
+  VersionColumn: { type: "number" },
+};
+
+/**
+ * Relation decorators, with the relation kind they declare
+ */
+const RELATION_DECORATORS: Record<string, RelationKind> = {
+  OneToOne: "one-to-one",
+  OneToMany: "one-to-many",
+  ManyToOne: "many-to-one",
+  ManyToMany: "many-to-many",
+};
+
+/**
+ * Reads the TypeORM entities of a set of files
+ * @description Columns inherited from base classes are included
+ * @param {SourceFile[]} files - Source files declaring the entities
+ * @returns {ImportedModel[]} Entities as imported models
+ */
+export function readTypeOrmEntities(files: SourceFile[]): ImportedModel[] {
+  return files.flatMap(file =>
+    file
+      .getClasses()
+      .filter(cls => cls.getName() && cls.getDecorator("Entity"))
+      .map(cls => readEntity(cls))
+  );
+}
+
+/**
+ * Reads an entity class
+ * @param {ClassDeclaration} cls - Entity class
+ * @returns {ImportedModel} Imported model
+ */
+function readEntity(cls: ClassDeclaration): ImportedModel {
+  const model: ImportedModel = {
+    name: cls.getName() as string,
+    columns: {},
+    references: [],
+    indexes: [],
+  };
+
+  const [entityArgument] = cls.getDecorator("Entity")?.getArguments() || [];
+  const tableName = entityArgument && getEntityName(entityArgument);
+  if (tableName) model.tableName = tableName;
+
+  const hierarchy: ClassDeclaration[] = [];
+  for (let current: ClassDeclaration | undefined = cls; current; current = current.getBaseClass()) {
+    hierarchy.unshift(current);
+  }
+
+  hierarchy.forEach(declaration => {
+    declaration.getProperties().forEach(property => {
+      const name = property.getName();
+      const optional = property.hasQuestionToken();
+
+      for (const decorator of property.getDecorators()) {
+        const decoratorName = decorator.getName();
+
+        if (COLUMN_DECORATORS[decoratorName]) {
+          const column = {
+            ...getValueType(property.getType().getNonNullableType()),
+            required: !optional,
+            ...COLUMN_DECORATORS[decoratorName],
+            ...getColumnOptions(decorator),
+          };
+          if (column.nullable) column.required = false;
+          model.columns[name] = column;
+        } else if (RELATION_DECORATORS[decoratorName]) {
+          const [targetArgument] = decorator.getArguments();
+          const target = targetArgument && getRelationTarget(targetArgument);
+          if (!target) continue;
+
+          const relation = RELATION_DECORATORS[decoratorName];
+          model.references.push({
+            property: name,
+            target,
+            many: relation === "one-to-many" || relation === "many-to-many",
+            required: !optional && getDecoratorOption(decorator, "nullable") !== true,
+            relation,
+          });
+        }
+      }
+
+      const indexDecorator = property.getDecorator("Index");
+      if (indexDecorator && model.columns[name]) {
+        const unique = getDecoratorOption(indexDecorator, "unique") === true;
+        model.columns[name] = {
+          ...model.columns[name],
+          ...(unique ? { unique } : { index: true }),
+        };
+      }
+    });
+
+    declaration.getDecorators().forEach(decorator => {
+      const index = getClassIndex(decorator);
+      if (index && applySingleColumnIndex(model.columns, index)) {
+        model.indexes.push(index);
+      }
+    });
+  });
+
+  return model;
+}
+
+/**
+ * Reads the table name of an `@Entity("users")` or `@Entity({ name: "users" })` argument
+ * @param {Node} argument - First decorator argument
+ * @returns {string | undefined} Table name
+ */
+function getEntityName(argument: Node): string | undefined {
+  const value = getLiteralValue(argument);
+  if (typeof value === "string") return value;
+
+  const options = unwrapExpression(argument);
+  if (!Node.isObjectLiteralExpression(options)) return undefined;
+
+  const name = getOptionValue(options, "name");
+  return typeof name === "string" ? name : undefined;
+}
+
+/**
+ * Reads the target entity of a relation decorator, either `() => User` or `"User"`
+ * @param {Node} argument - First decorator argument
+ * @returns {string | undefined} Target entity name
+ */
+function getRelationTarget(argument: Node): string | undefined {
+  const value = getLiteralValue(argument);
+  if (typeof value === "string") return value;
+
+  const expression = unwrapExpression(argument);
+  if (Node.isArrowFunction(expression)) {
+    const body = unwrapExpression(expression.getBody());
+    return Node.isIdentifier(body) ? body.getText() : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the options object of a decorator, its last object literal argument
+ * @param {Decorator} decorator - Decorator
+ * @returns {ObjectLiteralExpression | undefined} Options object
+ */
+function getOptions(decorator: Decorator): ObjectLiteralExpression | undefined {
+  return decorator
+    .getArguments()
+    .map(argument => unwrapExpression(argument))
+    .filter((argument): argument is ObjectLiteralExpression =>
+      Node.isObjectLiteralExpression(argument)
+    )
+    .pop();
+}
+
+/**
+ * Reads a literal option value
+ * @param {ObjectLiteralExpression} options - Options object
+ * @param {string} name - Option name
+ * @returns {unknown} Literal value, or undefined if the option is absent or not a literal
+ */
+function getOptionValue(options: ObjectLiteralExpression, name: string): unknown {
+  const property = options.getProperty(name);
+  return property && Node.isPropertyAssignment(property)
+    ? getLiteralValue(property.getInitializerOrThrow())
+    : undefined;
+}
+
+/**
+ * Reads a literal option of a decorator options object
+ * @param {Decorator} decorator - Decorator
+ * @param {string} name - Option name
+ * @returns {unknown} Literal value, or undefined if the option is absent or not a literal
+ */
+function getDecoratorOption(decorator: Decorator, name: string): unknown {
+  const options = getOptions(decorator);
+  return options ? getOptionValue(options, name) : undefined;
+}
+
+/**
+ * Reads the column details of a column decorator such as `@Column("varchar", { length: 80 })`
+ * @param {Decorator} decorator - Column decorator
+ * @returns {Partial<ColumnDefinition>} Column details
+ */
+function getColumnOptions(decorator: Decorator): Partial<ColumnDefinition> {
+  const details: Partial<ColumnDefinition> = {};
+  const options = getOptions(decorator);
+  const [first] = decorator.getArguments();
+
+  const typeName = first && getLiteralValue(first);
+  const declaredType =
+    typeof typeName === "string" ? typeName : options && getOptionValue(options, "type");
+  const mappedType = typeof declaredType === "string" && mapDatabaseType(declaredType);
+  if (mappedType && mappedType !== "enum") {
+    details.type = mappedType;
+  }
+
+  if (!options) return details;
+
+  const enumProperty = options.getProperty("enum");
+  if (enumProperty && Node.isPropertyAssignment(enumProperty)) {
+    const values = getEnumArgumentValues(enumProperty.getInitializerOrThrow());
+    if (values) {
+      details.type = "enum";
+      details.enum = values;
+    }
+  }
+
+  if (getOptionValue(options, "nullable") === true) details.nullable = true;
+  if (getOptionValue(options, "unique") === true) details.unique = true;
+  if (getOptionValue(options, "array") === true && details.type) {
+    details.items = details.type;
+    details.type = "array";
+  }
+
+  const length = options.getProperty("length");
+  const maxLength =
+    length && Node.isPropertyAssignment(length)
+      ? getNumberValue(length.getInitializerOrThrow())
+      : undefined;
+  if (maxLength !== undefined) details.maxLength = maxLength;
+
+  const defaultProperty = options.getProperty("default");
+  if (defaultProperty && Node.isPropertyAssignment(defaultProperty)) {
+    const initializer = unwrapExpression(defaultProperty.getInitializerOrThrow());
+    const value = Node.isArrowFunction(initializer)
+      ? getLiteralValue(initializer.getBody())
+      : getLiteralValue(initializer);
+    if (value !== undefined) {
+      details.default = Node.isArrowFunction(initializer)
+        ? normalizeDefaultExpression(String(value))
+        : value;
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Reads a class-level `@Index([...])` or `@Unique([...])` decorator
+ * @param {Decorator} decorator - Class decorator
+ * @returns {SchemaIndex | null} Index, or null if the decorator is not an index
+ */
+function getClassIndex(decorator: Decorator): SchemaIndex | null {
+  const name = decorator.getName();
+  if (name !== "Index" && name !== "Unique") return null;
+
+  const columns = decorator
+    .getArguments()
+    .map(argument => unwrapExpression(argument))
+    .find(argument => Node.isArrayLiteralExpression(argument));
+  if (!columns || !Node.isArrayLiteralExpression(columns)) return null;
+
+  const index: SchemaIndex = {
+    columns: columns
+      .getElements()
+      .map(element => getLiteralValue(element))
+      .filter((column): column is string => typeof column === "string"),
+  };
+
+  if (name === "Unique" || getDecoratorOption(decorator, "unique") === true) {
+    index.unique = true;
+  }
+
+  return index;
+}
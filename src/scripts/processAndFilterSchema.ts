@@ -1,42 +1,96 @@
 import fs from "fs";
 import path from "path";
 import ora from "ora";
+import inquirer from "inquirer";
 import logger from "../helpers/logger.js";
 import { filterSchema, sanitizeSchema } from "../helpers/filterSchema.js";
+import { formatSchemaMerge, mergeSchemas } from "../helpers/schemaMerge.js";
 import { HosbySchema } from "../types/types.js";
 
+/**
+ * Options of schema processing
+ * @property {boolean} [merge] - Whether to merge the schema into the existing schema file instead
+ * of replacing it
+ * @property {boolean} [yes] - Whether to write a merged schema without asking
+ */
+export interface ProcessSchemaOptions {
+  merge?: boolean;
+  yes?: boolean;
+}
+
 /**
  * Processes and filters the schema
+ * @description In merge mode, the filtered schema is merged into the existing schema file and a
+ * summary of the merge is printed; the file is written once confirmed, and left untouched when
+ * nothing changed
  * @param {any} schema - The schema to process
  * @param {any} filteredSchema - The filtered schema
  * @param {Object} schemaStats - The schema statistics
  * @param {ReturnType<typeof ora>} spinner - The spinner instance
- * @param {string} scanPath - The path to the scan directory
+ * @param {string} schemaPath - The schema file to write
+ * @param {ProcessSchemaOptions} [options] - Merge options
  */
-export function processAndFilterSchema(
+export async function processAndFilterSchema(
   schema: HosbySchema,
   filteredSchema: HosbySchema,
   schemaStats: { tableCount: number; columnCount: number },
   spinner: ReturnType<typeof ora>,
-  scanPath: string
-): void {
+  schemaPath: string,
+  options: ProcessSchemaOptions = {}
+): Promise<void> {
   try {
     spinner.text = "📝 Sanitizing and filtering schema...";
-    schema = sanitizeSchema(schema);
-    filteredSchema = filterSchema(schema);
+    const scanned = filterSchema(sanitizeSchema(schema));
 
-    if (!filteredSchema.tables || Object.keys(filteredSchema.tables).length === 0) {
+    if (!scanned.tables || Object.keys(scanned.tables).length === 0) {
       spinner.warn("⚠️ No tables found in schema. The generated schema may be empty.");
       // Restart spinner after warning
       spinner.start();
     }
 
+    let unchanged = false;
+    if (options.merge && fs.existsSync(schemaPath)) {
+      const merge = mergeSchemas(JSON.parse(fs.readFileSync(schemaPath, "utf-8")), scanned);
+      spinner.stop();
+
+      console.log(`\n🔀 Merging into ${schemaPath}:`);
+      const lines = formatSchemaMerge(merge);
+      lines.forEach(line => console.log(`  ${line}`));
+      if (lines.length === 0) console.log("  No differences");
+
+      unchanged = merge.changes.length === 0;
+      if (!unchanged && !options.yes) {
+        const { confirmMerge } = await inquirer.prompt([
+          {
+            type: "confirm",
+            name: "confirmMerge",
+            message: `Write the merged schema to ${schemaPath}?`,
+            default: true,
+          },
+        ]);
+
+        if (!confirmMerge) {
+          spinner.info("Schema left unchanged.");
+          return;
+        }
+      }
+
+      spinner.start();
+      // Filled in place so the caller sees the merged tables
+      Object.assign(filteredSchema, merge.schema);
+    } else {
+      // Filled in place so the caller sees the filtered tables
+      Object.assign(filteredSchema, scanned);
+    }
+
     // Step 4: Save schema to file
     spinner.text = "💾 Saving schema to file...";
-    const schemaPath = path.join(scanPath, "hosby.schema.json");
 
     try {
-      fs.writeFileSync(schemaPath, JSON.stringify(filteredSchema, null, 2));
+      if (!unchanged) {
+        fs.mkdirSync(path.dirname(schemaPath), { recursive: true });
+        fs.writeFileSync(schemaPath, JSON.stringify(filteredSchema, null, 2));
+      }
 
       schemaStats.tableCount = Object.keys(filteredSchema.tables).length;
       schemaStats.columnCount = Object.values(filteredSchema.tables).reduce(
@@ -44,7 +98,11 @@ export function processAndFilterSchema(
         0
       );
 
-      spinner.succeed(`Schema generated successfully: ${schemaPath} ! 🎉`);
+      spinner.succeed(
+        unchanged
+          ? `Schema already up to date: ${schemaPath}`
+          : `Schema generated successfully: ${schemaPath} ! 🎉`
+      );
       // Restart spinner after succeed message
       spinner.start();
     } catch (error) {
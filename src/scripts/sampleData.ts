@@ -0,0 +1,473 @@
+/**
+ * @file Sample data inference
+ * @description Reads JSON/NDJSON fixtures, API response samples and `const mockUsers = [...]`
+ * literals, and infers table columns by merging the shapes of their records
+ */
+import fs from "fs";
+import path from "path";
+import { globSync } from "glob";
+import { Node, SourceFile, VariableDeclaration, VariableStatement } from "ts-morph";
+import logger from "../helpers/logger.js";
+import { ignorePatterns } from "../helpers/ignoreFiles.js";
+import {
+  getLiteralValue,
+  getPropertyName,
+  resolveInitializer,
+  unwrapExpression,
+} from "../helpers/astValues.js";
+import { ColumnDefinition, SourceLocation } from "../types/types.js";
+
+/**
+ * Records of one sample source, such as a fixture file or a mock array
+ * @property {string} name - Model name derived from the file, key or variable name
+ * @property {Record<string, unknown>[]} records - Sample records
+ * @property {VariableStatement} [statement] - Statement declaring a mock array, for its JSDoc tags
+ * @property {VariableDeclaration} [declaration] - Variable declaring a mock array
+ * @property {SourceLocation} [location] - Fixture file and line of the key holding the records
+ */
+export type SampleSource = {
+  name: string;
+  records: Record<string, unknown>[];
+  statement?: VariableStatement;
+  declaration?: VariableDeclaration;
+  location?: SourceLocation;
+};
+
+/**
+ * A mock value that cannot be evaluated, e.g. `faker.person.fullName()`, with the column type the
+ * type checker gives it when known
+ */
+class OpaqueSample {
+  constructor(readonly type?: string) {}
+
+  /**
+   * Serializes the sample as a marker object, read back by `reviveSampleRecords`
+   * @returns {Record<string, string | null>} Marker holding the column type
+   */
+  toJSON(): Record<string, string | null> {
+    return { [OPAQUE_SAMPLE_KEY]: this.type ?? null };
+  }
+}
+
+/**
+ * Key of the marker objects opaque samples are serialized to
+ */
+const OPAQUE_SAMPLE_KEY = "$hosbyOpaqueSample";
+
+/**
+ * Words marking a name as sample data, stripped from file and variable names
+ */
+const SAMPLE_WORDS = /^(mock(s|ed)?|fakes?|dummy|dummies|samples?|seeds?|fixtures?|responses?)$/i;
+
+/**
+ * Keys wrapping the records of an API response sample, e.g. `{ "data": [...], "total": 3 }`
+ */
+const RESPONSE_WRAPPER_KEYS = new Set([
+  "data",
+  "items",
+  "results",
+  "records",
+  "rows",
+  "docs",
+  "list",
+  "content",
+  "nodes",
+  "entries",
+  "payload",
+]);
+
+/**
+ * JSON files that hold configuration rather than data
+ */
+const CONFIG_FILE_PATTERNS = [
+  "**/*.config.json",
+  "**/*rc.json",
+  "**/tsconfig*.json",
+  "**/*.schema.json",
+];
+
+/**
+ * Maximum number of records read from a single source
+ */
+const MAX_SAMPLE_RECORDS = 1000;
+
+/**
+ * Maximum number of distinct values for a string column to be read as an enum
+ */
+const ENUM_MAX_VALUES = 10;
+
+/**
+ * Maximum length of the values of an enum column
+ */
+const ENUM_MAX_LENGTH = 32;
+
+/**
+ * ISO 8601 dates, with or without a time
+ */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Restores the records of a sample source read back from JSON
+ * @description Opaque samples are serialized as marker objects; they are turned back into opaque
+ * samples so the inferred column types match a fresh extraction
+ * @param {unknown[]} records - Parsed records
+ * @returns {Record<string, unknown>[]} Sample records
+ */
+export function reviveSampleRecords(records: unknown[]): Record<string, unknown>[] {
+  const revive = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(revive);
+    if (!isRecord(value)) return value;
+    if (OPAQUE_SAMPLE_KEY in value) {
+      return new OpaqueSample((value[OPAQUE_SAMPLE_KEY] as string | null) ?? undefined);
+    }
+
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, revive(item)]));
+  };
+
+  return records.map(record => revive(record) as Record<string, unknown>);
+}
+
+/**
+ * Infers table columns from sample records
+ * @description Fields missing from some records are optional and fields holding `null` are
+ * nullable. ISO date strings become date columns, and strings repeating a few distinct values
+ * become enum columns
+ * @param {Record<string, unknown>[]} records - Sample records of one table
+ * @returns {Record<string, ColumnDefinition>} Columns in the order fields first appear
+ */
+export function inferSampleColumns(
+  records: Record<string, unknown>[]
+): Record<string, ColumnDefinition> {
+  const valuesByField = new Map<string, unknown[]>();
+  records.forEach(record => {
+    for (const [field, value] of Object.entries(record)) {
+      if (value === undefined) continue;
+      valuesByField.set(field, [...(valuesByField.get(field) || []), value]);
+    }
+  });
+
+  const columns: Record<string, ColumnDefinition> = {};
+  valuesByField.forEach((values, field) => {
+    const present = values.filter(value => value !== null);
+    const column: ColumnDefinition = {
+      ...inferValueColumn(present),
+      required: values.length === records.length,
+    };
+    if (present.length < values.length) column.nullable = true;
+    columns[field] = column;
+  });
+
+  return columns;
+}
+
+/**
+ * Infers the type of a field from its non-null values
+ * @param {unknown[]} values - Values of the field
+ * @returns {ColumnDefinition} Column type with its `items` or `enum` details
+ */
+function inferValueColumn(values: unknown[]): ColumnDefinition {
+  const type = mergeValueTypes(values);
+
+  if (type === "array") {
+    const elements = values.flatMap(value => (Array.isArray(value) ? value : []));
+    const items = elements.filter(element => element !== null);
+    return items.length > 0 ? { type, items: mergeValueTypes(items) } : { type };
+  }
+
+  if (type === "string") {
+    const enumValues = getEnumValues(values);
+    if (enumValues) return { type: "enum", enum: enumValues };
+  }
+
+  return { type };
+}
+
+/**
+ * Merges the types of a set of values
+ * @description Dates mixed with other strings, and scalars of several types, fall back to string
+ * @param {unknown[]} values - Non-null values
+ * @returns {string} Column type
+ */
+function mergeValueTypes(values: unknown[]): string {
+  const types = new Set(values.map(getSampleType).filter((type): type is string => !!type));
+  if (types.size === 0) return "string";
+  if (types.size === 1) return [...types][0];
+
+  return [...types].every(type => ["string", "date", "number", "boolean"].includes(type))
+    ? "string"
+    : "object";
+}
+
+/**
+ * Reads the column type of a single sample value
+ * @param {unknown} value - Sample value
+ * @returns {string | undefined} Column type, or undefined if the value type is unknown
+ */
+function getSampleType(value: unknown): string | undefined {
+  if (value instanceof OpaqueSample) return value.type;
+  if (value instanceof Date) return "date";
+  if (Array.isArray(value)) return "array";
+
+  switch (typeof value) {
+    case "string":
+      return ISO_DATE.test(value) ? "date" : "string";
+    case "number":
+    case "bigint":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "object":
+      return value ? "object" : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reads the values of a low-cardinality string field
+ * @description At least three values are needed, some of them repeating, with at most
+ * ENUM_MAX_VALUES short distinct values
+ * @param {unknown[]} values - Non-null values of a string field
+ * @returns {string[] | null} Distinct values in order of appearance, or null for free text
+ */
+function getEnumValues(values: unknown[]): string[] | null {
+  if (values.length < 3 || !values.every(value => typeof value === "string")) return null;
+
+  const distinct = [...new Set(values as string[])];
+  const isEnum =
+    distinct.length < values.length &&
+    distinct.length <= ENUM_MAX_VALUES &&
+    distinct.every(value => value.length > 0 && value.length <= ENUM_MAX_LENGTH);
+
+  return isEnum ? distinct : null;
+}
+
+/**
+ * Reads the JSON and NDJSON fixtures of a project
+ * @description JSON files holding an array of objects are named after the file (`users.json`,
+ * `users.mock.json`), objects holding arrays of objects give one source per key (json-server
+ * `db.json`) unless the key wraps an API response (`data`, `items`, `results`, ...), and NDJSON
+ * files give one record per line
+ * @param {string} scanPath - Scanned directory
+ * @returns {SampleSource[]} Sources of the fixture files
+ */
+export function collectFixtureSources(scanPath: string): SampleSource[] {
+  const fixtures = globSync(`${scanPath}/**/*.{json,ndjson,jsonl}`, {
+    ignore: [...ignorePatterns, ...CONFIG_FILE_PATTERNS],
+  });
+
+  return fixtures.flatMap(file => {
+    const fileName = getSampleName(path.basename(file).replace(/\.[^.]+$/, ""));
+    if (!fileName) return [];
+
+    let content: unknown;
+    try {
+      content = readFixture(file);
+    } catch (error) {
+      logger.debug(`Skipping unreadable fixture ${file}: ${(error as Error).message}`);
+      return [];
+    }
+
+    const location = { file: path.resolve(file), line: 1 };
+    if (Array.isArray(content)) {
+      const records = getRecords(content);
+      return records.length > 0 ? [{ name: fileName, records, location }] : [];
+    }
+
+    // OpenAPI documents are read as API contracts
+    if (!isRecord(content) || "openapi" in content || "swagger" in content) return [];
+
+    return Object.entries(content).flatMap(([key, value]) => {
+      const records = Array.isArray(value) ? getRecords(value) : [];
+      const name = RESPONSE_WRAPPER_KEYS.has(key.toLowerCase()) ? fileName : getSampleName(key);
+      return records.length > 0 && name
+        ? [
+            {
+              name,
+              records,
+              location: { ...location, line: findKeyLine(file, key), declaration: key },
+            },
+          ]
+        : [];
+    });
+  });
+}
+
+/**
+ * Parses a JSON fixture, or an NDJSON fixture as an array of its lines
+ * @param {string} file - Fixture path
+ * @returns {unknown} Parsed content
+ * @throws {SyntaxError} If the file is neither JSON nor NDJSON
+ */
+function readFixture(file: string): unknown {
+  const content = fs.readFileSync(file, "utf-8");
+  const lines = () =>
+    content
+      .split(/\r?\n/)
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line));
+
+  if (/\.(ndjson|jsonl)$/.test(file)) return lines();
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    // Line-delimited records saved with a .json extension
+    if (content.trim().startsWith("{") && content.includes("\n")) return lines();
+    throw error;
+  }
+}
+
+/**
+ * Finds the line of a top-level key of a JSON fixture
+ * @param {string} file - Fixture path
+ * @param {string} key - Key of the fixture object
+ * @returns {number} 1-based line of the key, 1 if not found
+ */
+function findKeyLine(file: string, key: string): number {
+  const lines = fs.readFileSync(file, "utf-8").split(/\r?\n/);
+  const index = lines.findIndex(line => line.includes(JSON.stringify(key)));
+  return index + 1 || 1;
+}
+
+/**
+ * Reads the top-level `mockX`, `fakeX`, `xFixtures` or `sampleX` arrays of object literals
+ * @param {SourceFile[]} files - Scanned source files
+ * @returns {SampleSource[]} Sources of the mock arrays
+ */
+export function collectMockSources(files: SourceFile[]): SampleSource[] {
+  return files.flatMap(file =>
+    file.getVariableStatements().flatMap(statement =>
+      statement.getDeclarations().flatMap(declaration => {
+        const name = getSampleName(declaration.getName(), true);
+        const initializer = declaration.getInitializer();
+        const value = name && initializer ? getSampleValue(initializer) : undefined;
+        const records = Array.isArray(value) ? getRecords(value) : [];
+
+        return name && records.length > 0 ? [{ name, records, statement, declaration }] : [];
+      })
+    )
+  );
+}
+
+/**
+ * Strips sample words from a file, key or variable name
+ * @example
+ * // getSampleName("mockUserProfiles", true) gives "UserProfiles"
+ * // getSampleName("orders.fixture") gives "orders"
+ * @param {string} name - Name to strip
+ * @param {boolean} [requireSampleWord] - Whether names without a sample word are rejected
+ * @returns {string | null} Model name, or null if nothing remains or no sample word was found
+ */
+function getSampleName(name: string, requireSampleWord = false): string | null {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[\s_\-.]+/)
+    .filter(word => word.length > 0);
+
+  let start = 0;
+  let end = words.length;
+  while (start < end && SAMPLE_WORDS.test(words[start])) start++;
+  while (end > start && SAMPLE_WORDS.test(words[end - 1])) end--;
+
+  if (start === end || (requireSampleWord && start === 0 && end === words.length)) return null;
+
+  return words
+    .slice(start, end)
+    .map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join("");
+}
+
+/**
+ * Keeps the object records of an array, up to MAX_SAMPLE_RECORDS
+ * @param {unknown[]} values - Array items
+ * @returns {Record<string, unknown>[]} Object records
+ */
+function getRecords(values: unknown[]): Record<string, unknown>[] {
+  return values.filter(isRecord).slice(0, MAX_SAMPLE_RECORDS);
+}
+
+/**
+ * Determines if a value is a plain object record
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True for objects that are neither arrays, dates nor opaque samples
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof OpaqueSample)
+  );
+}
+
+/**
+ * Evaluates a mock expression to a sample value
+ * @description Literals, arrays, objects (with spreads) and variables holding them are evaluated;
+ * other expressions such as `faker.person.fullName()` or `new Date()` give an opaque value typed by
+ * the type checker
+ * @param {Node} node - Expression
+ * @param {number} [depth] - Nesting depth, bounding the variables followed
+ * @returns {unknown} Sample value
+ */
+function getSampleValue(node: Node, depth = 0): unknown {
+  const expression = unwrapExpression(node);
+  if (depth > 10) return new OpaqueSample();
+
+  const literal = getLiteralValue(expression);
+  if (literal !== undefined) return literal;
+
+  if (Node.isArrayLiteralExpression(expression)) {
+    return expression
+      .getElements()
+      .filter(element => !Node.isSpreadElement(element))
+      .map(element => getSampleValue(element, depth + 1));
+  }
+
+  if (Node.isObjectLiteralExpression(expression)) {
+    const record: Record<string, unknown> = {};
+    expression.getProperties().forEach(property => {
+      if (Node.isPropertyAssignment(property)) {
+        record[getPropertyName(property)] = getSampleValue(
+          property.getInitializerOrThrow(),
+          depth + 1
+        );
+      } else if (Node.isShorthandPropertyAssignment(property)) {
+        record[property.getName()] = getSampleValue(property.getNameNode(), depth + 1);
+      } else if (Node.isSpreadAssignment(property)) {
+        const spread = getSampleValue(property.getExpression(), depth + 1);
+        if (isRecord(spread)) Object.assign(record, spread);
+      }
+    });
+    return record;
+  }
+
+  if (Node.isIdentifier(expression)) {
+    const initializer = resolveInitializer(expression);
+    if (initializer) return getSampleValue(initializer, depth + 1);
+  }
+
+  return getOpaqueSample(expression);
+}
+
+/**
+ * Types an expression that cannot be evaluated with the type checker
+ * @param {Node} expression - Expression
+ * @returns {unknown} Literal value, opaque sample, or undefined for `undefined` expressions
+ */
+function getOpaqueSample(expression: Node): unknown {
+  if (expression.getType().isUndefined()) return undefined;
+
+  const type = expression.getType().getNonNullableType();
+
+  if (type.isStringLiteral() || type.isNumberLiteral()) return type.getLiteralValue();
+  if (type.isString() || type.isTemplateLiteral()) return new OpaqueSample("string");
+  if (type.isNumber()) return new OpaqueSample("number");
+  if (type.isBoolean() || type.isBooleanLiteral()) return new OpaqueSample("boolean");
+  if (type.getSymbol()?.getName() === "Date") return new OpaqueSample("date");
+  if (type.isArray()) return new OpaqueSample("array");
+  if (type.isObject()) return new OpaqueSample("object");
+
+  return new OpaqueSample();
+}
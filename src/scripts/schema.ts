@@ -1,31 +1,1037 @@
-import { Project } from "ts-morph";
+import fs from "fs";
 import { globSync } from "glob";
-import { ignorePatterns } from "../helpers/ignoreFiles.js";
+import { Node, Scope, SourceFile, Type, TypeAliasDeclaration, TypeReferenceNode } from "ts-morph";
 import { mapType } from "../helpers/utils.js";
-import { HosbySchema } from "../types/types.js";
+import logger from "../helpers/logger.js";
+import {
+  findScanConfigFiles,
+  findScanFiles,
+  getScannedFilePath,
+  loadScanProject,
+} from "./tsProject.js";
+import { collectValidatorModels, getClassValidatorConstraints } from "./validatorSchemas.js";
+import {
+  collectFixtureSources,
+  collectMockSources,
+  inferSampleColumns,
+  reviveSampleRecords,
+} from "./sampleData.js";
+import { OPENAPI_EXTENSIONS, readOpenApiDocuments } from "./importers/openapi.js";
+import { GRAPHQL_EXTENSIONS, readGraphQLSchemas } from "./importers/graphql.js";
+import { buildImportedSchema } from "./importers/common.js";
+import { ignorePatterns } from "../helpers/ignoreFiles.js";
+import { DEFAULT_TABLE_NAMING, toTableName } from "../helpers/naming.js";
+import { getRelationColumn, ModelReference } from "../helpers/relations.js";
+import { recordTableSource } from "../helpers/provenance.js";
+import {
+  getCachedResult,
+  hashContent,
+  openFileCache,
+  saveFileCache,
+  setCachedResult,
+} from "../helpers/fileCache.js";
+import {
+  ColumnDefinition,
+  HosbySchema,
+  ImportedModel,
+  ImportFormat,
+  ProvenanceKind,
+  ProvenanceSource,
+  ScanProjectOptions,
+  SchemaProvenance,
+  SourceLocation,
+  TableNamingStrategy,
+} from "../types/types.js";
+
+/**
+ * A property extracted from a model declaration
+ * @property {string} name - Property name
+ * @property {Type} type - Resolved property type
+ * @property {boolean} optional - Whether the property is optional in the resolved type
+ * @property {unknown} [defaultValue] - Literal initializer of class properties
+ * @property {HosbyAnnotations} annotations - `@hosby.*` JSDoc tags of the property
+ * @property {Partial<ColumnDefinition>} constraints - Constraints from class-validator decorators
+ * @property {SourceLocation} [location] - Where the property is declared
+ */
+type ScannedProperty = {
+  name: string;
+  type: Type;
+  optional: boolean;
+  defaultValue?: unknown;
+  annotations: HosbyAnnotations;
+  constraints: Partial<ColumnDefinition>;
+  location?: SourceLocation;
+};
+
+/**
+ * `@hosby.*` JSDoc tags of a declaration, indexed by tag name
+ * @description Tags without a value such as `@hosby.unique` are stored as `true`
+ */
+type HosbyAnnotations = Record<string, string | true>;
+
+/**
+ * A model declaration, with its properties described as columns
+ * @description Extractions hold no ts-morph nodes, so they can be cached between scans
+ * @property {string} key - Key of the declaration, see `getDeclarationKey`
+ * @property {string} name - Declaration name
+ * @property {HosbyAnnotations} annotations - `@hosby.*` JSDoc tags of the declaration
+ * @property {ExtractedProperty[]} properties - Properties of the model
+ * @property {SourceLocation} location - Where the model is declared
+ */
+type ExtractedModel = {
+  key: string;
+  name: string;
+  annotations: HosbyAnnotations;
+  properties: ExtractedProperty[];
+  location: SourceLocation;
+};
+
+/**
+ * A model property described as a column
+ * @property {string} name - Property name
+ * @property {ColumnDefinition} column - Column descriptor, used unless the property is a relation
+ * @property {Partial<ColumnDefinition>} modifiers - Optionality, nullability, default value and
+ * constraints, added to the relation column of a reference
+ * @property {HosbyAnnotations} annotations - `@hosby.*` JSDoc tags of the property
+ * @property {string[]} [targets] - Keys of the declarations the property type may reference
+ * @property {boolean} [many] - Whether the property holds an array of the referenced type
+ * @property {SourceLocation} [location] - Where the property is declared, possibly in a parent
+ * declaration
+ */
+type ExtractedProperty = {
+  name: string;
+  column: ColumnDefinition;
+  modifiers: Partial<ColumnDefinition>;
+  annotations: HosbyAnnotations;
+  targets?: string[];
+  many?: boolean;
+  location?: SourceLocation;
+};
+
+/**
+ * A Zod, Yup or Valibot object schema described as columns
+ * @property {string} name - Model name derived from the variable
+ * @property {HosbyAnnotations} annotations - `@hosby.*` JSDoc tags of the variable statement
+ * @property {Record<string, ColumnDefinition>} columns - Column descriptors of the schema fields
+ * @property {SourceLocation} location - Where the schema is declared
+ */
+type ExtractedValidator = {
+  name: string;
+  annotations: HosbyAnnotations;
+  columns: Record<string, ColumnDefinition>;
+  location: SourceLocation;
+};
+
+/**
+ * Records of a mock array or fixture
+ * @property {string} name - Model name derived from the variable, file or key name
+ * @property {HosbyAnnotations} annotations - `@hosby.*` JSDoc tags of a mock array
+ * @property {unknown[]} records - Sample records, with opaque samples serialized once cached
+ * @property {SourceLocation} [location] - Where the records are declared
+ */
+type ExtractedSamples = {
+  name: string;
+  annotations: HosbyAnnotations;
+  records: unknown[];
+  location?: SourceLocation;
+};
+
+/**
+ * Everything a scan reads from one source file
+ * @property {ExtractedModel[]} models - Interfaces, model type aliases and classes
+ * @property {ExtractedValidator[]} validators - Validator object schemas
+ * @property {ExtractedSamples[]} mocks - Mock arrays
+ */
+type FileExtraction = {
+  models: ExtractedModel[];
+  validators: ExtractedValidator[];
+  mocks: ExtractedSamples[];
+};
+
+/**
+ * Version of the extraction format, part of the scan cache key so extractions cached by another
+ * version of the scanner are not reused
+ */
+const SCAN_CACHE_VERSION = 2;
 
-export async function scanProject(path: string): Promise<HosbySchema> {
+/**
+ * Utility types whose aliases reshape an existing model, such as DTOs, instead of declaring one
+ */
+const DERIVED_TYPE_UTILITIES = ["Omit", "Pick", "Partial", "Required", "Readonly"];
+
+/**
+ * Scans a project with the TypeScript analyzer and extracts data models
+ * @description Interfaces, object type aliases (including `z.infer` aliases) and classes become
+ * tables whose columns are descriptors carrying optionality, nullability, defaults, array element
+ * types and enum values (from enums and literal unions). Properties are read
+ * from the resolved type, so `extends` chains, intersections and utility types are flattened.
+ * Aliases of another model or of a utility type over it, such as `Partial<User>`, are skipped.
+ * Properties typed with another scanned model become relation columns, and `@hosby.*` JSDoc tags
+ * override table names and add column metadata. Types resolve through the project's tsconfig.json
+ * and workspace packages. Zod, Yup and Valibot object schemas also become tables, and
+ * class-validator decorators add constraints to class columns. OpenAPI documents and GraphQL SDL
+ * files add the tables of the API contract. Tables nothing else describes are inferred from
+ * JSON/NDJSON fixtures and `mockX` arrays. Source file extractions are cached under
+ * `.hosby/cache`, so only the files that changed since the last scan, or whose imports changed,
+ * are analysed again. The file, declaration and line each table and column comes from are recorded
+ * in `options.provenance`
+ * @param {string} path - Path to scan for project files
+ * @param {ScanProjectOptions} [options] - Scan options such as the table naming strategy
+ * @returns {Promise<HosbySchema>} Extracted schema
+ */
+export async function scanProject(
+  path: string,
+  options: ScanProjectOptions = {}
+): Promise<HosbySchema> {
   const schema: HosbySchema = { tables: {} };
 
-  const project = new Project();
-  const tsFiles = globSync(`${path}/**/*.{ts,tsx,js,jsx,vue,svelte,json}`, {
-    ignore: ignorePatterns,
+  const naming = options.naming || DEFAULT_TABLE_NAMING;
+  const provenance = options.provenance || { scanner: "static", tables: {} };
+  const extractions = extractProjectFiles(path, options.cache !== false);
+
+  const annotatedTables = [
+    ...addModelTables(
+      schema,
+      extractions.flatMap(extraction => extraction.models),
+      naming,
+      provenance
+    ),
+    ...addValidatorTables(
+      schema,
+      extractions.flatMap(extraction => extraction.validators),
+      naming,
+      provenance
+    ),
+    ...addContractTables(schema, path, naming, provenance),
+    ...addSampleTables(
+      schema,
+      path,
+      extractions.flatMap(extraction => extraction.mocks),
+      naming,
+      provenance
+    ),
+  ];
+  if (annotatedTables.length > 0) {
+    schema.metadata = { annotatedTables };
+  }
+
+  return schema;
+}
+
+/**
+ * Extracts the models, validators and mock arrays of the source files of a project
+ * @description Files whose content and dependencies are unchanged since the last scan are read
+ * from the scan cache; the TypeScript project is only loaded when some file must be analysed. A
+ * file's dependencies are the project files it imports, directly or not, and the declaration
+ * files of the project. Changing tsconfig.json or the workspace manifest clears the cache
+ * @param {string} scanPath - Path to scan for project files
+ * @param {boolean} useCache - Whether cached extractions may be reused; the cache is refreshed
+ * either way
+ * @returns {FileExtraction[]} Extractions of the scanned files, in scan order
+ */
+function extractProjectFiles(scanPath: string, useCache: boolean): FileExtraction[] {
+  const scanFiles = findScanFiles(scanPath);
+  const configHash = hashContent(
+    findScanConfigFiles(scanPath)
+      .map(file => `${file}\n${fs.readFileSync(file, "utf-8")}`)
+      .join("\n")
+  );
+  // Files outside the TypeScript project, e.g. excluded by tsconfig.json, are cached as null
+  const cache = openFileCache<FileExtraction | null>(
+    scanPath,
+    "scan",
+    `${SCAN_CACHE_VERSION}:${configHash}`
+  );
+
+  const extractions = new Map<string, FileExtraction | null>();
+  if (useCache) {
+    scanFiles.forEach(file => {
+      const cached = getCachedResult(cache, file);
+      if (cached !== undefined) extractions.set(file, cached);
+    });
+  }
+
+  if (extractions.size < scanFiles.length) {
+    const { files } = loadScanProject(scanPath, scanFiles);
+    const declarationFiles = files.filter(file => file.isDeclarationFile()).map(getScannedFilePath);
+
+    let analysed = 0;
+    files.forEach(file => {
+      const filePath = getScannedFilePath(file);
+      if (extractions.has(filePath)) return;
+
+      analysed++;
+      const extraction = extractSourceFile(file);
+      extractions.set(filePath, extraction);
+      setCachedResult(cache, filePath, extraction, [
+        ...getFileDependencies(file),
+        ...declarationFiles,
+      ]);
+    });
+
+    scanFiles
+      .filter(file => !extractions.has(file))
+      .forEach(file => {
+        extractions.set(file, null);
+        setCachedResult(cache, file, null);
+      });
+
+    logger.debug(`Analysed ${analysed} of ${files.length} source files`);
+  }
+
+  saveFileCache(cache);
+
+  return scanFiles
+    .map(file => extractions.get(file))
+    .filter((extraction): extraction is FileExtraction => !!extraction);
+}
+
+/**
+ * Lists the project files a source file depends on through its imports, directly or not
+ * @param {SourceFile} file - Scanned source file
+ * @returns {string[]} Paths of the imported files, except those of installed packages
+ */
+function getFileDependencies(file: SourceFile): string[] {
+  const dependencies = new Set<SourceFile>();
+
+  const visit = (current: SourceFile) => {
+    current.getReferencedSourceFiles().forEach(referenced => {
+      if (
+        dependencies.has(referenced) ||
+        referenced.isInNodeModules() ||
+        referenced.isFromExternalLibrary()
+      ) {
+        return;
+      }
+      dependencies.add(referenced);
+      visit(referenced);
+    });
+  };
+  visit(file);
+
+  return [...dependencies].map(getScannedFilePath);
+}
+
+/**
+ * Extracts the models, validator schemas and mock arrays of a source file
+ * @description Declarations tagged `@hosby.ignore` are skipped
+ * @param {SourceFile} file - Scanned source file
+ * @returns {FileExtraction} Extraction of the file
+ */
+function extractSourceFile(file: SourceFile): FileExtraction {
+  const extraction: FileExtraction = { models: [], validators: [], mocks: [] };
+
+  const addModel = (name: string, declaration: Node, type: Type) => {
+    const annotations = getHosbyAnnotations(declaration);
+    if (annotations.ignore) return;
+
+    extraction.models.push({
+      key: getDeclarationKey(declaration) || name,
+      name,
+      annotations,
+      properties: getTypeProperties(type, declaration).map(extractProperty),
+      location: getSourceLocation(declaration, name),
+    });
+  };
+
+  file.getInterfaces().forEach(intf => addModel(intf.getName(), intf, intf.getType()));
+
+  file.getTypeAliases().forEach(alias => {
+    if (isModelTypeAlias(alias)) {
+      addModel(alias.getName(), alias, alias.getType());
+    }
   });
 
-  project.addSourceFilesAtPaths(tsFiles);
+  file.getClasses().forEach(cls => {
+    const name = cls.getName();
+    if (name) {
+      addModel(name, cls, cls.getType());
+    }
+  });
 
-  project.getSourceFiles().forEach(file => {
-    file.getInterfaces().forEach(intf => {
-      const tableName = intf.getName().toLowerCase() + "s";
-      schema.tables[tableName] = {};
+  collectValidatorModels([file]).forEach(model => {
+    const annotations = getHosbyAnnotations(model.statement);
+    if (!annotations.ignore) {
+      extraction.validators.push({
+        name: model.name,
+        annotations,
+        columns: model.columns,
+        location: getSourceLocation(model.declaration, model.declaration.getName()),
+      });
+    }
+  });
 
-      intf.getProperties().forEach(prop => {
-        const name = prop.getName();
-        const type = prop.getType().getText();
-        schema.tables[tableName][name] = mapType(type);
+  collectMockSources([file]).forEach(source => {
+    const annotations = source.statement ? getHosbyAnnotations(source.statement) : {};
+    if (!annotations.ignore) {
+      extraction.mocks.push({
+        name: source.name,
+        annotations,
+        records: source.records,
+        ...(source.declaration && {
+          location: getSourceLocation(source.declaration, source.declaration.getName()),
+        }),
       });
+    }
+  });
+
+  return extraction;
+}
+
+/**
+ * Describes a property as a column, keeping the declarations its type may reference
+ * @param {ScannedProperty} prop - Property to describe
+ * @returns {ExtractedProperty} Extracted property
+ */
+function extractProperty(prop: ScannedProperty): ExtractedProperty {
+  return {
+    name: prop.name,
+    column: applyColumnAnnotations(
+      { ...getColumnDefinition(prop), ...prop.constraints },
+      prop.annotations
+    ),
+    modifiers: { ...getColumnModifiers(prop), ...prop.constraints },
+    annotations: prop.annotations,
+    ...getReferenceTargets(prop),
+    ...(prop.location && { location: prop.location }),
+  };
+}
+
+/**
+ * Adds the tables of the scanned models to a schema
+ * @description Properties referencing another model become relation columns
+ * @param {HosbySchema} schema - Schema to complete
+ * @param {ExtractedModel[]} models - Models of the scanned files
+ * @param {TableNamingStrategy} naming - Strategy used to name tables
+ * @param {SchemaProvenance} provenance - Provenance to complete
+ * @returns {string[]} Names of the tables tagged `@hosby.table`
+ */
+function addModelTables(
+  schema: HosbySchema,
+  models: ExtractedModel[],
+  naming: TableNamingStrategy,
+  provenance: SchemaProvenance
+): string[] {
+  const getTableName = (model: ExtractedModel) =>
+    typeof model.annotations.table === "string"
+      ? model.annotations.table
+      : toTableName(model.name, naming);
+  const tablesByDeclaration = new Map(models.map(model => [model.key, getTableName(model)]));
+
+  const referencesByTable = new Map<string, ModelReference[]>();
+  models.forEach(model => {
+    const references = model.properties
+      .map(prop => findModelReference(prop, tablesByDeclaration))
+      .filter((reference): reference is ModelReference => reference !== null);
+    referencesByTable.set(getTableName(model), references);
+  });
+
+  models.forEach(model => {
+    const tableName = getTableName(model);
+    const references = referencesByTable.get(tableName) || [];
+    schema.tables[tableName] = {};
+
+    model.properties.forEach(prop => {
+      const reference = references.find(ref => ref.property === prop.name);
+      schema.tables[tableName][prop.name] = reference
+        ? applyColumnAnnotations(
+            {
+              ...getRelationColumn(tableName, reference, referencesByTable),
+              ...prop.modifiers,
+            },
+            prop.annotations
+          )
+        : prop.column;
     });
+
+    recordTableSource(
+      provenance,
+      tableName,
+      { kind: "declaration", ...model.location },
+      Object.fromEntries(model.properties.map(prop => [prop.name, prop.location]))
+    );
   });
 
-  return schema;
+  return models.filter(model => model.annotations.table !== undefined).map(getTableName);
+}
+
+/**
+ * Adds the tables of the Zod, Yup and Valibot object schemas of a project to a schema
+ * @description A schema whose table already exists, e.g. through a `z.infer` alias, only adds its
+ * constraints to the existing columns
+ * @param {HosbySchema} schema - Schema to complete
+ * @param {ExtractedValidator[]} validators - Validator schemas of the scanned files
+ * @param {TableNamingStrategy} naming - Strategy used to name tables
+ * @param {SchemaProvenance} provenance - Provenance to complete
+ * @returns {string[]} Names of the tables tagged `@hosby.table`
+ */
+function addValidatorTables(
+  schema: HosbySchema,
+  validators: ExtractedValidator[],
+  naming: TableNamingStrategy,
+  provenance: SchemaProvenance
+): string[] {
+  const annotatedTables: string[] = [];
+
+  validators.forEach(({ name, annotations, columns, location }) => {
+    const tableName =
+      typeof annotations.table === "string" ? annotations.table : toTableName(name, naming);
+    const table = schema.tables[tableName] || {};
+
+    // Columns already declared keep the declaration as their source
+    recordTableSource(
+      provenance,
+      tableName,
+      { kind: "validator", ...location },
+      Object.fromEntries(
+        Object.keys(columns)
+          .filter(columnName => !(columnName in table))
+          .map(columnName => [columnName, undefined])
+      )
+    );
+
+    for (const [columnName, column] of Object.entries(columns)) {
+      const existing = table[columnName];
+      table[columnName] = typeof existing === "object" ? { ...column, ...existing } : column;
+    }
+
+    schema.tables[tableName] = table;
+    if (annotations.table !== undefined) {
+      annotatedTables.push(tableName);
+    }
+  });
+
+  return annotatedTables;
+}
+
+/**
+ * Adds the tables of the OpenAPI documents and GraphQL SDL files of a project to a schema
+ * @description Contract columns replace the columns of the same name read from declarations, so the
+ * schema matches the API; columns only declared in the code are kept. Contract tables are returned
+ * as annotated, like imported tables, so the UI component heuristics keep them
+ * @param {HosbySchema} schema - Schema to complete
+ * @param {string} scanPath - Scanned directory
+ * @param {TableNamingStrategy} naming - Strategy used to name tables
+ * @param {SchemaProvenance} provenance - Provenance to complete
+ * @returns {string[]} Names of the contract tables
+ */
+function addContractTables(
+  schema: HosbySchema,
+  scanPath: string,
+  naming: TableNamingStrategy,
+  provenance: SchemaProvenance
+): string[] {
+  const findFiles = (extensions: string) =>
+    globSync(`${scanPath}/**/*.${extensions}`, { ignore: ignorePatterns });
+  const contracts: Array<[ImportFormat, ImportedModel[]]> = [
+    ["openapi", readOpenApiDocuments(findFiles(OPENAPI_EXTENSIONS))],
+    ["graphql", readGraphQLSchemas(findFiles(GRAPHQL_EXTENSIONS))],
+  ];
+
+  const contractTables: string[] = [];
+  contracts.forEach(([format, models]) => {
+    if (models.length === 0) return;
+
+    const { tables } = buildImportedSchema(models, format, naming);
+    for (const [tableName, columns] of Object.entries(tables)) {
+      schema.tables[tableName] = { ...schema.tables[tableName], ...columns };
+      contractTables.push(tableName);
+    }
+
+    models.forEach(model => {
+      const tableName = model.tableName || toTableName(model.name, naming);
+      if (!model.location || !tables[tableName]) return;
+
+      recordTableSource(
+        provenance,
+        tableName,
+        { kind: format as ProvenanceKind, ...model.location },
+        Object.fromEntries(Object.keys(tables[tableName]).map(column => [column, undefined]))
+      );
+    });
+  });
+
+  return contractTables;
+}
+
+/**
+ * Adds the tables inferred from the fixtures and mock arrays of a project to a schema
+ * @description Records of the sources naming the same table are merged before inference. Tables
+ * already described by a declaration or a validator are left untouched
+ * @param {HosbySchema} schema - Schema to complete
+ * @param {string} scanPath - Scanned directory
+ * @param {ExtractedSamples[]} mocks - Mock arrays of the scanned files
+ * @param {TableNamingStrategy} naming - Strategy used to name tables
+ * @param {SchemaProvenance} provenance - Provenance to complete
+ * @returns {string[]} Names of the tables tagged `@hosby.table`
+ */
+function addSampleTables(
+  schema: HosbySchema,
+  scanPath: string,
+  mocks: ExtractedSamples[],
+  naming: TableNamingStrategy,
+  provenance: SchemaProvenance
+): string[] {
+  const declaredTables = new Set(Object.keys(schema.tables));
+  const recordsByTable = new Map<string, Record<string, unknown>[]>();
+  const sourcesByTable = new Map<string, ProvenanceSource[]>();
+  const annotatedTables: string[] = [];
+
+  const fixtures: ExtractedSamples[] = collectFixtureSources(scanPath).map(source => ({
+    name: source.name,
+    annotations: {},
+    records: source.records,
+    location: source.location,
+  }));
+  const fixtureCount = fixtures.length;
+
+  [...fixtures, ...mocks].forEach(({ name, annotations, records, location }, index) => {
+    const tableName =
+      typeof annotations.table === "string" ? annotations.table : toTableName(name, naming);
+    if (declaredTables.has(tableName)) return;
+
+    recordsByTable.set(tableName, [
+      ...(recordsByTable.get(tableName) || []),
+      ...reviveSampleRecords(records),
+    ]);
+    if (location) {
+      sourcesByTable.set(tableName, [
+        ...(sourcesByTable.get(tableName) || []),
+        { kind: index < fixtureCount ? "fixture" : "mock", ...location },
+      ]);
+    }
+    if (annotations.table !== undefined && !annotatedTables.includes(tableName)) {
+      annotatedTables.push(tableName);
+    }
+  });
+
+  recordsByTable.forEach((records, tableName) => {
+    schema.tables[tableName] = inferSampleColumns(records);
+
+    const columns = Object.keys(schema.tables[tableName]);
+    (sourcesByTable.get(tableName) || []).forEach(source =>
+      recordTableSource(
+        provenance,
+        tableName,
+        source,
+        Object.fromEntries(columns.map(column => [column, undefined]))
+      )
+    );
+  });
+
+  return annotatedTables;
+}
+
+/**
+ * Determines if a type alias describes an object model
+ * @description Accepts object literals, intersections, mapped types and references such as
+ * `Omit<User, "password">` or `z.infer<typeof schema>`, but not primitives, unions, arrays or
+ * function types
+ * @param {TypeAliasDeclaration} alias - Type alias declaration
+ * @returns {boolean} True if the alias resolves to an object model
+ */
+function isModelTypeAlias(alias: TypeAliasDeclaration): boolean {
+  let typeNode = alias.getTypeNode();
+  while (typeNode && Node.isParenthesizedTypeNode(typeNode)) {
+    typeNode = typeNode.getTypeNode();
+  }
+
+  if (
+    !typeNode ||
+    !(
+      Node.isTypeLiteral(typeNode) ||
+      Node.isIntersectionTypeNode(typeNode) ||
+      Node.isMappedTypeNode(typeNode) ||
+      Node.isTypeReference(typeNode)
+    )
+  ) {
+    return false;
+  }
+
+  // Derived aliases such as `Omit<User, "id">` or `User` itself reshape an existing model
+  if (Node.isTypeReference(typeNode) && isDerivedTypeReference(typeNode)) {
+    return false;
+  }
+
+  const type = alias.getType();
+  if (!type.isObject() && !type.isIntersection()) return false;
+
+  return !type.isArray() && !type.isTuple() && type.getCallSignatures().length === 0;
+}
+
+/**
+ * Determines if a type reference derives from another model
+ * @param {TypeReferenceNode} typeNode - Type of an alias
+ * @returns {boolean} True for utility types and for references to interfaces, classes or type
+ * aliases declared in the project
+ */
+function isDerivedTypeReference(typeNode: TypeReferenceNode): boolean {
+  const typeName = typeNode.getTypeName();
+  if (DERIVED_TYPE_UTILITIES.includes(typeName.getText())) return true;
+
+  const symbol = typeName.getSymbol();
+  const declarations = (symbol?.getAliasedSymbol() ?? symbol)?.getDeclarations() ?? [];
+  return declarations.some(
+    declaration =>
+      (Node.isInterfaceDeclaration(declaration) ||
+        Node.isClassDeclaration(declaration) ||
+        Node.isTypeAliasDeclaration(declaration)) &&
+      !declaration.getSourceFile().isDeclarationFile()
+  );
+}
+
+/**
+ * Extracts the data properties of a resolved object type
+ * @description Inherited and intersected members are included; methods, static members and
+ * non-public class members are skipped
+ * @param {Type} type - Resolved type of the declaration
+ * @param {Node} node - Declaration used as location to resolve property types
+ * @returns {ScannedProperty[]} Properties of the type
+ */
+function getTypeProperties(type: Type, node: Node): ScannedProperty[] {
+  return type
+    .getProperties()
+    .filter(symbol => !symbol.getName().startsWith("#") && !symbol.getName().startsWith("__"))
+    .filter(symbol => symbol.getDeclarations().every(isDataMember))
+    .map(symbol => ({
+      name: symbol.getName(),
+      type: symbol.getTypeAtLocation(node),
+      optional: symbol.isOptional(),
+      defaultValue: getDefaultValue(symbol.getValueDeclaration()),
+      annotations: symbol
+        .getDeclarations()
+        .reduce<HosbyAnnotations>(
+          (annotations, declaration) => ({ ...annotations, ...getHosbyAnnotations(declaration) }),
+          {}
+        ),
+      constraints: getClassValidatorConstraints(symbol.getDeclarations()),
+      location: getSourceLocation(symbol.getDeclarations()[0] || node),
+    }))
+    .filter(prop => !prop.annotations.ignore);
+}
+
+/**
+ * Determines if a member declaration holds data rather than behaviour
+ * @param {Node} declaration - Member declaration
+ * @returns {boolean} True for public properties and parameter properties
+ */
+function isDataMember(declaration: Node): boolean {
+  if (
+    Node.isMethodDeclaration(declaration) ||
+    Node.isMethodSignature(declaration) ||
+    Node.isGetAccessorDeclaration(declaration) ||
+    Node.isSetAccessorDeclaration(declaration)
+  ) {
+    return false;
+  }
+
+  if (Node.isPropertyDeclaration(declaration)) {
+    return !declaration.isStatic() && declaration.getScope() === Scope.Public;
+  }
+
+  if (Node.isParameterDeclaration(declaration)) {
+    return declaration.getScope() === Scope.Public;
+  }
+
+  return true;
+}
+
+/**
+ * Lists the declarations a property may reference, directly or through an array
+ * @param {ScannedProperty} prop - Property to inspect
+ * @returns {Pick<ExtractedProperty, "targets" | "many">} Keys of the declarations of the property
+ * type, empty if the type has no named declaration
+ */
+function getReferenceTargets(prop: ScannedProperty): Pick<ExtractedProperty, "targets" | "many"> {
+  let type = prop.type.getNonNullableType();
+  const elementType = type.getArrayElementType();
+  const many = elementType !== undefined;
+  if (elementType) {
+    type = elementType.getNonNullableType();
+  }
+
+  const targets = [type.getAliasSymbol(), type.getSymbol()]
+    .flatMap(symbol => symbol?.getDeclarations() || [])
+    .map(getDeclarationKey)
+    .filter((key): key is string => key !== undefined);
+
+  return targets.length > 0 ? { targets, many } : {};
+}
+
+/**
+ * Finds the scanned model referenced by a property
+ * @param {ExtractedProperty} prop - Property to inspect
+ * @param {Map<string, string>} tablesByDeclaration - Table names indexed by declaration key
+ * @returns {ModelReference | null} Reference, or null if the property is not a model reference
+ */
+function findModelReference(
+  prop: ExtractedProperty,
+  tablesByDeclaration: Map<string, string>
+): ModelReference | null {
+  for (const key of prop.targets || []) {
+    const target = tablesByDeclaration.get(key);
+    if (target) {
+      return { property: prop.name, target, many: prop.many === true };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Locates a node in the scanned sources
+ * @param {Node} node - Declaration node
+ * @param {string} [declaration] - Declaration name
+ * @returns {SourceLocation} File, line and declaration name; component files are located by their
+ * path, with lines counted from their script block
+ */
+function getSourceLocation(node: Node, declaration?: string): SourceLocation {
+  return {
+    file: getScannedFilePath(node.getSourceFile()),
+    line: node.getStartLineNumber(),
+    ...(declaration && { declaration }),
+  };
+}
+
+/**
+ * Builds the key identifying an interface, type alias or class across scans
+ * @param {Node} declaration - Declaration
+ * @returns {string | undefined} `<file>#<name>`, or undefined for other or anonymous declarations
+ */
+function getDeclarationKey(declaration: Node): string | undefined {
+  if (
+    !Node.isInterfaceDeclaration(declaration) &&
+    !Node.isTypeAliasDeclaration(declaration) &&
+    !Node.isClassDeclaration(declaration)
+  ) {
+    return undefined;
+  }
+
+  const name = declaration.getName();
+  return name ? `${declaration.getSourceFile().getFilePath()}#${name}` : undefined;
+}
+
+/**
+ * Builds the column descriptor of a property
+ * @param {ScannedProperty} prop - Property to describe
+ * @returns {ColumnDefinition} Column descriptor
+ */
+function getColumnDefinition(prop: ScannedProperty): ColumnDefinition {
+  const { type, ...details } = getValueType(prop.type.getNonNullableType());
+  return { type, ...getColumnModifiers(prop), ...details };
+}
+
+/**
+ * Reads the optionality, nullability and default value of a property
+ * @param {ScannedProperty} prop - Property to inspect
+ * @returns {Partial<ColumnDefinition>} Column modifiers
+ */
+function getColumnModifiers(prop: ScannedProperty): Partial<ColumnDefinition> {
+  const modifiers: Partial<ColumnDefinition> = { required: !prop.optional };
+
+  const types = prop.type.isUnion() ? prop.type.getUnionTypes() : [prop.type];
+  if (types.some(type => type.isNull())) {
+    modifiers.nullable = true;
+  }
+
+  if (prop.defaultValue !== undefined) {
+    modifiers.default = prop.defaultValue;
+  }
+
+  return modifiers;
+}
+
+/**
+ * Maps a resolved, non-nullable type to a Hosby column type
+ * @description Enums and literal unions become enum columns and arrays keep their element type
+ * @param {Type} type - Resolved property type
+ * @returns {ColumnDefinition} Column type with its `items` or `enum` details
+ */
+export function getValueType(type: Type): ColumnDefinition {
+  const enumValues = getEnumValues(type) || getLiteralUnionValues(type);
+  if (enumValues) {
+    return { type: "enum", enum: enumValues };
+  }
+
+  const elementType = type.getArrayElementType();
+  if (elementType) {
+    const { type: items, ...details } = getValueType(elementType.getNonNullableType());
+    return { type: "array", items, ...details };
+  }
+
+  if (type.isString() || type.isStringLiteral() || type.isTemplateLiteral()) {
+    return { type: "string" };
+  }
+
+  if (type.isNumber() || type.isNumberLiteral()) {
+    return { type: "number" };
+  }
+
+  if (type.isBoolean() || type.isBooleanLiteral()) {
+    return { type: "boolean" };
+  }
+
+  if (type.getSymbol()?.getName() === "Date") {
+    return { type: "date" };
+  }
+
+  if (type.isObject() || type.isIntersection()) {
+    return { type: "object" };
+  }
+
+  return { type: mapType(type.getText()) };
+}
+
+/**
+ * Reads the member values of a TypeScript enum type
+ * @param {Type} type - Resolved property type
+ * @returns {Array<string | number> | null} Enum values, or null if the type is not an enum
+ */
+function getEnumValues(type: Type): Array<string | number> | null {
+  const target = type.isEnumLiteral() ? type.getBaseTypeOfLiteralType() : type;
+  if (!target.isEnum()) return null;
+
+  const declaration = target
+    .getSymbol()
+    ?.getDeclarations()
+    .find(decl => Node.isEnumDeclaration(decl));
+
+  if (!declaration || !Node.isEnumDeclaration(declaration)) return null;
+
+  return declaration.getMembers().map(member => {
+    const value = member.getValue();
+    return value === undefined ? member.getName() : value;
+  });
+}
+
+/**
+ * Reads the values of a union of string or number literals such as `"draft" | "published"`
+ * @param {Type} type - Resolved property type
+ * @returns {Array<string | number> | null} Literal values, or null if the type is not such a union
+ */
+function getLiteralUnionValues(type: Type): Array<string | number> | null {
+  if (!type.isUnion() || type.isBoolean()) return null;
+
+  const members = type.getUnionTypes();
+  if (!members.every(member => member.isStringLiteral() || member.isNumberLiteral())) {
+    return null;
+  }
+
+  return members.map(member => member.getLiteralValue() as string | number);
+}
+
+/**
+ * Reads the literal initializer of a class property or constructor parameter property
+ * @param {Node | undefined} declaration - Value declaration of the property
+ * @returns {unknown} Default value, or undefined if there is no literal initializer
+ */
+function getDefaultValue(declaration: Node | undefined): unknown {
+  if (
+    !declaration ||
+    !(Node.isPropertyDeclaration(declaration) || Node.isParameterDeclaration(declaration))
+  ) {
+    return undefined;
+  }
+
+  const initializer = declaration.getInitializer();
+  if (!initializer) return undefined;
+
+  if (
+    Node.isStringLiteral(initializer) ||
+    Node.isNoSubstitutionTemplateLiteral(initializer) ||
+    Node.isNumericLiteral(initializer) ||
+    Node.isTrueLiteral(initializer) ||
+    Node.isFalseLiteral(initializer)
+  ) {
+    return initializer.getLiteralValue();
+  }
+
+  if (Node.isNullLiteral(initializer)) {
+    return null;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the `@hosby.*` tags from the JSDoc comments of a declaration
+ * @example
+ * // "@hosby.table orders" and "@hosby.unique" give { table: "orders", unique: true }
+ * @param {Node} node - Declaration to read
+ * @returns {HosbyAnnotations} Tags found on the declaration
+ */
+function getHosbyAnnotations(node: Node): HosbyAnnotations {
+  const annotations: HosbyAnnotations = {};
+  if (!Node.isJSDocable(node)) return annotations;
+
+  node.getJsDocs().forEach(doc => {
+    for (const match of doc.getText().matchAll(/@hosby\.(\w+)[ \t]*([^\r\n*@]*)/g)) {
+      const value = match[2].trim();
+      annotations[match[1]] = value.length > 0 ? value : true;
+    }
+  });
+
+  return annotations;
+}
+
+/**
+ * Applies the `@hosby.*` tags of a property to its column descriptor
+ * @description Supports `unique`, `index`, `required`, `optional`, `nullable`, `default <value>`,
+ * `minLength <n>`, `maxLength <n>`, `min <n>` and `max <n>`
+ * @param {ColumnDefinition} column - Column descriptor built from the property type
+ * @param {HosbyAnnotations} annotations - Tags of the property
+ * @returns {ColumnDefinition} Annotated column descriptor
+ */
+function applyColumnAnnotations(
+  column: ColumnDefinition,
+  annotations: HosbyAnnotations
+): ColumnDefinition {
+  const annotated: ColumnDefinition = { ...column };
+
+  for (const [tag, value] of Object.entries(annotations)) {
+    switch (tag) {
+      case "unique":
+      case "index":
+      case "nullable":
+        annotated[tag] = true;
+        break;
+      case "required":
+        annotated.required = true;
+        break;
+      case "optional":
+        annotated.required = false;
+        break;
+      case "default":
+        annotated.default = value === true ? null : parseAnnotationValue(value);
+        break;
+      case "minLength":
+      case "maxLength":
+      case "min":
+      case "max":
+        if (value !== true && Number.isFinite(Number(value))) {
+          annotated[tag] = Number(value);
+        }
+        break;
+      case "table":
+      case "ignore":
+        break;
+      default:
+        logger.debug(`Unknown annotation @hosby.${tag} ignored`);
+    }
+  }
+
+  return annotated;
+}
+
+/**
+ * Parses the value of an annotation as JSON, falling back to the raw string
+ * @param {string} value - Raw annotation value, e.g. `0`, `true`, `"guest"` or `now`
+ * @returns {unknown} Parsed value
+ */
+function parseAnnotationValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
 }
@@ -0,0 +1,289 @@
+import fs from "fs";
+import path from "path";
+import { globSync } from "glob";
+import { parse } from "yaml";
+import { CompilerOptions, Project, SourceFile, ts } from "ts-morph";
+import logger from "../helpers/logger.js";
+import { ignorePatterns } from "../helpers/ignoreFiles.js";
+import {
+  addComponentSourceFiles,
+  COMPONENT_EXTENSIONS,
+  isComponentFile,
+} from "./componentScripts.js";
+
+/**
+ * A ts-morph project prepared for a scan
+ * @property {Project} project - Project holding the scanned files and their dependencies
+ * @property {SourceFile[]} files - Files under the scan path to extract models from
+ * @property {string} [tsConfigPath] - tsconfig.json the project was loaded from
+ */
+export type ScanProject = {
+  project: Project;
+  files: SourceFile[];
+  tsConfigPath?: string;
+};
+
+/**
+ * Options every scan project is created with, on top of the project's own compiler options
+ */
+const SCAN_COMPILER_OPTIONS: CompilerOptions = {
+  strictNullChecks: true,
+  noEmit: true,
+};
+
+/**
+ * Finds the source files and components under a scan path
+ * @param {string} scanPath - Path to scan for project files
+ * @returns {string[]} Absolute paths of the TypeScript, JavaScript, JSON and component files
+ */
+export function findScanFiles(scanPath: string): string[] {
+  return globSync(`${scanPath}/**/*.{ts,tsx,js,jsx,vue,svelte,astro,json}`, {
+    ignore: ignorePatterns,
+  }).map(file => path.resolve(file));
+}
+
+/**
+ * Finds the configuration files that change how the files of a scan path resolve
+ * @param {string} scanPath - Path to scan for project files
+ * @returns {string[]} Paths of the nearest tsconfig.json and of the workspace manifest, if any
+ */
+export function findScanConfigFiles(scanPath: string): string[] {
+  const scanRoot = path.resolve(scanPath);
+  const workspaceRoot = findWorkspaceRoot(scanRoot);
+
+  return [
+    findUp(scanRoot, "tsconfig.json"),
+    workspaceRoot && path.join(workspaceRoot, "pnpm-workspace.yaml"),
+    workspaceRoot && path.join(workspaceRoot, "package.json"),
+  ].filter((file): file is string => !!file && fs.existsSync(file));
+}
+
+/**
+ * Reads the path of the file a scanned source file was read from
+ * @param {SourceFile} file - Scanned source file
+ * @returns {string} Path of the file, or of the component for the virtual file of its scripts
+ */
+export function getScannedFilePath(file: SourceFile): string {
+  const filePath = path.resolve(file.getFilePath());
+  const original = filePath.replace(/\.tsx?$/, "");
+
+  return COMPONENT_EXTENSIONS.includes(path.extname(original)) ? original : filePath;
+}
+
+/**
+ * Creates the ts-morph project used to scan a directory
+ * @description Loads the nearest tsconfig.json (with its `include`/`exclude`, `paths` and project
+ * references) and maps npm, yarn and pnpm workspace packages to their sources, so types imported
+ * through aliases or from sibling packages resolve. Without a tsconfig.json, or when it does not
+ * cover the scan path, the files under the scan path are added directly. The script blocks of Vue,
+ * Svelte and Astro components are added as virtual source files
+ * @param {string} scanPath - Path to scan for project files
+ * @param {string[]} [globbedFiles] - Files under the scan path, when already found
+ * @returns {ScanProject} Project and files to scan
+ */
+export function loadScanProject(
+  scanPath: string,
+  globbedFiles: string[] = findScanFiles(scanPath)
+): ScanProject {
+  const scanRoot = path.resolve(scanPath);
+  const scanFiles = globbedFiles.filter(file => !isComponentFile(file));
+  const scanFileSet = new Set(scanFiles);
+
+  const tsConfigPath = findUp(scanRoot, "tsconfig.json");
+  const parsedConfig = tsConfigPath ? parseTsConfig(tsConfigPath) : null;
+
+  const compilerOptions: CompilerOptions = {
+    ...(parsedConfig?.options || {}),
+    ...SCAN_COMPILER_OPTIONS,
+  };
+
+  const workspacePaths = getWorkspacePaths(scanRoot);
+  if (Object.keys(workspacePaths).length > 0) {
+    compilerOptions.paths = { ...workspacePaths, ...(compilerOptions.paths || {}) };
+  }
+
+  const project = new Project({ compilerOptions });
+
+  if (parsedConfig) {
+    project.addSourceFilesAtPaths(parsedConfig.fileNames);
+    logger.debug(`Loaded ${parsedConfig.fileNames.length} files from ${tsConfigPath}`);
+  }
+
+  let files = project
+    .getSourceFiles()
+    .filter(file => scanFileSet.has(path.resolve(file.getFilePath())));
+
+  if (files.length === 0) {
+    if (parsedConfig) {
+      logger.debug(`${tsConfigPath} does not include ${scanRoot}, scanning files directly`);
+    }
+    files = project.addSourceFilesAtPaths(scanFiles);
+  }
+
+  files.push(...addComponentSourceFiles(project, globbedFiles.filter(isComponentFile)));
+
+  return { project, files, tsConfigPath: parsedConfig && tsConfigPath ? tsConfigPath : undefined };
+}
+
+/**
+ * Finds a file in a directory or its closest parent directory
+ * @param {string} startDir - Directory to start from
+ * @param {string} fileName - Name of the file to find
+ * @param {(filePath: string) => boolean} [accept] - Additional check on a found file
+ * @returns {string | null} Path of the file, or null if it is not found
+ */
+function findUp(
+  startDir: string,
+  fileName: string,
+  accept: (filePath: string) => boolean = () => true
+): string | null {
+  let dir = startDir;
+
+  for (;;) {
+    const candidate = path.join(dir, fileName);
+    if (fs.existsSync(candidate) && accept(candidate)) {
+      return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Parses a tsconfig.json and the project references it points to
+ * @param {string} tsConfigPath - Path of the tsconfig.json
+ * @param {Set<string>} [visited] - Configurations already parsed, to stop reference cycles
+ * @returns {{ options: CompilerOptions, fileNames: string[] } | null} Compiler options of the root
+ * configuration and files of every referenced project, or null if the file cannot be parsed
+ */
+function parseTsConfig(
+  tsConfigPath: string,
+  visited: Set<string> = new Set()
+): { options: CompilerOptions; fileNames: string[] } | null {
+  visited.add(tsConfigPath);
+
+  const { config, error } = ts.readConfigFile(tsConfigPath, ts.sys.readFile);
+  if (error) {
+    logger.warn(`Could not read ${tsConfigPath}, scanning files directly`);
+    return null;
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(tsConfigPath));
+  const fileNames = [...parsed.fileNames];
+
+  for (const reference of parsed.projectReferences || []) {
+    const referencePath =
+      fs.existsSync(reference.path) && fs.statSync(reference.path).isDirectory()
+        ? path.join(reference.path, "tsconfig.json")
+        : reference.path;
+
+    if (visited.has(referencePath) || !fs.existsSync(referencePath)) continue;
+
+    const referenced = parseTsConfig(referencePath, visited);
+    if (referenced) {
+      fileNames.push(...referenced.fileNames);
+    }
+  }
+
+  return { options: parsed.options, fileNames };
+}
+
+/**
+ * Builds `paths` mappings from workspace package names to their sources
+ * @description Reads the `workspaces` field of the closest package.json declaring one (npm, yarn)
+ * or pnpm-workspace.yaml, so `import { User } from "@acme/models"` resolves to the sources of the
+ * sibling package even when it is not built or installed
+ * @param {string} scanRoot - Absolute scan path
+ * @returns {Record<string, string[]>} Path mappings indexed by package name
+ */
+function getWorkspacePaths(scanRoot: string): Record<string, string[]> {
+  const workspaceRoot = findWorkspaceRoot(scanRoot);
+  if (!workspaceRoot) return {};
+
+  const paths: Record<string, string[]> = {};
+
+  for (const pattern of getWorkspacePatterns(workspaceRoot)) {
+    const manifests = globSync(`${pattern.replace(/\/$/, "")}/package.json`, {
+      cwd: workspaceRoot,
+      ignore: ["**/node_modules/**"],
+      absolute: true,
+    });
+
+    for (const manifest of manifests) {
+      try {
+        const packageJson = JSON.parse(fs.readFileSync(manifest, "utf-8"));
+        if (!packageJson.name) continue;
+
+        const packageDir = path.dirname(manifest);
+        const sourceDir = fs.existsSync(path.join(packageDir, "src"))
+          ? path.join(packageDir, "src")
+          : packageDir;
+        const entries = [packageJson.source, packageJson.types, packageJson.typings]
+          .filter((entry): entry is string => typeof entry === "string")
+          .map(entry => path.join(packageDir, entry))
+          .filter(entry => /\.tsx?$/.test(entry) && fs.existsSync(entry));
+
+        paths[packageJson.name] = [...entries, path.join(sourceDir, "index")];
+        paths[`${packageJson.name}/*`] = [path.join(sourceDir, "*")];
+      } catch (error) {
+        logger.debug(`Could not read workspace package ${manifest}`, error);
+      }
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Finds the root directory of an npm, yarn or pnpm workspace containing a path
+ * @param {string} scanRoot - Absolute scan path
+ * @returns {string | null} Workspace root, or null if the path is not in a workspace
+ */
+function findWorkspaceRoot(scanRoot: string): string | null {
+  const pnpmWorkspace = findUp(scanRoot, "pnpm-workspace.yaml");
+  if (pnpmWorkspace) return path.dirname(pnpmWorkspace);
+
+  const manifest = findUp(scanRoot, "package.json", filePath => {
+    try {
+      return !!JSON.parse(fs.readFileSync(filePath, "utf-8")).workspaces;
+    } catch {
+      return false;
+    }
+  });
+
+  return manifest ? path.dirname(manifest) : null;
+}
+
+/**
+ * Reads the package patterns of a workspace
+ * @param {string} workspaceRoot - Workspace root directory
+ * @returns {string[]} Package directory patterns such as `packages/*`
+ */
+function getWorkspacePatterns(workspaceRoot: string): string[] {
+  const pnpmWorkspace = path.join(workspaceRoot, "pnpm-workspace.yaml");
+  if (fs.existsSync(pnpmWorkspace)) {
+    try {
+      const { packages } = parse(fs.readFileSync(pnpmWorkspace, "utf-8")) ?? {};
+      return Array.isArray(packages)
+        ? packages.filter(
+            (pattern): pattern is string => typeof pattern === "string" && !pattern.startsWith("!")
+          )
+        : [];
+    } catch {
+      logger.warn(`Could not read ${pnpmWorkspace}, skipping workspace packages`);
+      return [];
+    }
+  }
+
+  try {
+    const { workspaces } = JSON.parse(
+      fs.readFileSync(path.join(workspaceRoot, "package.json"), "utf-8")
+    );
+    const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    return Array.isArray(patterns) ? patterns.filter(pattern => !pattern.startsWith("!")) : [];
+  } catch {
+    return [];
+  }
+}
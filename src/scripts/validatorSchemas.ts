@@ -0,0 +1,722 @@
+/**
+ * @file Validator schema extraction
+ * @description Reads Zod, Yup and Valibot object schemas and class-validator decorators
+ * syntactically, so models declared as runtime validators become tables without the validation
+ * libraries being installed in the scanned project
+ */
+import { Node, SourceFile, VariableDeclaration, VariableStatement } from "ts-morph";
+import { ColumnDefinition } from "../types/types.js";
+import {
+  getEnumArgumentValues,
+  getLiteralValue,
+  getNumberValue,
+  getPropertyName,
+  resolveInitializer,
+  unwrapExpression,
+} from "../helpers/astValues.js";
+
+/**
+ * Validation libraries recognised by the scanner, named after their npm package
+ */
+export type ValidatorLibrary = "zod" | "yup" | "valibot" | "class-validator";
+
+/**
+ * An object schema declared with a validation library
+ * @property {string} name - Model name derived from the variable, e.g. `User` for `userSchema`
+ * @property {ValidatorLibrary} library - Library the schema is declared with
+ * @property {VariableStatement} statement - Variable statement declaring the schema
+ * @property {VariableDeclaration} declaration - Variable declaring the schema
+ * @property {Record<string, ColumnDefinition>} columns - Column descriptors of the schema fields
+ */
+export type ValidatorModel = {
+  name: string;
+  library: ValidatorLibrary;
+  statement: VariableStatement;
+  declaration: VariableDeclaration;
+  columns: Record<string, ColumnDefinition>;
+};
+
+/**
+ * A binding imported from a validation library
+ * @property {ValidatorLibrary} library - Library the binding comes from
+ * @property {string | null} name - Imported name, or null for namespaces such as `z` or `yup`
+ */
+type ValidatorImport = {
+  library: ValidatorLibrary;
+  name: string | null;
+};
+
+/**
+ * A builder or method call of a validator schema, e.g. `string()` or `.email()`
+ */
+type SchemaCall = {
+  name: string;
+  args: Node[];
+};
+
+/**
+ * A validator schema expression flattened into its builder call followed by its chained calls
+ * @example
+ * // z.string().email().optional() gives [string(), email(), optional()]
+ */
+type SchemaChain = {
+  library: ValidatorLibrary;
+  calls: SchemaCall[];
+};
+
+const VALIDATOR_LIBRARIES: ValidatorLibrary[] = ["zod", "yup", "valibot", "class-validator"];
+
+/**
+ * Maximum number of variable references followed while resolving a schema
+ */
+const MAX_REFERENCE_DEPTH = 10;
+
+/**
+ * Format constraints, indexed by validator method or decorator name
+ */
+const FORMATS: Record<string, string> = {
+  email: "email",
+  url: "url",
+  uuid: "uuid",
+  cuid: "cuid",
+  cuid2: "cuid2",
+  ulid: "ulid",
+  ip: "ip",
+  datetime: "date-time",
+  isoDateTime: "date-time",
+  isoTimestamp: "date-time",
+  IsEmail: "email",
+  IsUrl: "url",
+  IsUUID: "uuid",
+  IsDateString: "date-time",
+  IsISO8601: "date-time",
+};
+
+const importsCache = new WeakMap<SourceFile, Map<string, ValidatorImport>>();
+
+/**
+ * Collects the Zod, Yup and Valibot object schemas declared at the top level of the scanned files
+ * @description `extend`, `merge`, `shape`, `pick`, `omit` and `partial` are applied, and schemas
+ * composed from other schema variables are resolved
+ * @param {SourceFile[]} files - Scanned source files
+ * @returns {ValidatorModel[]} Object schemas found in the files
+ */
+export function collectValidatorModels(files: SourceFile[]): ValidatorModel[] {
+  const models: ValidatorModel[] = [];
+
+  files.forEach(file => {
+    file.getVariableStatements().forEach(statement => {
+      statement.getDeclarations().forEach(declaration => {
+        const initializer = declaration.getInitializer();
+        if (!initializer || !Node.isCallExpression(unwrapExpression(initializer))) return;
+
+        const chain = getSchemaChain(initializer);
+        const columns = chain && chain.library !== "class-validator" && getObjectColumns(chain);
+        if (!chain || !columns) return;
+
+        models.push({
+          name: getModelName(declaration.getName()),
+          library: chain.library,
+          statement,
+          declaration,
+          columns,
+        });
+      });
+    });
+  });
+
+  return models;
+}
+
+/**
+ * Reads the class-validator decorators of a class property as column constraints
+ * @example
+ * // @IsOptional() @IsEmail() @MaxLength(120) gives { required: false, format: "email", maxLength: 120 }
+ * @param {Node[]} declarations - Declarations of the property
+ * @returns {Partial<ColumnDefinition>} Constraints found on the decorators
+ */
+export function getClassValidatorConstraints(declarations: Node[]): Partial<ColumnDefinition> {
+  const constraints: Partial<ColumnDefinition> = {};
+
+  declarations.forEach(declaration => {
+    if (!Node.isPropertyDeclaration(declaration) && !Node.isParameterDeclaration(declaration)) {
+      return;
+    }
+
+    declaration.getDecorators().forEach(decorator => {
+      const call = decorator.getCallExpression();
+      const imported = call && getImportedCall(call.getExpression());
+      if (!imported || imported.library !== "class-validator") return;
+
+      const [first, second] = decorator.getArguments();
+      const firstNumber = getNumberValue(first);
+
+      switch (imported.name) {
+        case "IsOptional":
+          constraints.required = false;
+          break;
+        case "IsDefined":
+        case "IsNotEmpty":
+          constraints.required = true;
+          break;
+        case "IsInt":
+          constraints.integer = true;
+          break;
+        case "Min":
+        case "Max":
+        case "MinLength":
+        case "MaxLength":
+          if (firstNumber !== undefined) {
+            constraints[imported.name.charAt(0).toLowerCase() + imported.name.slice(1)] =
+              firstNumber;
+          }
+          break;
+        case "ArrayMinSize":
+          if (firstNumber !== undefined) constraints.minLength = firstNumber;
+          break;
+        case "ArrayMaxSize":
+          if (firstNumber !== undefined) constraints.maxLength = firstNumber;
+          break;
+        case "Length": {
+          const max = getNumberValue(second);
+          if (firstNumber !== undefined) constraints.minLength = firstNumber;
+          if (max !== undefined) constraints.maxLength = max;
+          break;
+        }
+        case "IsEnum":
+        case "IsIn": {
+          const values = first && getEnumArgumentValues(first);
+          if (values) {
+            constraints.type = "enum";
+            constraints.enum = values;
+          }
+          break;
+        }
+        default:
+          if (FORMATS[imported.name]) {
+            constraints.format = FORMATS[imported.name];
+          }
+      }
+    });
+  });
+
+  return constraints;
+}
+
+/**
+ * Derives a model name from a schema variable name
+ * @param {string} variableName - Variable name, e.g. `userSchema` or `CreatePostValidator`
+ * @returns {string} Model name without the schema suffix
+ */
+function getModelName(variableName: string): string {
+  return variableName.replace(/[_-]?(schema|validator|validation|shape)$/i, "") || variableName;
+}
+
+/**
+ * Reads the bindings a file imports from validation libraries
+ * @param {SourceFile} file - Source file
+ * @returns {Map<string, ValidatorImport>} Imported bindings indexed by local name
+ */
+function getValidatorImports(file: SourceFile): Map<string, ValidatorImport> {
+  const cached = importsCache.get(file);
+  if (cached) return cached;
+
+  const imports = new Map<string, ValidatorImport>();
+
+  file.getImportDeclarations().forEach(declaration => {
+    const specifier = declaration.getModuleSpecifierValue();
+    const library = VALIDATOR_LIBRARIES.find(
+      name => specifier === name || specifier.startsWith(`${name}/`)
+    );
+    if (!library) return;
+
+    const namespace = declaration.getNamespaceImport() || declaration.getDefaultImport();
+    if (namespace) {
+      imports.set(namespace.getText(), { library, name: null });
+    }
+
+    declaration.getNamedImports().forEach(specifier => {
+      const name = specifier.getName();
+      const localName = specifier.getAliasNode()?.getText() || name;
+      imports.set(localName, { library, name: library === "zod" && name === "z" ? null : name });
+    });
+  });
+
+  importsCache.set(file, imports);
+  return imports;
+}
+
+/**
+ * Resolves the library function called by an expression such as `z.string` or `IsEmail`
+ * @param {Node} callee - Called expression
+ * @returns {{ library: ValidatorLibrary, name: string } | null} Imported function, or null if the
+ * callee is not a validation library function
+ */
+function getImportedCall(callee: Node): { library: ValidatorLibrary; name: string } | null {
+  const imports = getValidatorImports(callee.getSourceFile());
+
+  if (Node.isIdentifier(callee)) {
+    const imported = imports.get(callee.getText());
+    return imported?.name ? { library: imported.library, name: imported.name } : null;
+  }
+
+  if (Node.isPropertyAccessExpression(callee)) {
+    let root: Node = callee.getExpression();
+    while (Node.isPropertyAccessExpression(root)) {
+      root = root.getExpression();
+    }
+
+    const imported = Node.isIdentifier(root) ? imports.get(root.getText()) : undefined;
+    if (imported && imported.name === null) {
+      return { library: imported.library, name: callee.getName() };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Flattens a validator schema expression into its builder and chained calls
+ * @description References to schema variables are followed, so `userSchema.extend({...})` starts
+ * with the calls of `userSchema`
+ * @param {Node} expression - Schema expression
+ * @param {number} [depth] - Number of variable references already followed
+ * @returns {SchemaChain | null} Flattened schema, or null if the expression is not a schema
+ */
+function getSchemaChain(expression: Node, depth = 0): SchemaChain | null {
+  const node = unwrapExpression(expression);
+  if (depth > MAX_REFERENCE_DEPTH) return null;
+
+  if (Node.isIdentifier(node)) {
+    const initializer = resolveInitializer(node);
+    return initializer ? getSchemaChain(initializer, depth + 1) : null;
+  }
+
+  if (!Node.isCallExpression(node)) return null;
+
+  const callee = node.getExpression();
+  const call = { name: "", args: node.getArguments() };
+
+  const imported = getImportedCall(callee);
+  if (imported) {
+    return { library: imported.library, calls: [{ ...call, name: imported.name }] };
+  }
+
+  if (Node.isPropertyAccessExpression(callee)) {
+    const inner = getSchemaChain(callee.getExpression(), depth);
+    return inner
+      ? { ...inner, calls: [...inner.calls, { ...call, name: callee.getName() }] }
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Reads the field columns of an object schema
+ * @param {SchemaChain} chain - Flattened schema
+ * @param {number} [depth] - Number of schema references already followed
+ * @returns {Record<string, ColumnDefinition> | null} Columns, or null if the schema is not an object
+ */
+function getObjectColumns(chain: SchemaChain, depth = 0): Record<string, ColumnDefinition> | null {
+  const [base, ...methods] = chain.calls;
+  const [first, second] = base.args;
+  let columns: Record<string, ColumnDefinition> | null;
+
+  switch (base.name) {
+    case "object":
+    case "strictObject":
+    case "looseObject":
+      columns = first ? getShapeColumns(first, chain.library, depth) : {};
+      break;
+    case "partial":
+    case "required":
+    case "pick":
+    case "omit":
+      columns = first ? getObjectColumnsOf(first, depth) : null;
+      columns = columns && applyObjectMethod(columns, { name: base.name, args: [second] }, chain);
+      break;
+    case "merge":
+      columns =
+        first && Node.isArrayLiteralExpression(first)
+          ? first
+              .getElements()
+              .reduce<Record<string, ColumnDefinition>>(
+                (merged, element) => ({ ...merged, ...getObjectColumnsOf(element, depth) }),
+                {}
+              )
+          : null;
+      break;
+    default:
+      columns = null;
+  }
+
+  if (!columns) return null;
+
+  for (const method of methods) {
+    switch (method.name) {
+      case "extend":
+      case "shape":
+        columns = {
+          ...columns,
+          ...(method.args[0] ? getShapeColumns(method.args[0], chain.library, depth) : {}),
+        };
+        break;
+      case "merge":
+      case "concat":
+        columns = {
+          ...columns,
+          ...(method.args[0] ? getObjectColumnsOf(method.args[0], depth) : {}),
+        };
+        break;
+      default:
+        columns = applyObjectMethod(columns, method, chain);
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Reads the field columns of an object schema expression
+ * @param {Node} expression - Schema expression or reference
+ * @param {number} depth - Number of schema references already followed
+ * @returns {Record<string, ColumnDefinition> | null} Columns, or null if the expression is not an
+ * object schema
+ */
+function getObjectColumnsOf(
+  expression: Node,
+  depth: number
+): Record<string, ColumnDefinition> | null {
+  if (depth > MAX_REFERENCE_DEPTH) return null;
+
+  const chain = getSchemaChain(expression);
+  return chain ? getObjectColumns(chain, depth + 1) : null;
+}
+
+/**
+ * Applies `pick`, `omit`, `partial` and `required` to the columns of an object schema
+ * @param {Record<string, ColumnDefinition>} columns - Columns of the schema
+ * @param {SchemaCall} method - Method call, whose first argument lists the affected keys
+ * @param {SchemaChain} chain - Schema the method belongs to
+ * @returns {Record<string, ColumnDefinition>} Updated columns
+ */
+function applyObjectMethod(
+  columns: Record<string, ColumnDefinition>,
+  method: SchemaCall,
+  chain: SchemaChain
+): Record<string, ColumnDefinition> {
+  const keys = method.args[0] ? getKeyArguments(method.args[0]) : null;
+  const entries = Object.entries(columns);
+
+  switch (method.name) {
+    case "pick":
+      return keys ? Object.fromEntries(entries.filter(([key]) => keys.includes(key))) : columns;
+    case "omit":
+      return keys ? Object.fromEntries(entries.filter(([key]) => !keys.includes(key))) : columns;
+    case "partial":
+    case "deepPartial":
+    case "required":
+      // Yup's `.required()` applies to the object itself rather than to its fields
+      if (method.name === "required" && chain.library === "yup") return columns;
+
+      return Object.fromEntries(
+        entries.map(([key, column]) => [
+          key,
+          !keys || keys.includes(key)
+            ? { ...column, required: method.name === "required" }
+            : column,
+        ])
+      );
+    default:
+      return columns;
+  }
+}
+
+/**
+ * Reads the keys listed in a `pick`/`omit` argument, either `{ a: true }` or `["a"]`
+ * @param {Node} node - Argument node
+ * @returns {string[] | null} Keys, or null if the argument cannot be read
+ */
+function getKeyArguments(node: Node): string[] | null {
+  const argument = unwrapExpression(node);
+
+  if (Node.isObjectLiteralExpression(argument)) {
+    return argument
+      .getProperties()
+      .filter(property => Node.isPropertyAssignment(property))
+      .map(property => getPropertyName(property));
+  }
+
+  if (Node.isArrayLiteralExpression(argument)) {
+    return argument
+      .getElements()
+      .map(element => getLiteralValue(element))
+      .filter((value): value is string => typeof value === "string");
+  }
+
+  return null;
+}
+
+/**
+ * Reads the columns of an object schema shape such as `{ name: z.string(), ...base.shape }`
+ * @param {Node} node - Shape object literal or a reference to one
+ * @param {ValidatorLibrary} library - Library the schema is declared with
+ * @param {number} depth - Number of schema references already followed
+ * @returns {Record<string, ColumnDefinition>} Columns of the shape
+ */
+function getShapeColumns(
+  node: Node,
+  library: ValidatorLibrary,
+  depth: number
+): Record<string, ColumnDefinition> {
+  let shape = unwrapExpression(node);
+  if (Node.isIdentifier(shape)) {
+    shape = resolveInitializer(shape) || shape;
+  }
+
+  const columns: Record<string, ColumnDefinition> = {};
+  if (!Node.isObjectLiteralExpression(shape)) return columns;
+
+  shape.getProperties().forEach(property => {
+    if (Node.isPropertyAssignment(property)) {
+      const initializer = property.getInitializer();
+      if (initializer) {
+        columns[getPropertyName(property)] = getSchemaColumn(initializer, library);
+      }
+    } else if (Node.isShorthandPropertyAssignment(property)) {
+      columns[property.getName()] = getSchemaColumn(property.getNameNode(), library);
+    } else if (Node.isSpreadAssignment(property)) {
+      // `...base.shape` (Zod), `...base.fields` (Yup) and `...base.entries` (Valibot)
+      const spread = unwrapExpression(property.getExpression());
+      const source =
+        Node.isPropertyAccessExpression(spread) &&
+        ["shape", "fields", "entries"].includes(spread.getName())
+          ? getObjectColumnsOf(spread.getExpression(), depth)
+          : getShapeColumns(spread, library, depth + 1);
+      Object.assign(columns, source);
+    }
+  });
+
+  return columns;
+}
+
+/**
+ * Builds the column descriptor of a field schema such as `z.string().email().optional()`
+ * @param {Node} expression - Field schema expression
+ * @param {ValidatorLibrary} library - Library of the enclosing schema
+ * @returns {ColumnDefinition} Column descriptor
+ */
+function getSchemaColumn(expression: Node, library: ValidatorLibrary): ColumnDefinition {
+  const chain = getSchemaChain(expression);
+  if (!chain) {
+    // Yup fields are optional unless marked `.required()`
+    return { type: "string", required: library !== "yup" };
+  }
+
+  const [base, ...methods] = chain.calls;
+  return methods.reduce(applySchemaMethod, getBaseColumn(base, chain.library));
+}
+
+/**
+ * Builds the column descriptor of a schema builder call such as `z.string()` or `v.picklist([...])`
+ * @param {SchemaCall} call - Builder call
+ * @param {ValidatorLibrary} library - Library the builder belongs to
+ * @returns {ColumnDefinition} Column descriptor
+ */
+function getBaseColumn(call: SchemaCall, library: ValidatorLibrary): ColumnDefinition {
+  const [first, second] = call.args;
+  let column: ColumnDefinition = { type: "string", required: library !== "yup" };
+
+  switch (call.name) {
+    case "number":
+    case "bigint":
+      column.type = "number";
+      break;
+    case "integer":
+      column = { ...column, type: "number", integer: true };
+      break;
+    case "boolean":
+    case "bool":
+      column.type = "boolean";
+      break;
+    case "date":
+      column.type = "date";
+      break;
+    case "object":
+    case "strictObject":
+    case "looseObject":
+    case "record":
+    case "map":
+      column.type = "object";
+      break;
+    case "array":
+    case "set":
+    case "tuple":
+      column.type = "array";
+      if (call.name !== "tuple" && first && !Node.isArrayLiteralExpression(first)) {
+        column = { ...column, ...getItemsColumn(getSchemaColumn(first, library)) };
+      }
+      break;
+    case "enum":
+    case "enum_":
+    case "nativeEnum":
+    case "picklist": {
+      const values = first && getEnumArgumentValues(first);
+      if (values) {
+        column = { ...column, type: "enum", enum: values };
+      }
+      break;
+    }
+    case "literal": {
+      const value = first && getLiteralValue(first);
+      if (typeof value === "string" || typeof value === "number") {
+        column = { ...column, type: "enum", enum: [value] };
+      } else if (typeof value === "boolean") {
+        column.type = "boolean";
+      }
+      break;
+    }
+    case "union": {
+      const values = first && getLiteralUnionValues(first);
+      if (values) {
+        column = { ...column, type: "enum", enum: values };
+      }
+      break;
+    }
+    case "optional":
+    case "nullable":
+    case "nullish":
+      if (first) {
+        column = applySchemaMethod(getSchemaColumn(first, library), call);
+        const defaultValue = second && getLiteralValue(second);
+        if (defaultValue !== undefined) {
+          column.default = defaultValue;
+        }
+      }
+      break;
+    case "pipe":
+      if (first) {
+        column = call.args
+          .slice(1)
+          .map(action => getSchemaChain(action))
+          .filter((action): action is SchemaChain => action !== null)
+          .flatMap(action => action.calls)
+          .reduce(applySchemaMethod, getSchemaColumn(first, library));
+      }
+      break;
+  }
+
+  // Valibot before v0.31 passes validation actions as an array, e.g. `v.string([v.email()])`
+  if (library === "valibot") {
+    call.args
+      .filter(arg => Node.isArrayLiteralExpression(arg))
+      .flatMap(arg => (Node.isArrayLiteralExpression(arg) ? arg.getElements() : []))
+      .map(element => getSchemaChain(element))
+      .filter((action): action is SchemaChain => action !== null)
+      .forEach(action => {
+        column = action.calls.reduce(applySchemaMethod, column);
+      });
+  }
+
+  return column;
+}
+
+/**
+ * Applies a chained method or validation action such as `.email()` or `.min(3)` to a column
+ * @description `min`/`max` constrain the length of strings and arrays and the value of numbers
+ * and dates; unknown methods such as `.trim()` leave the column unchanged
+ * @param {ColumnDefinition} column - Column descriptor
+ * @param {SchemaCall} method - Method call
+ * @returns {ColumnDefinition} Updated column descriptor
+ */
+function applySchemaMethod(column: ColumnDefinition, method: SchemaCall): ColumnDefinition {
+  const [first] = method.args;
+  const number = getNumberValue(first);
+  const isLengthConstrained = column.type === "string" || column.type === "array";
+
+  switch (method.name) {
+    case "optional":
+    case "notRequired":
+      return { ...column, required: false };
+    case "nullable":
+      return { ...column, nullable: true };
+    case "nullish":
+      return { ...column, required: false, nullable: true };
+    case "required":
+    case "defined":
+    case "nonoptional":
+      return { ...column, required: true };
+    case "default": {
+      const value = first && getLiteralValue(first);
+      return value === undefined ? column : { ...column, default: value };
+    }
+    case "int":
+    case "integer":
+      return { ...column, integer: true };
+    case "min":
+    case "max":
+    case "gte":
+    case "lte":
+    case "minValue":
+    case "maxValue":
+    case "minLength":
+    case "maxLength": {
+      if (number === undefined) return column;
+
+      const bound = ["min", "gte", "minValue", "minLength"].includes(method.name) ? "min" : "max";
+      const isLength =
+        method.name.endsWith("Length") || (isLengthConstrained && !method.name.endsWith("Value"));
+      return { ...column, [isLength ? `${bound}Length` : bound]: number };
+    }
+    case "length":
+      return number === undefined ? column : { ...column, minLength: number, maxLength: number };
+    case "nonempty":
+      return { ...column, minLength: 1 };
+    case "oneOf":
+    case "picklist": {
+      const values = first && getEnumArgumentValues(first);
+      return values ? { ...column, type: "enum", enum: values } : column;
+    }
+    case "of":
+      return first ? { ...column, ...getItemsColumn(getSchemaColumn(first, "yup")) } : column;
+    case "array":
+      return {
+        type: "array",
+        required: column.required,
+        ...getItemsColumn(column),
+      };
+    default:
+      return FORMATS[method.name] ? { ...column, format: FORMATS[method.name] } : column;
+  }
+}
+
+/**
+ * Describes the elements of an array column
+ * @param {ColumnDefinition} element - Column descriptor of the array element
+ * @returns {Partial<ColumnDefinition>} `items` and, for enum elements, `enum`
+ */
+function getItemsColumn(element: ColumnDefinition): Partial<ColumnDefinition> {
+  return element.enum ? { items: element.type, enum: element.enum } : { items: element.type };
+}
+
+/**
+ * Reads the values of a union of literal schemas such as `z.union([z.literal("a"), z.literal("b")])`
+ * @param {Node} node - Union options argument
+ * @returns {Array<string | number> | null} Literal values, or null if an option is not a literal
+ */
+function getLiteralUnionValues(node: Node): Array<string | number> | null {
+  const options = unwrapExpression(node);
+  if (!Node.isArrayLiteralExpression(options)) return null;
+
+  const values = options.getElements().map(option => {
+    const chain = getSchemaChain(option);
+    const literal = chain?.calls.length === 1 && chain.calls[0].name === "literal";
+    return literal && chain.calls[0].args[0] ? getLiteralValue(chain.calls[0].args[0]) : undefined;
+  });
+
+  return values.length > 0 &&
+    values.every(value => typeof value === "string" || typeof value === "number")
+    ? (values as Array<string | number>)
+    : null;
+}
@@ -2,6 +2,8 @@ import inquirer from "inquirer";
 import logger from "../helpers/logger.js";
 import { AIProvider, AI_PROVIDERS } from "../types/types.js";
 import { setProjectInfos, saveCredentials, getCredentials } from "../core/config.js";
+import { getTableNaming, updateProjectConfig } from "../config/projectConfig.js";
+import { TABLE_NAMING_STRATEGIES } from "../helpers/naming.js";
 
 /**
  * Configure project settings
@@ -75,3 +77,31 @@ export async function configAI(): Promise<void> {
     console.error("❌ Error configuring AI provider:", err);
   }
 }
+
+/**
+ * Configure the table naming strategy of the project
+ */
+export async function configNaming(): Promise<void> {
+  try {
+    const { naming } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "naming",
+        message: "Select how table names are generated from your models:",
+        choices: Object.entries(TABLE_NAMING_STRATEGIES).map(([value, name]) => ({
+          name,
+          value,
+        })),
+        default: getTableNaming(),
+      },
+    ]);
+
+    updateProjectConfig({ naming });
+
+    logger.info(`✅ Table naming strategy configured successfully: ${naming}`);
+    console.log(`✅ Table naming strategy configured successfully: ${naming}`);
+  } catch (err) {
+    logger.error("❌ Error configuring table naming:", err);
+    console.error("❌ Error configuring table naming:", err);
+  }
+}
@@ -15,14 +15,17 @@ import { SimpleSpinner } from "../types/types.js";
 /**
  * Validates schema and gets the table name
  * @param tableName - Optional table name
+ * @param schemaPath - Schema file, hosby.schema.json of the working directory by default
  * @returns Object with validation status, schema and valid table name
  */
-export async function validateAndGetTable(tableName?: string): Promise<{
+export async function validateAndGetTable(
+  tableName?: string,
+  schemaPath: string = path.join(process.cwd(), "hosby.schema.json")
+): Promise<{
   isValid: boolean;
   schema: Record<string, unknown>;
   validTableName?: string;
 }> {
-  const schemaPath = path.join(process.cwd(), "hosby.schema.json");
   if (!fs.existsSync(schemaPath)) {
     logger.error("Schema file not found. Run 'hosby scan' first to generate a schema.");
     return { isValid: false, schema: {} as Record<string, unknown> };
@@ -0,0 +1,145 @@
+import fs from "fs";
+import path from "path";
+import { execFileSync } from "child_process";
+import logger from "../helpers/logger.js";
+import { requireLogin } from "../core/auth.js";
+import { getProjectInfos } from "../core/config.js";
+import { fetchCurrentServerSchema } from "./pull.service.js";
+import { HosbySchema, LastPullData } from "../types/types.js";
+
+/**
+ * A schema loaded for comparison
+ * @property {string} label - Description of where the schema comes from
+ * @property {HosbySchema} schema - Loaded schema
+ */
+export type SchemaSource = {
+  label: string;
+  schema: HosbySchema;
+};
+
+/**
+ * Names of the schema sources that are not files or git revisions
+ */
+export const SCHEMA_SOURCES = ["local", "last-pull", "last-push", "server"];
+
+/**
+ * Loads a schema to compare
+ * @description A source is `local` for the schema file, `last-pull` or `last-push` for the snapshot
+ * saved by the last `hosby pull` or `hosby push`, `server` for the schema of the Hosby project, the path of a schema file, or a
+ * git revision of the schema file such as `HEAD~1` or `git:main`
+ * @param {string} source - Source to load
+ * @param {string} schemaFile - Local schema file
+ * @returns {Promise<SchemaSource>} Loaded schema and its description
+ * @throws {Error} If the source cannot be found or read
+ */
+export async function loadSchemaSource(source: string, schemaFile: string): Promise<SchemaSource> {
+  if (source === "local") {
+    return { label: path.relative(process.cwd(), schemaFile), schema: readSchema(schemaFile) };
+  }
+
+  if (source === "last-pull" || source === "last-push") {
+    return readSyncSnapshot(source === "last-pull" ? "pull" : "push");
+  }
+
+  if (source === "server") {
+    return fetchServerSource();
+  }
+
+  if (!source.startsWith("git:") && fs.existsSync(source) && fs.statSync(source).isFile()) {
+    return { label: source, schema: readSchema(source) };
+  }
+
+  return readGitRevision(source.replace(/^git:/, ""), schemaFile);
+}
+
+/**
+ * Reads a schema file
+ * @param {string} file - Schema file path
+ * @returns {HosbySchema} Parsed schema
+ * @throws {Error} If the file is missing or is not valid JSON
+ */
+function readSchema(file: string): HosbySchema {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Schema file not found: ${file}`);
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    throw new Error(`Schema file is not valid JSON: ${file}`);
+  }
+}
+
+/**
+ * Reads the schema snapshot saved by the last pull or push
+ * @description The `.hosby-last-*` records are read from the working directory, where pull and
+ * push write them, whichever schema file is compared
+ * @param {"pull" | "push"} operation - Operation whose snapshot is read
+ * @returns {SchemaSource} Pulled or pushed schema
+ * @throws {Error} If the operation never ran, or ran before snapshots were recorded
+ */
+function readSyncSnapshot(operation: "pull" | "push"): SchemaSource {
+  const recordFile = path.join(process.cwd(), `.hosby-last-${operation}`);
+  if (!fs.existsSync(recordFile)) {
+    throw new Error(`No ${operation} recorded yet. Run \`hosby ${operation}\` first.`);
+  }
+
+  const record: LastPullData = JSON.parse(fs.readFileSync(recordFile, "utf-8"));
+  if (!record.schema) {
+    throw new Error(
+      `The last ${operation} has no schema snapshot. ${operation === "pull" ? "Pull" : "Push"} again to record one.`
+    );
+  }
+
+  const revision = record.revision ? `revision ${record.revision}, ` : "";
+  return { label: `last ${operation} (${revision}${record.time})`, schema: record.schema };
+}
+
+/**
+ * Fetches the schema of the Hosby project
+ * @returns {Promise<SchemaSource>} Server schema
+ * @throws {Error} If the project is not configured or the server has no schema
+ */
+async function fetchServerSource(): Promise<SchemaSource> {
+  const credentials = await requireLogin();
+  const project = await getProjectInfos();
+  if (!project?.id) {
+    throw new Error("No project configured. Run `hosby config project` first.");
+  }
+
+  const { schema } = await fetchCurrentServerSchema(credentials, project);
+  if (!schema) {
+    throw new Error("The server has no schema for this project yet.");
+  }
+
+  return { label: `server (${project.name || project.id})`, schema };
+}
+
+/**
+ * Reads the schema file at a git revision
+ * @param {string} revision - Git revision, e.g. `HEAD~1`, a branch or a commit
+ * @param {string} schemaFile - Local schema file
+ * @returns {SchemaSource} Schema at the revision
+ * @throws {Error} If the revision or the file at that revision cannot be found
+ */
+function readGitRevision(revision: string, schemaFile: string): SchemaSource {
+  let content: string;
+  try {
+    content = execFileSync("git", ["show", `${revision}:./${path.basename(schemaFile)}`], {
+      cwd: path.dirname(schemaFile),
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+  } catch (error) {
+    logger.debug(`git show ${revision} failed`, error);
+    throw new Error(
+      `Unknown schema source '${revision}': not ${SCHEMA_SOURCES.join(", ")}, a file or a git revision of ${path.basename(schemaFile)}.`
+    );
+  }
+
+  try {
+    return { label: `${revision}:${path.basename(schemaFile)}`, schema: JSON.parse(content) };
+  } catch {
+    throw new Error(`${path.basename(schemaFile)} is not valid JSON at revision ${revision}`);
+  }
+}
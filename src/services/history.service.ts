@@ -0,0 +1,183 @@
+import axios, { AxiosRequestConfig } from "axios";
+import chalk from "chalk";
+import logger from "../helpers/logger.js";
+import { API_BASE_URL } from "../config/config.js";
+import { createAuthHeaders, requireLogin } from "../core/auth.js";
+import { getProjectInfos } from "../core/config.js";
+import { diffSchemas, summarizeSchemaChanges } from "../helpers/schemaDiff.js";
+import { fetchCurrentServerSchema } from "./pull.service.js";
+import { AuthCredentials, ProjectCredentials, SchemaData, SchemaRevision } from "../types/types.js";
+
+const API_TIMEOUT = 30000;
+
+/**
+ * Entry of the push history sent by the server
+ */
+type HistoryEntry = {
+  revision?: string | number;
+  id?: string | number;
+  author?: string | { email?: string; name?: string };
+  user?: string | { email?: string; name?: string };
+  time?: string;
+  createdAt?: string;
+  hash?: string;
+  schemaHash?: string;
+  _meta?: { schemaHash?: string };
+  version?: string;
+  summary?: string;
+  schema?: SchemaData;
+};
+
+/**
+ * Logs in and reads the configured project
+ * @returns {Promise<{credentials: AuthCredentials, project: ProjectCredentials}>} Credentials
+ * @throws {Error} If no project is configured
+ */
+export async function requireProject(): Promise<{
+  credentials: AuthCredentials;
+  project: ProjectCredentials;
+}> {
+  const credentials = await requireLogin();
+  const project = await getProjectInfos();
+  if (!project?.id) {
+    throw new Error("No project configured. Run `hosby config project` first.");
+  }
+  return { credentials, project };
+}
+
+/**
+ * Lists the pushed revisions of a project schema, most recent first
+ * @description Reads the push history from `GET /projects/:id/push`. When the server does not
+ * summarize a revision but sends its schema, the summary is computed from the previous revision
+ * @param {AuthCredentials} authCredentials - User authentication credentials
+ * @param {ProjectCredentials} projectCredentials - Project credentials
+ * @param {number} [limit] - Maximum number of revisions
+ * @returns {Promise<SchemaRevision[]>} Revisions
+ * @throws {Error} If the server does not send a revision list
+ */
+export async function fetchSchemaHistory(
+  authCredentials: AuthCredentials,
+  projectCredentials: ProjectCredentials,
+  limit?: number
+): Promise<SchemaRevision[]> {
+  const axiosConfig: AxiosRequestConfig = {
+    ...createAuthHeaders(authCredentials),
+    timeout: API_TIMEOUT,
+  };
+
+  const url = `${API_BASE_URL}/projects/${projectCredentials.id}/push`;
+  logger.debug("Fetching schema history", { url, limit });
+  const response = await axios.get(url, { params: { limit }, ...axiosConfig });
+
+  const entries = response.data?.revisions ?? response.data?.data?.revisions ?? response.data?.data;
+  if (!Array.isArray(entries)) {
+    throw new Error("The server did not send the revision list of the project.");
+  }
+
+  return (entries as HistoryEntry[]).flatMap((entry, index) => {
+    const revision = toSchemaRevision(entry);
+    if (!revision) return [];
+
+    const previous = entries[index + 1]?.schema;
+    if (!revision.summary && entry.schema && previous) {
+      revision.summary = summarizeSchemaChanges(
+        diffSchemas(previous, entry.schema, { detectRenames: true })
+      );
+    }
+    return [revision];
+  });
+}
+
+/**
+ * Fetches the schema of a pushed revision
+ * @description The server must report the revision it sent: a server that ignores the requested
+ * revision sends its current schema, which must not be mistaken for the older one
+ * @param {AuthCredentials} authCredentials - User authentication credentials
+ * @param {ProjectCredentials} projectCredentials - Project credentials
+ * @param {string} revision - Revision identifier
+ * @returns {Promise<SchemaData>} Schema of the revision
+ * @throws {Error} If the revision does not exist or the server sent another revision
+ */
+export async function fetchSchemaRevision(
+  authCredentials: AuthCredentials,
+  projectCredentials: ProjectCredentials,
+  revision: string
+): Promise<SchemaData> {
+  try {
+    const { schema, revision: sent } = await fetchCurrentServerSchema(
+      authCredentials,
+      projectCredentials,
+      revision
+    );
+    if (schema) {
+      if (sent !== revision) {
+        throw new Error(
+          `The server sent ${sent ? `revision ${sent}` : "a schema without a revision"} instead of revision ${revision}.`
+        );
+      }
+      return schema;
+    }
+  } catch (err) {
+    if ((err as { response?: { status?: number } }).response?.status !== 404) throw err;
+  }
+
+  throw new Error(`Revision ${revision} not found. Run \`hosby history\` to list revisions.`);
+}
+
+/**
+ * Formats revisions as aligned rows
+ * @example
+ * // * 12  2026-03-02 10:15  ana@example.com  1a2b3c  1.3.0  1 table added
+ * @param {SchemaRevision[]} revisions - Revisions, most recent first
+ * @param {string} [currentRevision] - Revision the local schema is based on, marked with `*`
+ * @returns {string[]} One line per revision
+ */
+export function formatSchemaHistory(
+  revisions: SchemaRevision[],
+  currentRevision?: string
+): string[] {
+  const rows = revisions.map(item => [
+    item.revision,
+    item.time ? formatTime(item.time) : "-",
+    item.author || "-",
+    item.hash ? item.hash.slice(0, 8) : "-",
+    item.version || "-",
+  ]);
+  const widths = rows[0]?.map((_, column) => Math.max(...rows.map(row => row[column].length)));
+
+  return rows.map((row, index) => {
+    const marker = revisions[index].revision === currentRevision ? "*" : " ";
+    const cells = row.map((cell, column) => cell.padEnd(widths[column]));
+    return `${marker} ${chalk.bold(cells[0])}  ${cells.slice(1).join("  ")}  ${chalk.gray(revisions[index].summary || "")}`.trimEnd();
+  });
+}
+
+/**
+ * Reads a revision from a server history entry
+ * @param {HistoryEntry} entry - History entry
+ * @returns {SchemaRevision | undefined} Revision, undefined if the entry has no identifier
+ */
+function toSchemaRevision(entry: HistoryEntry): SchemaRevision | undefined {
+  const revision = entry?.revision ?? entry?.id;
+  if (revision === undefined || revision === null) return undefined;
+
+  const author = entry.author ?? entry.user;
+  return {
+    revision: String(revision),
+    author: typeof author === "string" ? author : author?.email || author?.name,
+    time: entry.time ?? entry.createdAt,
+    hash: entry.hash ?? entry.schemaHash ?? entry._meta?.schemaHash,
+    version: entry.version ?? entry.schema?.version,
+    summary: entry.summary,
+  };
+}
+
+/**
+ * Formats a timestamp as a UTC date and time
+ * @param {string} time - ISO timestamp
+ * @returns {string} `YYYY-MM-DD HH:mm`, or the value itself if it is not a date
+ */
+function formatTime(time: string): string {
+  const date = new Date(time);
+  return isNaN(date.getTime()) ? time : date.toISOString().slice(0, 16).replace("T", " ");
+}
@@ -1,15 +1,30 @@
 import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
 import fs from "fs";
+import path from "path";
 import { Ora } from "ora";
 import inquirer from "inquirer";
 import chalk from "chalk";
 import logger from "../helpers/logger.js";
 import { API_BASE_URL } from "../config/config.js";
 import { createAuthHeaders } from "../core/auth.js";
-import { getSchemaHash, hasLocalChanges } from "../helpers/utils.js";
+import { getSchemaHash, getServerRevision } from "../helpers/utils.js";
+import { diffSchemas, summarizeSchemaChanges } from "../helpers/schemaDiff.js";
+import {
+  classifySchemaChanges,
+  formatClassifiedChanges,
+  summarizeSeverities,
+} from "../helpers/schemaCompatibility.js";
+import {
+  ConflictResolution,
+  mergeThreeWay,
+  resolveSchemaConflict,
+  SchemaConflict,
+  ThreeWayMerge,
+} from "../helpers/threeWayMerge.js";
 import {
   ConflictAction,
   LastPullData,
+  LastPushData,
   SchemaData,
   ServerResponse,
   AuthCredentials,
@@ -19,34 +34,56 @@ import {
 const API_TIMEOUT = 30000;
 
 /**
- * Gets local schema information including schema data, hash, and last pull time
+ * Gets local schema information including schema data, hash, last pull time and the schema as
+ * last synchronized with the server
+ * @description The base is the most recent of the last pull and last push records: both hold the
+ * schema the server had at that time, the common ancestor of local and server changes
  * @param {string} schemaFile - Path to the schema file
  * @param {string} lastPullTimeFile - Path to the last pull time file
- * @returns {Promise<{schemaData: SchemaData, localSchemaHash: string, lastPullTime: Date}>}
+ * @param {string} [lastPushFile] - Path to the last push file
+ * @returns {Promise<{schemaData: SchemaData, localSchemaHash: string, lastPullTime: Date, base?: LastPullData}>}
  */
 export async function getLocalSchemaInfo(
   schemaFile: string,
-  lastPullTimeFile: string
+  lastPullTimeFile: string,
+  lastPushFile?: string
 ): Promise<{
   schemaData: SchemaData;
   localSchemaHash: string;
   lastPullTime: Date;
+  base?: LastPullData;
 }> {
   const schemaData: SchemaData = JSON.parse(fs.readFileSync(schemaFile, "utf-8"));
   const localSchemaHash = getSchemaHash(schemaData);
 
-  let lastPullTime = new Date(0);
-  try {
-    if (fs.existsSync(lastPullTimeFile)) {
-      const lastPullData: LastPullData = JSON.parse(fs.readFileSync(lastPullTimeFile, "utf-8"));
-      lastPullTime = new Date(lastPullData.time);
-      logger.debug(`Last pull was at ${lastPullTime.toISOString()}`);
-    }
-  } catch (err) {
-    logger.warn("Could not read last pull time", err);
-  }
+  const lastPull = readSyncRecord<LastPullData>(lastPullTimeFile);
+  const lastPullTime = lastPull ? new Date(lastPull.time) : new Date(0);
+  if (lastPull) logger.debug(`Last pull was at ${lastPullTime.toISOString()}`);
+
+  const base = readSyncBase(lastPullTimeFile, lastPushFile);
 
-  return { schemaData, localSchemaHash, lastPullTime };
+  return { schemaData, localSchemaHash, lastPullTime, base };
+}
+
+/**
+ * Reads the schema as last synchronized with the server
+ * @param {string} lastPullTimeFile - Path to the last pull time file
+ * @param {string} [lastPushFile] - Path to the last push file
+ * @returns {LastPullData | undefined} Most recent of the last pull and last push records,
+ * undefined if the project was never synchronized
+ */
+export function readSyncBase(
+  lastPullTimeFile: string,
+  lastPushFile?: string
+): LastPullData | undefined {
+  const lastPull = readSyncRecord<LastPullData>(lastPullTimeFile);
+  const lastPush = lastPushFile ? readSyncRecord<LastPushData>(lastPushFile) : undefined;
+
+  if (lastPush && (!lastPull || new Date(lastPush.time) > new Date(lastPull.time))) {
+    const { time, hash, schema, revision } = lastPush;
+    return { time, hash, schema, revision };
+  }
+  return lastPull;
 }
 
 /**
@@ -56,13 +93,15 @@ export async function getLocalSchemaInfo(
  * @param {SchemaData} schemaData - Local schema data
  * @param {string} localSchemaHash - Hash of the local schema
  * @param {Date} lastPullTime - Last pull time
+ * @param {string} [revision] - Pushed revision to fetch instead of the current schema
  * @returns {Promise<AxiosResponse<ServerResponse>>} Server response
  */
 export async function fetchServerSchema(
   authCredentials: AuthCredentials,
   projectCredentials: ProjectCredentials,
   localSchemaHash: string,
-  lastPullTime?: Date
+  lastPullTime?: Date,
+  revision?: string
 ): Promise<AxiosResponse<ServerResponse>> {
   const axiosConfig: AxiosRequestConfig = {
     ...createAuthHeaders(authCredentials),
@@ -76,6 +115,7 @@ export async function fetchServerSchema(
     params: {
       schemaHash: localSchemaHash,
       lastPullTime: lastPullTime?.toISOString(),
+      revision,
     },
     ...axiosConfig,
   });
@@ -91,6 +131,33 @@ export async function fetchServerSchema(
   return response;
 }
 
+/**
+ * Fetches the current schema of the project, or the schema of a pushed revision
+ * @description Sends an empty hash, which never matches, so the server always sends its schema
+ * @param {AuthCredentials} authCredentials - User authentication credentials
+ * @param {ProjectCredentials} projectCredentials - Project credentials
+ * @param {string} [revision] - Pushed revision to fetch instead of the current schema
+ * @returns {Promise<{schema?: SchemaData, revision?: string}>} Schema, absent if the project has
+ * none, and its revision when the server reports it
+ */
+export async function fetchCurrentServerSchema(
+  authCredentials: AuthCredentials,
+  projectCredentials: ProjectCredentials,
+  revision?: string
+): Promise<{ schema?: SchemaData; revision?: string }> {
+  const response = await fetchServerSchema(
+    authCredentials,
+    projectCredentials,
+    "",
+    undefined,
+    revision
+  );
+  return {
+    schema: response.data.schema || response.data.data?.schema,
+    revision: getServerRevision(response.data),
+  };
+}
+
 /**
  * Processes the server response and handles schema updates
  * @param {AxiosResponse<ServerResponse>} response - Server response
@@ -99,7 +166,8 @@ export async function fetchServerSchema(
  * @param {string} schemaFile - Path to the schema file
  * @param {string} lastPullTimeFile - Path to the last pull time file
  * @param {Ora} spinner - Ora spinner instance
- * @param {Date} lastPullTime - Last pull time
+ * @param {LastPullData} [base] - Schema as last synchronized, used to tell which side changed and
+ * to merge conflicts
  * @returns {Promise<void>}
  */
 export async function processServerResponse(
@@ -109,7 +177,7 @@ export async function processServerResponse(
   schemaFile: string,
   lastPullTimeFile: string,
   spinner: Ora,
-  lastPullTime: Date
+  base?: LastPullData
 ): Promise<void> {
   const serverSchema = response.data.schema || response.data.data?.schema;
   if (!serverSchema) {
@@ -119,24 +187,36 @@ export async function processServerResponse(
   }
 
   const serverSchemaHash = getSchemaHash(serverSchema);
-  const hasChanges = serverSchemaHash !== localSchemaHash;
-
-  const hasLocalMods = hasLocalChanges(schemaFile, lastPullTime);
-
   const isUpdated = response.data.data?.updated === true;
 
-  if ((isUpdated || hasChanges) && hasLocalMods) {
-    await handleSchemaConflicts(spinner, schemaData, serverSchema, schemaFile);
-  } else if (isUpdated || hasChanges) {
+  // Both sides are compared by content with the last synchronized schema. Without one, any
+  // difference between them counts as a change on both sides
+  const hasServerChanges = isUpdated || serverSchemaHash !== base?.hash;
+  const hasLocalChanges = localSchemaHash !== base?.hash;
+
+  if (serverSchemaHash === localSchemaHash) {
+    spinner.succeed("✅ Pull completed. Schema is already up to date.");
+    logger.info("Schema is already up to date");
+  } else if (hasServerChanges && hasLocalChanges) {
+    await handleSchemaConflicts(spinner, schemaData, serverSchema, schemaFile, base?.schema);
+  } else if (hasServerChanges) {
     updateSchemaFile(schemaFile, serverSchema);
     spinner.succeed("🚀 Pull completed successfully! Schema updated.");
     logger.info("Schema updated from server");
+    warnIncompatibleChanges(schemaData, serverSchema);
   } else {
-    spinner.succeed("✅ Pull completed. Schema is already up to date.");
-    logger.info("Schema is already up to date");
+    spinner.succeed(
+      "✅ Pull completed. The server schema is unchanged since the last sync; local changes kept."
+    );
+    logger.info("Server schema unchanged since the last sync");
   }
 
-  updateLastPullTime(lastPullTimeFile, serverSchemaHash || localSchemaHash);
+  updateLastPullTime(
+    lastPullTimeFile,
+    serverSchemaHash,
+    serverSchema,
+    getServerRevision(response.data)
+  );
 }
 
 /**
@@ -145,13 +225,15 @@ export async function processServerResponse(
  * @param {SchemaData} localSchema - Local schema data
  * @param {SchemaData} serverSchema - Server schema data
  * @param {string} schemaFile - Path to the schema file
+ * @param {SchemaData} [baseSchema] - Schema recorded at the last pull
  * @returns {Promise<void>}
  */
 export async function handleSchemaConflicts(
   spinner: Ora,
   localSchema: SchemaData,
   serverSchema: SchemaData,
-  schemaFile: string
+  schemaFile: string,
+  baseSchema?: SchemaData
 ): Promise<void> {
   spinner.stop();
   logger.warn("Conflict detected: Both local and server schemas have changed");
@@ -164,37 +246,48 @@ export async function handleSchemaConflicts(
       choices: [
         { name: "Use server version (overwrite local changes)", value: ConflictAction.SERVER },
         { name: "Keep local version (reject server changes)", value: ConflictAction.LOCAL },
-        { name: "Merge changes (server has priority for conflicts)", value: ConflictAction.MERGE },
+        {
+          name: "Merge changes (choose a version for each conflicting column)",
+          value: ConflictAction.MERGE,
+        },
         { name: "View differences before deciding", value: ConflictAction.DIFF },
       ],
     },
   ]);
 
   if (action === ConflictAction.DIFF) {
-    await handleDiffView(spinner, localSchema, serverSchema, schemaFile);
+    await handleDiffView(spinner, localSchema, serverSchema, schemaFile, baseSchema);
   } else {
-    await resolveConflict(action, spinner, localSchema, serverSchema, schemaFile);
+    await resolveConflict(action, spinner, localSchema, serverSchema, schemaFile, baseSchema);
   }
 }
 
 /**
  * Handles the diff view option for conflict resolution
+ * @description Lists the tables and columns the server version adds, removes, renames or changes
+ * compared to the local schema
  * @param {Ora} spinner - Ora spinner instance
  * @param {SchemaData} localSchema - Local schema data
  * @param {SchemaData} serverSchema - Server schema data
  * @param {string} schemaFile - Path to the schema file
+ * @param {SchemaData} [baseSchema] - Schema recorded at the last pull
  * @returns {Promise<void>}
  */
 export async function handleDiffView(
   spinner: Ora,
   localSchema: SchemaData,
   serverSchema: SchemaData,
-  schemaFile: string
+  schemaFile: string,
+  baseSchema?: SchemaData
 ): Promise<void> {
-  console.log(chalk.cyan("\n=== Server Schema (excerpt) ==="));
-  console.log(JSON.stringify(serverSchema, null, 2).substring(0, 500) + "...");
-  console.log(chalk.yellow("\n=== Local Schema (excerpt) ==="));
-  console.log(JSON.stringify(localSchema, null, 2).substring(0, 500) + "...");
+  const changes = diffSchemas(localSchema, serverSchema, { detectRenames: true });
+  const classified = classifySchemaChanges(changes);
+
+  console.log(chalk.cyan("\n=== Server changes compared to the local schema ==="));
+  formatClassifiedChanges(classified).forEach(line => console.log(`  ${line}`));
+  console.log(
+    chalk.gray(`  ${summarizeSchemaChanges(changes)} (${summarizeSeverities(classified)})\n`)
+  );
 
   const { secondAction } = await inquirer.prompt([
     {
@@ -204,12 +297,12 @@ export async function handleDiffView(
       choices: [
         { name: "Use server version", value: ConflictAction.SERVER },
         { name: "Keep local version", value: ConflictAction.LOCAL },
-        { name: "Merge changes (server has priority)", value: ConflictAction.MERGE },
+        { name: "Merge changes", value: ConflictAction.MERGE },
       ],
     },
   ]);
 
-  await resolveConflict(secondAction, spinner, localSchema, serverSchema, schemaFile);
+  await resolveConflict(secondAction, spinner, localSchema, serverSchema, schemaFile, baseSchema);
 }
 
 /**
@@ -219,6 +312,7 @@ export async function handleDiffView(
  * @param {SchemaData} localSchema - Local schema data
  * @param {SchemaData} serverSchema - Server schema data
  * @param {string} schemaFile - Path to the schema file
+ * @param {SchemaData} [baseSchema] - Schema recorded at the last pull, the common ancestor of a merge
  * @returns {Promise<void>}
  */
 export async function resolveConflict(
@@ -226,15 +320,29 @@ export async function resolveConflict(
   spinner: Ora,
   localSchema: SchemaData,
   serverSchema: SchemaData,
-  schemaFile: string
+  schemaFile: string,
+  baseSchema?: SchemaData
 ): Promise<void> {
   if (action === ConflictAction.LOCAL) {
     spinner.succeed("🛑 Pull operation completed. Local schema preserved.");
     logger.info("User chose to keep local schema");
   } else if (action === ConflictAction.MERGE) {
-    const mergedSchema = mergeSchemas(localSchema, serverSchema);
-    updateSchemaFile(schemaFile, mergedSchema);
-    spinner.succeed("🔄 Pull completed with merge. Schema updated.");
+    if (!baseSchema) {
+      logger.warn(
+        "No schema was recorded at the last pull or push: nothing removed on one side can be detected, so removals are not merged."
+      );
+    }
+
+    const merge = mergeThreeWay(baseSchema, localSchema, serverSchema);
+    if (merge.conflicts.length > 0) {
+      spinner.stop();
+      await promptConflictResolutions(merge, !!baseSchema);
+    }
+
+    updateSchemaFile(schemaFile, merge.schema);
+    spinner.succeed(
+      `🔄 Pull completed with merge (${merge.conflicts.length} conflicts resolved). Schema updated.`
+    );
     logger.info("Schemas merged successfully");
   } else {
     updateSchemaFile(schemaFile, serverSchema);
@@ -244,20 +352,89 @@ export async function resolveConflict(
 }
 
 /**
- * Merges local and server schemas
- * @param {SchemaData} localSchema - Local schema data
- * @param {SchemaData} serverSchema - Server schema data
- * @returns {SchemaData} Merged schema
+ * Asks which version to keep for each conflict of a three-way merge
+ * @param {ThreeWayMerge} merge - Merge whose schema is updated with the chosen versions
+ * @param {boolean} hasBase - Whether the last synced version can be chosen
+ * @returns {Promise<void>}
  */
-export function mergeSchemas(localSchema: SchemaData, serverSchema: SchemaData): SchemaData {
-  return {
-    ...localSchema,
-    ...serverSchema,
-    tables: {
-      ...localSchema.tables,
-      ...serverSchema.tables,
-    },
-  };
+export async function promptConflictResolutions(
+  merge: ThreeWayMerge,
+  hasBase: boolean
+): Promise<void> {
+  console.log(chalk.yellow(`\n${merge.conflicts.length} conflicting changes to resolve:`));
+
+  for (const conflict of merge.conflicts) {
+    const name = conflict.column ? `${conflict.table}.${conflict.column}` : conflict.table;
+    const choices = [
+      { name: `Keep local: ${describeConflictValue(conflict.local)}`, value: "local" },
+      { name: `Use server: ${describeConflictValue(conflict.server)}`, value: "server" },
+    ];
+    if (hasBase) {
+      choices.push({
+        name: `Keep last synced: ${describeConflictValue(conflict.base)}`,
+        value: "base",
+      });
+    }
+
+    const { resolution } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "resolution",
+        message: `${name} changed on both sides. Which version do you want?`,
+        choices,
+      },
+    ]);
+
+    resolveSchemaConflict(merge.schema, conflict, resolution as ConflictResolution);
+  }
+}
+
+/**
+ * Lists the risky and breaking changes a pull brought, which code using the schema may need to
+ * follow
+ * @param {SchemaData} previousSchema - Local schema before the pull
+ * @param {SchemaData} pulledSchema - Pulled schema
+ */
+function warnIncompatibleChanges(previousSchema: SchemaData, pulledSchema: SchemaData): void {
+  const incompatible = classifySchemaChanges(
+    diffSchemas(previousSchema, pulledSchema, { detectRenames: true })
+  ).filter(item => item.severity !== "safe");
+  if (incompatible.length === 0) return;
+
+  console.log(
+    chalk.yellow(
+      `⚠️ The pulled changes may affect your code (${summarizeSeverities(incompatible)}):`
+    )
+  );
+  formatClassifiedChanges(incompatible).forEach(line => console.log(`  ${line}`));
+}
+
+/**
+ * Reads a last pull or last push record
+ * @param {string} file - Path to the record
+ * @returns {T | undefined} Record, undefined if missing or unreadable
+ */
+function readSyncRecord<T>(file: string): T | undefined {
+  try {
+    if (fs.existsSync(file)) return JSON.parse(fs.readFileSync(file, "utf-8")) as T;
+  } catch (err) {
+    logger.warn(`Could not read ${path.basename(file)}`, err);
+  }
+  return undefined;
+}
+
+/**
+ * Describes one version of a conflicting table or column
+ * @param {SchemaConflict["local"]} value - Table columns or column, undefined if removed
+ * @returns {string} Column descriptor as JSON, column count of a table, or `removed`
+ */
+function describeConflictValue(value: SchemaConflict["local"]): string {
+  if (value === undefined) return "removed";
+  if (typeof value === "string") return value;
+  if ("type" in value && typeof value.type === "string") return JSON.stringify(value);
+
+  const count = Object.keys(value).length;
+  return `${count} ${count === 1 ? "column" : "columns"}`;
 }
 
 /**
@@ -293,11 +470,20 @@ export function updateSchemaFile(schemaFile: string, schema: SchemaData): void {
  * Updates the last pull time file
  * @param {string} lastPullTimeFile - Path to the last pull time file
  * @param {string} schemaHash - Hash of the schema
+ * @param {SchemaData} [schema] - Server schema pulled, the common ancestor of the next merge
+ * @param {string} [revision] - Server revision pulled
  */
-export function updateLastPullTime(lastPullTimeFile: string, schemaHash: string): void {
+export function updateLastPullTime(
+  lastPullTimeFile: string,
+  schemaHash: string,
+  schema?: SchemaData,
+  revision?: string
+): void {
   const lastPullData: LastPullData = {
     time: new Date().toISOString(),
     hash: schemaHash,
+    schema,
+    revision,
   };
   fs.writeFileSync(lastPullTimeFile, JSON.stringify(lastPullData), "utf-8");
 }
@@ -2,11 +2,37 @@ import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
 import fs from "fs";
 import { Ora } from "ora";
 import chalk from "chalk";
+import inquirer from "inquirer";
 import { requireLogin, createAuthHeaders } from "../core/auth.js";
-import { getSchemaHash } from "../helpers/utils.js";
+import { getSchemaHash, getServerRevision, isNonInteractive } from "../helpers/utils.js";
+import { diffSchemas, summarizeSchemaChanges } from "../helpers/schemaDiff.js";
+import {
+  formatPushPlan,
+  getDestructiveChanges,
+  isSchemaChange,
+  PushPlan,
+} from "../helpers/pushPlan.js";
+import {
+  addChangelogEntry,
+  formatChangelogEntry,
+  planSchemaVersion,
+  SchemaVersionChange,
+} from "../helpers/schemaVersion.js";
+import {
+  ChangeSeverity,
+  classifySchemaChanges,
+  isAtLeast,
+} from "../helpers/schemaCompatibility.js";
+import {
+  fetchCurrentServerSchema,
+  readSyncBase,
+  resolveConflict,
+  updateLastPullTime,
+} from "./pull.service.js";
 import {
   ApiError,
   AuthCredentials,
+  ConflictAction,
   LastPushData,
   ProjectCredentials,
   SchemaData,
@@ -16,6 +42,11 @@ import { API_BASE_URL } from "../config/config.js";
 
 const API_TIMEOUT = 30000;
 
+/**
+ * HTTP status of a push whose base revision is behind the server schema
+ */
+const STALE_BASE_STATUS = 409;
+
 /**
  * Gets local schema information including schema data and hash
  * @param {string} schemaFile - Path to the schema file
@@ -104,13 +135,17 @@ export async function hasSchemaChanged(
  * @param {ProjectCredentials} projectCredentials - Project credentials
  * @param {SchemaData} schemaData - Schema data to push
  * @param {string} schemaHash - Hash of the schema
+ * @param {string} [baseRevision] - Server revision the schema was derived from. The server rejects
+ * the push as stale when its schema moved past this revision; without one, the push is accepted
+ * unconditionally
  * @returns {Promise<AxiosResponse>} Server response
  */
 export async function pushSchemaToServer(
   authCredentials: AuthCredentials,
   projectCredentials: ProjectCredentials,
   schemaData: SchemaData,
-  schemaHash: string
+  schemaHash: string,
+  baseRevision?: string
 ): Promise<AxiosResponse> {
   const axiosConfig: AxiosRequestConfig = {
     ...createAuthHeaders(authCredentials),
@@ -122,21 +157,279 @@ export async function pushSchemaToServer(
   logger.debug("Sending schema to server", {
     url,
     schemaHash,
+    baseRevision,
     tableCount: Object.keys(schemaData.tables || {}).length,
   });
 
-  return axios.post(
-    url,
-    {
-      ...schemaData,
-      _meta: {
-        schemaHash,
-        clientVersion: process.env.npm_package_version || "0.0.0",
-        timestamp: new Date().toISOString(),
+  return axios.post(url, buildPushBody(schemaData, schemaHash, baseRevision), axiosConfig);
+}
+
+/**
+ * Gets the migrations a push of the schema would apply, without applying them
+ * @description The server plans the push from the same request body as the push itself. Servers
+ * that cannot plan answer 404: the server schema is then compared with the local one instead, as
+ * it is when the plan sent by the server is not a list of schema changes
+ * @param {AuthCredentials} authCredentials - User authentication credentials
+ * @param {ProjectCredentials} projectCredentials - Project credentials
+ * @param {SchemaData} schemaData - Schema data to push
+ * @param {string} schemaHash - Hash of the schema
+ * @param {string} [baseRevision] - Server revision the schema was derived from
+ * @returns {Promise<PushPlan>} Tables and columns the push creates, alters or drops
+ */
+export async function fetchPushPlan(
+  authCredentials: AuthCredentials,
+  projectCredentials: ProjectCredentials,
+  schemaData: SchemaData,
+  schemaHash: string,
+  baseRevision?: string
+): Promise<PushPlan> {
+  const axiosConfig: AxiosRequestConfig = {
+    ...createAuthHeaders(authCredentials),
+    timeout: API_TIMEOUT,
+  };
+
+  const url = `${API_BASE_URL}/projects/${projectCredentials.id}/push/plan`;
+
+  try {
+    const response = await axios.post(
+      url,
+      buildPushBody(schemaData, schemaHash, baseRevision),
+      axiosConfig
+    );
+    const changes = response.data?.plan ?? response.data?.data?.plan;
+    if (Array.isArray(changes) && changes.every(isSchemaChange)) {
+      return { source: "server", changes };
+    }
+    logger.warn("The server sent an invalid push plan, comparing the schemas locally");
+  } catch (err) {
+    if ((err as ApiError).response?.status !== 404) throw err;
+  }
+
+  logger.debug("The server cannot plan pushes, comparing the schemas locally");
+  const { schema: serverSchema } = await fetchCurrentServerSchema(
+    authCredentials,
+    projectCredentials
+  );
+  return { source: "local", changes: diffSchemas(serverSchema || { tables: {} }, schemaData) };
+}
+
+/**
+ * Determines if a push needs its plan
+ * @description The plan is fetched for a dry run, for a `failOn` threshold, and when destructive
+ * changes would need a confirmation. Pushes that allow destructive changes, or that nobody can
+ * confirm, go ahead without it, so CI pushes behave as before plans existed
+ * @param {{dryRun?: boolean, allowDestructive?: boolean, failOn?: ChangeSeverity}} options - Push
+ * options
+ * @returns {boolean} True if the plan should be fetched and reviewed before pushing
+ */
+export function needsPushPlan(options: {
+  dryRun?: boolean;
+  allowDestructive?: boolean;
+  failOn?: ChangeSeverity;
+}): boolean {
+  return !!options.dryRun || !!options.failOn || (!options.allowDestructive && !isNonInteractive());
+}
+
+/**
+ * Shows a push plan and decides whether the push may proceed
+ * @description Changes reaching the `failOn` severity refuse the push. Destructive changes need
+ * `allowDestructive`, or a confirmation when someone can answer. A dry run never proceeds, and
+ * fails like a refused push when it holds changes that are not allowed, so CI jobs can check a
+ * schema before merging it
+ * @param {PushPlan} plan - Push plan
+ * @param {{dryRun?: boolean, allowDestructive?: boolean, failOn?: ChangeSeverity}} options - Push options
+ * @returns {Promise<boolean>} True if the schema should be pushed
+ */
+export async function reviewPushPlan(
+  plan: PushPlan,
+  options: { dryRun?: boolean; allowDestructive?: boolean; failOn?: ChangeSeverity }
+): Promise<boolean> {
+  const destructive = getDestructiveChanges(plan);
+
+  console.log(
+    chalk.cyan(
+      plan.source === "server"
+        ? "\nPush plan computed by the server:"
+        : "\nPush plan estimated from the server schema:"
+    )
+  );
+  formatPushPlan(plan).forEach(line => console.log(`  ${line}`));
+  console.log(chalk.gray(`  ${summarizeSchemaChanges(plan.changes)}\n`));
+
+  const { failOn } = options;
+  const refused = failOn
+    ? classifySchemaChanges(plan.changes).filter(item => isAtLeast(item.severity, failOn))
+    : [];
+  if (failOn && refused.length > 0) {
+    console.error(
+      chalk.red(
+        `❌ ${refused.length} ${refused.length === 1 ? "change is" : "changes are"} ${failOn} or worse (--fail-on ${failOn}).`
+      )
+    );
+    process.exitCode = 1;
+    return false;
+  }
+
+  if (destructive.length > 0 && !options.allowDestructive) {
+    const count = `${destructive.length} destructive ${destructive.length === 1 ? "change" : "changes"}`;
+
+    if (options.dryRun || isNonInteractive()) {
+      console.error(chalk.red(`❌ ${count}. Pass --allow-destructive to push them.`));
+      process.exitCode = 1;
+      return false;
+    }
+
+    const { confirmed } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirmed",
+        message: `The push includes ${count} that lose stored data. Push anyway?`,
+        default: false,
       },
+    ]);
+    if (!confirmed) {
+      console.log(chalk.yellow("Push cancelled."));
+      return false;
+    }
+  }
+
+  if (options.dryRun) {
+    console.log(chalk.blue("ℹ️ Dry run: nothing was pushed."));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Determines if a push was rejected because the server schema changed since its base revision
+ * @param {unknown} err - Error thrown by the push request
+ * @returns {boolean} True for a stale base rejection
+ */
+export function isStaleBaseError(err: unknown): boolean {
+  return (err as ApiError).response?.status === STALE_BASE_STATUS;
+}
+
+/**
+ * Offers to pull and merge the server schema after a stale base rejection
+ * @description The server schema is merged three-way into the local schema file, against the
+ * schema as last synchronized, asking which version to keep for each conflicting change. It is then
+ * recorded as the last pull, so the next push is based on the current server revision. Without a
+ * terminal to ask, the push fails with the commands to run instead
+ * @param {unknown} err - Stale base rejection
+ * @param {AuthCredentials} authCredentials - User authentication credentials
+ * @param {ProjectCredentials} projectCredentials - Project credentials
+ * @param {string} schemaFile - Path to the schema file
+ * @param {string} lastPullTimeFile - Path to the last pull time file
+ * @param {string} lastPushFile - Path to the last push file
+ * @param {Ora} spinner - Ora spinner instance
+ * @returns {Promise<boolean>} True if the schemas were merged and the merged schema should be pushed
+ */
+export async function handleStaleBase(
+  err: unknown,
+  authCredentials: AuthCredentials,
+  projectCredentials: ProjectCredentials,
+  schemaFile: string,
+  lastPullTimeFile: string,
+  lastPushFile: string,
+  spinner: Ora
+): Promise<boolean> {
+  const { schemaData } = await getLocalSchemaInfo(schemaFile);
+  const base = readSyncBase(lastPullTimeFile, lastPushFile);
+  const serverRevision = getServerRevision((err as ApiError).response?.data as object);
+
+  spinner.warn(
+    `⚠️ Push rejected: the server schema changed since revision ${base?.revision ?? "unknown"}` +
+      (serverRevision ? ` (now ${serverRevision})` : "")
+  );
+  logger.warn("Push rejected as stale", { baseRevision: base?.revision, serverRevision });
+
+  if (isNonInteractive()) {
+    console.error(chalk.red("❌ Run `hosby pull` to merge the server changes, then push again."));
+    process.exitCode = 1;
+    return false;
+  }
+
+  const { merge } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "merge",
+      message: "Pull the server schema and merge it with your changes?",
+      default: true,
     },
-    axiosConfig
+  ]);
+  if (!merge) {
+    console.log(chalk.yellow("Run `hosby pull` to merge the server changes, then push again."));
+    return false;
+  }
+
+  spinner.start("🔹 Pulling latest schema from server...");
+  const { schema: serverSchema, revision } = await fetchCurrentServerSchema(
+    authCredentials,
+    projectCredentials
   );
+  if (!serverSchema) {
+    throw new Error("The server rejected the push but sent no schema to merge.");
+  }
+
+  await resolveConflict(
+    ConflictAction.MERGE,
+    spinner,
+    schemaData,
+    serverSchema,
+    schemaFile,
+    base?.schema
+  );
+  updateLastPullTime(lastPullTimeFile, getSchemaHash(serverSchema), serverSchema, revision);
+
+  const { retry } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "retry",
+      message: "Push the merged schema now?",
+      default: true,
+    },
+  ]);
+  return retry;
+}
+
+/**
+ * Works out the version of the schema to push from the changes since the last push
+ * @param {string} lastPushFile - Path to the last push file
+ * @param {SchemaData} schemaData - Schema to push
+ * @returns {SchemaVersionChange} Version to push and the changes behind it
+ */
+export function planPushVersion(lastPushFile: string, schemaData: SchemaData): SchemaVersionChange {
+  let pushed: SchemaData | undefined;
+  try {
+    if (fs.existsSync(lastPushFile)) {
+      pushed = (JSON.parse(fs.readFileSync(lastPushFile, "utf-8")) as LastPushData).schema;
+    }
+  } catch (err) {
+    logger.warn("Could not read last push data", err);
+  }
+
+  return planSchemaVersion(pushed, schemaData);
+}
+
+/**
+ * Records a pushed version in the schema changelog
+ * @description A forced push of an unchanged schema adds no entry
+ * @param {string} changelogFile - Path to the schema changelog
+ * @param {SchemaVersionChange} versionChange - Pushed version
+ */
+export function recordSchemaVersion(
+  changelogFile: string,
+  versionChange: SchemaVersionChange
+): void {
+  if (versionChange.previous === versionChange.version && versionChange.changes.length === 0) {
+    return;
+  }
+
+  try {
+    addChangelogEntry(changelogFile, formatChangelogEntry(versionChange));
+  } catch (err) {
+    logger.warn("Could not update the schema changelog", err);
+  }
 }
 
 /**
@@ -144,16 +437,23 @@ export async function pushSchemaToServer(
  * @param {string} lastPushFile - Path to the last push file
  * @param {string} schemaHash - Hash of the schema
  * @param {string} projectId - Project ID
+ * @param {SchemaData} schemaData - Schema pushed, kept as a snapshot for `hosby diff` and as the
+ * base of the next pull
+ * @param {string} [revision] - Server revision created by the push
  */
 export function updateLastPushFile(
   lastPushFile: string,
   schemaHash: string,
-  projectId: string
+  projectId: string,
+  schemaData: SchemaData,
+  revision?: string
 ): void {
   const lastPushData: LastPushData = {
     time: new Date().toISOString(),
     hash: schemaHash,
     id: projectId,
+    schema: schemaData,
+    revision,
   };
 
   fs.writeFileSync(lastPushFile, JSON.stringify(lastPushData), "utf-8");
@@ -161,9 +461,29 @@ export function updateLastPushFile(
     time: lastPushData.time,
     hash: schemaHash,
     projectId,
+    revision,
   });
 }
 
+/**
+ * Builds the request body of a push
+ * @param {SchemaData} schemaData - Schema data to push
+ * @param {string} schemaHash - Hash of the schema
+ * @param {string} [baseRevision] - Server revision the schema was derived from
+ * @returns {object} Schema with push metadata under `_meta`
+ */
+function buildPushBody(schemaData: SchemaData, schemaHash: string, baseRevision?: string): object {
+  return {
+    ...schemaData,
+    _meta: {
+      schemaHash,
+      baseRevision,
+      clientVersion: process.env.npm_package_version || "0.0.0",
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
 /**
  * Handles errors that occur during the push operation
  * @param {Error} err - Error object
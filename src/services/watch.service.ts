@@ -0,0 +1,328 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import logger from "../helpers/logger.js";
+import { scanProject } from "../scripts/schema.js";
+import { filterSchema, sanitizeSchema } from "../helpers/filterSchema.js";
+import {
+  diffSchemas,
+  formatSchemaChanges,
+  getChangedTables,
+  SchemaChange,
+} from "../helpers/schemaDiff.js";
+import { mergeSchemas } from "../helpers/schemaMerge.js";
+import { generateServiceFromTemplate } from "../helpers/utils.js";
+import { getProvenancePath, writeProvenance } from "../helpers/provenance.js";
+import { HosbySchema, SchemaProvenance, TableNamingStrategy } from "../types/types.js";
+
+/**
+ * Options of a schema rebuild
+ * @property {string} schemaPath - Schema file to update
+ * @property {TableNamingStrategy} [naming] - Strategy used to name tables
+ * @property {boolean} [merge] - Whether to merge the scan into the schema file, keeping its manual
+ * edits, instead of replacing it
+ * @property {string} [servicesDir] - Directory of the generated services to regenerate, if any
+ */
+export type RebuildOptions = {
+  schemaPath: string;
+  naming?: TableNamingStrategy;
+  merge?: boolean;
+  servicesDir?: string;
+};
+
+/**
+ * Result of a schema rebuild
+ * @property {SchemaChange[]} changes - Differences with the previous schema file
+ * @property {string[]} services - Service files regenerated
+ * @property {string[]} written - Every file the rebuild wrote, the schema file included
+ */
+export type RebuildResult = {
+  changes: SchemaChange[];
+  services: string[];
+  written: string[];
+};
+
+/**
+ * Delay during which file events are grouped into a single rebuild, in milliseconds
+ */
+const WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Extensions of the files a rebuild depends on
+ */
+const WATCHED_EXTENSIONS =
+  /\.(ts|tsx|js|jsx|vue|svelte|astro|json|ndjson|jsonl|ya?ml|graphqls?|gql)$/;
+
+/**
+ * Directories whose files never change the schema
+ */
+const IGNORED_DIRECTORIES = /(^|[\\/])(node_modules|dist|build|coverage|\.git|\.hosby)([\\/]|$)/;
+
+/**
+ * Time during which events on a file written by the watcher itself are ignored, in milliseconds
+ */
+const OWN_WRITE_GRACE_MS = 1000;
+
+/**
+ * Scans a project again and updates its schema file
+ * @description The scan reuses the scan cache, so only the files changed since the previous rebuild
+ * are analysed. The schema file and its provenance are only written when the schema changed. With
+ * a services directory, the template services of the changed tables that already have a service
+ * file are regenerated
+ * @param {string} scanPath - Path to scan for project files
+ * @param {RebuildOptions} options - Schema file, naming strategy and services directory
+ * @returns {Promise<RebuildResult>} Changes, regenerated services and written files
+ */
+export async function rebuildSchema(
+  scanPath: string,
+  options: RebuildOptions
+): Promise<RebuildResult> {
+  const previous = readSchemaFile(options.schemaPath);
+  const provenance: SchemaProvenance = { scanner: "static", tables: {} };
+  const scanned = filterSchema(
+    sanitizeSchema(await scanProject(scanPath, { naming: options.naming, provenance }))
+  );
+  const schema = options.merge ? mergeSchemas(previous, scanned).schema : scanned;
+  const changes = diffSchemas(previous, schema);
+
+  if (changes.length === 0) {
+    return { changes, services: [], written: [] };
+  }
+
+  fs.writeFileSync(options.schemaPath, JSON.stringify(schema, null, 2));
+  writeProvenance(options.schemaPath, provenance, Object.keys(schema.tables));
+
+  const services = options.servicesDir
+    ? regenerateServices(schema, getChangedTables(changes), options.servicesDir)
+    : [];
+
+  return {
+    changes,
+    services,
+    written: [options.schemaPath, getProvenancePath(options.schemaPath), ...services],
+  };
+}
+
+/**
+ * Watches a project and rebuilds its schema on every save
+ * @description File events are debounced and rebuilds never overlap: changes made during a rebuild
+ * trigger another one once it ends, while events on the files a rebuild wrote itself are ignored.
+ * Each rebuild prints the table and column changes. Resolves
+ * when the process receives SIGINT, or when the scanned directory can no longer be watched
+ * @param {string} scanPath - Path to scan for project files
+ * @param {RebuildOptions} options - Schema file, naming strategy and services directory
+ * @returns {Promise<void>} Resolves when watching stops
+ */
+export async function watchSchema(scanPath: string, options: RebuildOptions): Promise<void> {
+  const ownWrites = new Map<string, number>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+  let pending = false;
+
+  const rebuild = async (): Promise<void> => {
+    if (running) {
+      pending = true;
+      return;
+    }
+
+    running = true;
+    try {
+      const started = Date.now();
+      const { changes, services, written } = await rebuildSchema(scanPath, options);
+      const time = chalk.gray(new Date().toLocaleTimeString());
+
+      if (changes.length === 0) {
+        console.log(`${time} No schema changes (${Date.now() - started}ms)`);
+      } else {
+        written.forEach(file => ownWrites.set(path.resolve(file), Date.now()));
+
+        console.log(`${time} Updated ${options.schemaPath} (${Date.now() - started}ms)`);
+        formatSchemaChanges(changes).forEach(line => console.log(`  ${line}`));
+        services.forEach(service => console.log(chalk.cyan(`  ↻ ${service}`)));
+      }
+    } catch (error: unknown) {
+      logger.error(`Schema rebuild failed: ${(error as Error)?.message || "Unknown error"}`);
+    } finally {
+      running = false;
+    }
+
+    if (pending) {
+      pending = false;
+      await rebuild();
+    }
+  };
+
+  await rebuild();
+
+  const root = path.resolve(scanPath);
+  let closeWatchers: () => void = () => undefined;
+
+  await new Promise<void>(resolve => {
+    const stop = (): void => {
+      process.removeListener("SIGINT", onInterrupt);
+      clearTimeout(timer);
+      closeWatchers();
+      resolve();
+    };
+    const onInterrupt = (): void => {
+      console.log("\nStopped watching.");
+      stop();
+    };
+
+    closeWatchers = watchDirectoryTree(
+      root,
+      filePath => {
+        const fileName = path.relative(root, filePath);
+        if (IGNORED_DIRECTORIES.test(fileName) || !WATCHED_EXTENSIONS.test(fileName)) return;
+        if (Date.now() - (ownWrites.get(filePath) || 0) < OWN_WRITE_GRACE_MS) return;
+
+        logger.debug(`Changed: ${filePath}`);
+        clearTimeout(timer);
+        timer = setTimeout(rebuild, WATCH_DEBOUNCE_MS);
+      },
+      error => {
+        logger.error(`Stopped watching ${root}: ${error.message}`);
+        process.exitCode = 1;
+        stop();
+      }
+    );
+
+    process.once("SIGINT", onInterrupt);
+    console.log(chalk.cyan(`👀 Watching ${root} for changes (Ctrl+C to stop)`));
+  });
+}
+
+/**
+ * Watches a directory and its subdirectories
+ * @description Uses a single recursive watcher where the platform supports it. Elsewhere, such as
+ * Linux before Node 20, each directory gets its own watcher and directories created later are
+ * watched as they appear. Subdirectories that disappear stop being watched
+ * @param {string} root - Absolute path of the directory to watch
+ * @param {(filePath: string) => void} onChange - Called with the absolute path of a changed file
+ * @param {(error: Error) => void} onError - Called when the root directory can no longer be watched
+ * @returns {() => void} Closes every watcher
+ */
+export function watchDirectoryTree(
+  root: string,
+  onChange: (filePath: string) => void,
+  onError: (error: Error) => void
+): () => void {
+  try {
+    const watcher = fs.watch(root, { recursive: true }, (_event, fileName) => {
+      if (fileName) onChange(path.resolve(root, fileName.toString()));
+    });
+    watcher.on("error", onError);
+    return () => watcher.close();
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+      throw error;
+    }
+  }
+
+  logger.debug("Recursive watching is not available, watching each directory");
+  const watchers = new Map<string, fs.FSWatcher>();
+
+  const unwatch = (directory: string): void => {
+    watchers.get(directory)?.close();
+    watchers.delete(directory);
+  };
+
+  const watchDirectory = (directory: string): void => {
+    if (watchers.has(directory) || IGNORED_DIRECTORIES.test(path.relative(root, directory))) {
+      return;
+    }
+
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(directory, (_event, fileName) => {
+        if (!fileName) return;
+        const filePath = path.join(directory, fileName.toString());
+        if (isDirectory(filePath)) {
+          watchDirectory(filePath);
+        } else {
+          if (watchers.has(filePath)) unwatch(filePath);
+          onChange(filePath);
+        }
+      });
+    } catch (error: unknown) {
+      // A subdirectory removed before it could be watched has nothing left to watch
+      if (directory === root) throw error;
+      return;
+    }
+
+    watcher.on("error", error => {
+      if (directory === root) {
+        onError(error);
+      } else {
+        unwatch(directory);
+      }
+    });
+    watchers.set(directory, watcher);
+
+    readSubdirectories(directory).forEach(watchDirectory);
+  };
+
+  watchDirectory(root);
+  return () => [...watchers.keys()].forEach(unwatch);
+}
+
+/**
+ * Determines if a path is a directory
+ * @param {string} filePath - Path to check
+ * @returns {boolean} True if the path exists and is a directory
+ */
+function isDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lists the subdirectories of a directory
+ * @param {string} directory - Directory to read
+ * @returns {string[]} Absolute paths, empty if the directory cannot be read
+ */
+function readSubdirectories(directory: string): string[] {
+  try {
+    return fs
+      .readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => path.join(directory, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Reads a schema file
+ * @param {string} schemaPath - Schema file path
+ * @returns {HosbySchema} Schema, empty if the file does not exist or cannot be parsed
+ */
+function readSchemaFile(schemaPath: string): HosbySchema {
+  try {
+    return JSON.parse(fs.readFileSync(schemaPath, "utf-8"));
+  } catch {
+    return { tables: {} };
+  }
+}
+
+/**
+ * Regenerates the template services of tables
+ * @description Only tables with an existing `<table>.service.ts` are regenerated, so services are
+ * never created behind the user's back
+ * @param {HosbySchema} schema - Updated schema
+ * @param {string[]} tables - Changed tables
+ * @param {string} servicesDir - Directory of the generated services
+ * @returns {string[]} Service files written
+ */
+function regenerateServices(schema: HosbySchema, tables: string[], servicesDir: string): string[] {
+  return tables.flatMap(table => {
+    const serviceFile = path.join(servicesDir, `${table}.service.ts`);
+    if (!schema.tables[table] || !fs.existsSync(serviceFile)) return [];
+
+    fs.writeFileSync(serviceFile, generateServiceFromTemplate(table, schema.tables[table]));
+    return [serviceFile];
+  });
+}
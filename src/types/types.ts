@@ -25,13 +25,42 @@ export type ApiError = {
  * @property {string} time - Time of the last push
  * @property {string} hash - Hash of the schema at the last push
  * @property {string} id - Project ID
+ * @property {SchemaData} [schema] - Schema pushed, absent for pushes made by older versions
+ * @property {string} [revision] - Server revision created by the push, when the server reports one
  */
 export type LastPushData = {
   time: string;
   hash: string;
   id: string;
+  schema?: SchemaData;
+  revision?: string;
 };
 
+/**
+ * Column descriptor in a Hosby schema
+ * @property {string} type - Column type (string, number, boolean, date, array, object, enum, relation)
+ * @property {boolean} [required] - Whether a value must be provided
+ * @property {boolean} [nullable] - Whether the column accepts null
+ * @property {unknown} [default] - Default value of the column
+ * @property {string} [items] - Element type of array columns
+ * @property {Array<string | number>} [enum] - Allowed values of enum columns
+ */
+export type ColumnDefinition = {
+  type: string;
+  required?: boolean;
+  nullable?: boolean;
+  default?: unknown;
+  items?: string;
+  enum?: Array<string | number>;
+  [key: string]: unknown;
+};
+
+/**
+ * Column of a Hosby schema table
+ * @description Either a legacy type string such as "string" or "enum:[a,b]", or a column descriptor
+ */
+export type SchemaColumn = string | ColumnDefinition;
+
 /**
  * Schema structure for Hosby
  * @property {Object} tables - Tables in the schema
@@ -40,12 +69,46 @@ export type LastPushData = {
  * @property {any} [key: string] - Additional properties
  */
 export interface HosbySchema {
-  tables: Record<string, Record<string, string | object>>;
+  tables: Record<string, Record<string, SchemaColumn>>;
   metadata?: Record<string, unknown>;
   version?: string;
   [key: string]: unknown;
 }
 
+/**
+ * Kind of relation between two tables
+ */
+export type RelationKind = "one-to-one" | "one-to-many" | "many-to-one" | "many-to-many";
+
+/**
+ * Relation column linking a table to another table of the schema
+ * @property {string} type - Always "relation"
+ * @property {RelationKind} relation - Kind of relation
+ * @property {string} target - Name of the referenced table
+ * @property {string} [through] - Suggested join table name for many-to-many relations
+ */
+export type RelationColumn = ColumnDefinition & {
+  type: "relation";
+  relation: RelationKind;
+  target: string;
+  through?: string;
+};
+
+/**
+ * Table naming strategy used when turning model names into table names
+ * @description "snake_plural" (auth_credentials), "camel_plural" (authCredentials),
+ * "singular" (auth_credential) or "verbatim" (AuthCredential)
+ */
+export type TableNamingStrategy = "snake_plural" | "camel_plural" | "singular" | "verbatim";
+
+/**
+ * Project-level configuration stored in hosby.config.json
+ * @property {TableNamingStrategy} [naming] - Table naming strategy
+ */
+export type ProjectConfig = {
+  naming?: TableNamingStrategy;
+};
+
 /**
  * Authentication credentials
  * @property {string} userId - User ID
@@ -74,12 +137,135 @@ export type ProjectCredentials = {
  * @property {number} [timeout] - Timeout in milliseconds for the AI request
  * @property {AIProvider} [provider] - AI provider to use (openai or claude)
  * @property {string} [customPrompt] - Custom prompt to use instead of the default system prompt
+ * @property {boolean} [cache] - Whether file scores may be read from the scan cache, true by default
+ * @property {SchemaProvenance} [provenance] - Filled with the files sent to the AI and the
+ * declarations matching each table
  */
 export type AnalyzeOptions = {
   apiKey?: string;
   timeout?: number;
   provider?: AIProvider;
   customSystemPrompt?: string;
+  cache?: boolean;
+  provenance?: SchemaProvenance;
+};
+
+/**
+ * Options for the static project scan
+ * @property {TableNamingStrategy} [naming] - Strategy used to name tables
+ * @property {boolean} [cache] - Whether unchanged files may be read from the scan cache, true by
+ * default
+ * @property {SchemaProvenance} [provenance] - Filled with the origin of each table and column
+ */
+export type ScanProjectOptions = {
+  naming?: TableNamingStrategy;
+  cache?: boolean;
+  provenance?: SchemaProvenance;
+};
+
+/**
+ * A place in the sources of a project
+ * @property {string} file - File path
+ * @property {number} [line] - 1-based line of the declaration
+ * @property {string} [declaration] - Declaration name, e.g. an interface, a variable or a JSON key
+ */
+export type SourceLocation = {
+  file: string;
+  line?: number;
+  declaration?: string;
+};
+
+/**
+ * What produced a table or column of a generated schema
+ */
+export type ProvenanceKind =
+  "declaration" | "validator" | "openapi" | "graphql" | "fixture" | "mock" | "ai";
+
+/**
+ * A source of a table or column
+ * @property {ProvenanceKind} kind - What produced it
+ */
+export type ProvenanceSource = SourceLocation & { kind: ProvenanceKind };
+
+/**
+ * Origin of a table
+ * @property {ProvenanceSource[]} sources - Sources that produced or completed the table
+ * @property {Record<string, ProvenanceSource>} columns - Source of each column
+ */
+export type TableProvenance = {
+  sources: ProvenanceSource[];
+  columns: Record<string, ProvenanceSource>;
+};
+
+/**
+ * Origin of the tables and columns of a generated schema, saved next to the schema file
+ * @property {"static" | "ai"} scanner - Scanner that generated the schema
+ * @property {string[]} [files] - Files sent to the AI, for AI scans
+ * @property {Record<string, TableProvenance>} tables - Origin of each table
+ */
+export type SchemaProvenance = {
+  scanner: "static" | "ai";
+  files?: string[];
+  tables: Record<string, TableProvenance>;
+};
+
+/**
+ * ORM/ODM definition and API contract formats supported by `hosby import`
+ */
+export type ImportFormat = "prisma" | "typeorm" | "drizzle" | "mongoose" | "openapi" | "graphql";
+
+/**
+ * Options for importing ORM/ODM definitions
+ * @property {ImportFormat} [format] - Format of the definitions, detected from the source if omitted
+ * @property {TableNamingStrategy} [naming] - Strategy used to name tables without an explicit name
+ */
+export type ImportSchemaOptions = {
+  format?: ImportFormat;
+  naming?: TableNamingStrategy;
+};
+
+/**
+ * An index over one or more columns of a table
+ * @property {string[]} columns - Indexed columns
+ * @property {boolean} [unique] - Whether the index enforces uniqueness
+ */
+export type SchemaIndex = {
+  columns: string[];
+  unique?: boolean;
+};
+
+/**
+ * A reference from an imported model to another imported model
+ * @property {string} property - Name of the referencing field
+ * @property {string} target - Name of the referenced model, as known to the importer
+ * @property {boolean} many - Whether the field holds many references
+ * @property {boolean} required - Whether the field is required
+ * @property {RelationKind} [relation] - Relation kind, when the ORM declares it
+ */
+export type ImportedReference = {
+  property: string;
+  target: string;
+  many: boolean;
+  required: boolean;
+  relation?: RelationKind;
+};
+
+/**
+ * A model read from ORM/ODM definitions
+ * @property {string} name - Model, class or variable name referenced by relations
+ * @property {string} [tableName] - Table or collection name declared by the definition
+ * @property {Record<string, ColumnDefinition>} columns - Scalar columns in declaration order
+ * @property {ImportedReference[]} references - Relation fields
+ * @property {SchemaIndex[]} indexes - Indexes spanning several columns
+ * @property {SourceLocation} [location] - Where the model is defined, when known
+ */
+export type ImportedModel = {
+  name: string;
+  tableName?: string;
+  columns: Record<string, ColumnDefinition>;
+  references: ImportedReference[];
+  indexes: SchemaIndex[];
+  location?: SourceLocation;
 };
 
 /**
@@ -122,14 +308,37 @@ export type ServerResponse = {
   [key: string]: any;
 };
 
+/**
+ * Pushed revision of a project schema, as listed by the server
+ * @property {string} revision - Revision identifier
+ * @property {string} [author] - Who pushed the revision
+ * @property {string} [time] - When the revision was pushed
+ * @property {string} [hash] - Hash of the pushed schema
+ * @property {string} [version] - Schema version of the revision
+ * @property {string} [summary] - Summary of the changes of the revision
+ */
+export type SchemaRevision = {
+  revision: string;
+  author?: string;
+  time?: string;
+  hash?: string;
+  version?: string;
+  summary?: string;
+};
+
 /**
  * Last pull data structure
  * @property {string} time - Time of the last pull
  * @property {string} hash - Hash of the schema at the last pull
+ * @property {SchemaData} [schema] - Server schema at the last pull, the common ancestor of the next
+ * merge; absent for pulls made by older versions
+ * @property {string} [revision] - Server revision pulled, when the server reports one
  */
 export type LastPullData = {
   time: string;
   hash: string;
+  schema?: SchemaData;
+  revision?: string;
 };
 
 /**
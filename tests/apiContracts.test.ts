@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import { scanProject } from "../src/scripts/schema";
+import { detectImportFormat, importSchema } from "../src/scripts/importSchema";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("API contracts", () => {
+  const project = useTempProject("hosby-contracts");
+  const { writeFile } = project;
+
+  const openApiDocument = `openapi: 3.1.0
+info:
+  title: Shop
+  version: 1.0.0
+tags:
+  - name: shop
+components:
+  schemas:
+    Timestamps:
+      type: object
+      properties:
+        createdAt: { type: string, format: date-time }
+    Customer:
+      allOf:
+        - $ref: "#/components/schemas/Timestamps"
+        - type: object
+          required: [id, email]
+          properties:
+            id: { type: string, format: uuid }
+            email: { type: string, format: email, maxLength: 120 }
+            tier: { type: string, enum: [free, pro], default: free }
+            nickname: { type: [string, "null"] }
+            orders:
+              type: array
+              items: { $ref: "#/components/schemas/Order" }
+    Order:
+      type: object
+      required: [id, customer]
+      properties:
+        id: { type: integer }
+        customer: { $ref: "#/components/schemas/Customer" }
+        total: { type: number, minimum: 0 }
+        lines:
+          type: array
+          items: { type: object, properties: { sku: { type: string } } }
+    OrderListResponse:
+      type: object
+      properties:
+        items: { type: array, items: { $ref: "#/components/schemas/Order" } }
+    Audit:
+      type: object
+      x-hosby-ignore: true
+      properties:
+        action: { type: string }
+`;
+
+  it("should read OpenAPI component schemas during a scan", async () => {
+    writeFile("api/openapi.yaml", openApiDocument);
+    writeFile(
+      "src/models.ts",
+      `export interface Customer {
+         id: number;
+         favoriteColor?: string;
+       }`
+    );
+
+    const schema = await scanProject(project.dir);
+
+    expect(schema.tables.customers).toEqual({
+      id: { type: "string", required: true, format: "uuid" },
+      favoriteColor: { type: "string", required: false },
+      createdAt: { type: "date", required: false },
+      email: { type: "string", required: true, format: "email", maxLength: 120 },
+      tier: { type: "enum", required: false, enum: ["free", "pro"], default: "free" },
+      nickname: { type: "string", required: false, nullable: true },
+      orders: { type: "relation", relation: "one-to-many", target: "orders", required: false },
+    });
+    expect(schema.tables.orders).toEqual({
+      id: { type: "number", required: true },
+      total: { type: "number", required: false, min: 0 },
+      lines: { type: "array", required: false, items: "object" },
+      customer: { type: "relation", relation: "many-to-one", target: "customers", required: true },
+    });
+    expect(schema.tables.order_list_responses).toBeUndefined();
+    expect(schema.tables.audits).toBeUndefined();
+    expect(schema.tables.tags).toBeUndefined();
+    expect(schema.metadata?.annotatedTables).toEqual(["timestamps", "customers", "orders"]);
+  }, 20000);
+
+  it("should read GraphQL object types during a scan", async () => {
+    writeFile(
+      "schema.graphql",
+      `scalar DateTime
+
+       enum Role { ADMIN MEMBER }
+
+       """
+       Registered account
+       @hosby.table accounts
+       """
+       type User {
+         id: ID!
+         email: String!
+         role: Role!
+         joinedAt: DateTime
+         posts(first: Int): PostConnection!
+       }
+
+       type Post {
+         id: ID!
+         title: String!
+         tags: [String!]!
+         author: User!
+       }
+
+       type PostConnection { edges: [PostEdge!]! pageInfo: PageInfo! }
+       type PostEdge { node: Post! cursor: String! }
+       type PageInfo { hasNextPage: Boolean! }
+
+       type Query { me: User }`
+    );
+    writeFile("extensions.gql", `extend type Post { publishedAt: DateTime }`);
+
+    const schema = await scanProject(project.dir);
+
+    expect(schema.tables.accounts).toEqual({
+      id: { type: "string", required: true },
+      email: { type: "string", required: true },
+      role: { type: "enum", enum: ["ADMIN", "MEMBER"], required: true },
+      joinedAt: { type: "date", required: false, nullable: true },
+      posts: { type: "relation", relation: "one-to-many", target: "posts", required: true },
+    });
+    expect(schema.tables.posts).toEqual({
+      id: { type: "string", required: true },
+      title: { type: "string", required: true },
+      tags: { type: "array", items: "string", required: true },
+      publishedAt: { type: "date", required: false, nullable: true },
+      author: { type: "relation", relation: "many-to-one", target: "accounts", required: true },
+    });
+    expect(Object.keys(schema.tables).sort()).toEqual(["accounts", "posts"]);
+  }, 20000);
+
+  it("should import API contracts with hosby import", async () => {
+    writeFile("contracts/openapi.yaml", openApiDocument);
+    writeFile("graph/schema.graphqls", `type Tag { label: String! }`);
+
+    expect(detectImportFormat(path.join(project.dir, "contracts"))).toBe("openapi");
+    expect(detectImportFormat(path.join(project.dir, "graph"))).toBe("graphql");
+
+    const schema = await importSchema(path.join(project.dir, "graph"));
+    expect(schema.tables).toEqual({ tags: { label: { type: "string", required: true } } });
+    expect(schema.metadata?.importedFrom).toBe("graphql");
+  });
+});
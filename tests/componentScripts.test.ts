@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { scanProject } from "../src/scripts/schema";
+import { extractComponentScript } from "../src/scripts/componentScripts";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("component script blocks", () => {
+  const project = useTempProject("hosby-components");
+  const { writeFile } = project;
+
+  it("should keep script blocks in place and blank the rest of the component", () => {
+    const content = [
+      "<template>",
+      "  <p>{{ user.name }}</p>",
+      "</template>",
+      '<script lang="ts">',
+      "export interface User { name: string }",
+      "</script>",
+      '<script type="application/ld+json">{ "a": 1 }</script>',
+    ].join("\n");
+
+    const script = extractComponentScript("UserCard.vue", content);
+
+    expect(script?.extension).toBe(".ts");
+    expect(script?.code).toHaveLength(content.length);
+    const lines = script?.code.split("\n") || [];
+    expect(lines[4]).toBe("export interface User { name: string }");
+    expect(lines.filter((_line, index) => index !== 4).every(line => !line.trim())).toBe(true);
+    expect(extractComponentScript("Static.vue", "<template><p>Hi</p></template>")).toBeNull();
+  });
+
+  it("should extract models from Vue, Svelte and Astro components", async () => {
+    writeFile("src/types/shared.ts", `export interface Entity { id: string }`);
+    writeFile(
+      "src/components/TaskList.vue",
+      `<template>
+         <ul><li v-for="task in tasks">{{ task.title }}</li></ul>
+       </template>
+
+       <script lang="ts">
+       import type { Entity } from "../types/shared";
+
+       export interface Task extends Entity {
+         title: string;
+         done?: boolean;
+       }
+       </script>
+
+       <script setup lang="ts">
+       const tasks = defineModel<Task[]>();
+       </script>`
+    );
+    writeFile(
+      "src/routes/Profile.svelte",
+      `<script context="module" lang="ts">
+         export type Profile = { handle: string; followers: number };
+       </script>
+
+       <script lang="ts">
+         export let profile: Profile;
+       </script>
+
+       <h1>{profile.handle}</h1>`
+    );
+    writeFile(
+      "src/pages/articles.astro",
+      `---
+       interface Article {
+         slug: string;
+         publishedAt: Date;
+       }
+       const mockComments = [{ body: "First!" }, { body: "Nice" }];
+       ---
+       <article><slot /></article>`
+    );
+
+    const schema = await scanProject(project.dir);
+
+    expect(schema.tables.tasks).toEqual({
+      id: { type: "string", required: true },
+      title: { type: "string", required: true },
+      done: { type: "boolean", required: false },
+    });
+    expect(schema.tables.profiles).toEqual({
+      handle: { type: "string", required: true },
+      followers: { type: "number", required: true },
+    });
+    expect(schema.tables.articles).toEqual({
+      slug: { type: "string", required: true },
+      publishedAt: { type: "date", required: true },
+    });
+    expect(schema.tables.comments).toEqual({ body: { type: "string", required: true } });
+  }, 20000);
+});
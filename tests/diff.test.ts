@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import { execFileSync } from "child_process";
+import {
+  diffSchemas,
+  formatSchemaChanges,
+  summarizeSchemaChanges,
+} from "../src/helpers/schemaDiff";
+import { loadSchemaSource } from "../src/services/diff.service";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("hosby diff", () => {
+  const project = useTempProject("hosby-diff");
+  let schemaFile: string;
+
+  // Writes the schema file of the temporary project
+  const writeSchema = (tables: Record<string, unknown>) =>
+    fs.writeFileSync(schemaFile, JSON.stringify({ tables }, null, 2));
+
+  // Runs git in the temporary project
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+      cwd: project.dir,
+      stdio: "ignore",
+    });
+
+  beforeEach(() => {
+    schemaFile = path.join(project.dir, "hosby.schema.json");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should report rename candidates and summarize the changes", () => {
+    chalk.level = 0;
+    const changes = diffSchemas(
+      {
+        tables: {
+          users: { name: { type: "string" }, email: "string" },
+          articles: { title: "string", body: "string", author: "string" },
+        },
+      },
+      {
+        tables: {
+          users: { full_name: { type: "string" }, email: "number" },
+          posts: { title: "string", body: "string", author: "string", slug: "string" },
+        },
+      },
+      { detectRenames: true }
+    );
+
+    expect(formatSchemaChanges(changes)).toEqual([
+      "> users.name → full_name (rename?)",
+      '~ users.email: type "string" → "number"',
+      "> articles → posts (rename?)",
+    ]);
+    expect(summarizeSchemaChanges(changes)).toBe(
+      "1 column renamed, 1 column changed, 1 table renamed"
+    );
+  });
+
+  it("should load the schema of a git revision, a file and the last push", async () => {
+    git("init", "-q");
+    writeSchema({ users: { email: "string" } });
+    git("add", "hosby.schema.json");
+    git("commit", "-q", "-m", "schema");
+    writeSchema({ users: { email: "string", age: "number" } });
+
+    const head = await loadSchemaSource("HEAD", schemaFile);
+    const local = await loadSchemaSource("local", schemaFile);
+    expect(head.label).toBe("HEAD:hosby.schema.json");
+    expect(diffSchemas(head.schema, local.schema)).toEqual([
+      {
+        kind: "column-added",
+        table: "users",
+        column: "age",
+        after: { type: "number", required: true },
+      },
+    ]);
+
+    const other = path.join(project.dir, "other.json");
+    fs.writeFileSync(other, JSON.stringify({ tables: {} }));
+    expect((await loadSchemaSource(other, schemaFile)).schema).toEqual({ tables: {} });
+
+    // Sync records live in the working directory, even for a schema file elsewhere
+    const nestedSchemaFile = path.join(project.dir, "other", "dir", "hosby.schema.json");
+    vi.spyOn(process, "cwd").mockReturnValue(project.dir);
+    await expect(loadSchemaSource("last-push", nestedSchemaFile)).rejects.toThrow(
+      "No push recorded"
+    );
+    fs.writeFileSync(
+      path.join(project.dir, ".hosby-last-push"),
+      JSON.stringify({ time: "2026-01-01T00:00:00.000Z", hash: "1", id: "p1", schema: head.schema })
+    );
+    expect((await loadSchemaSource("last-push", nestedSchemaFile)).schema).toEqual(head.schema);
+
+    await expect(loadSchemaSource("no-such-rev", schemaFile)).rejects.toThrow(
+      "Unknown schema source 'no-such-rev'"
+    );
+  }, 20000);
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { filterSchema, normalizeColumn, sanitizeSchema } from "../src/helpers/filterSchema";
+
+describe("normalizeColumn", () => {
+  it("should read legacy string columns", () => {
+    expect(normalizeColumn("number")).toEqual({ type: "number", required: true });
+    expect(normalizeColumn("enum:[draft, published]")).toEqual({
+      type: "enum",
+      enum: ["draft", "published"],
+      required: true,
+    });
+    expect(normalizeColumn("array:string")).toEqual({
+      type: "array",
+      items: "string",
+      required: true,
+    });
+    expect(normalizeColumn("unknown")).toEqual({ type: "string", required: true });
+  });
+
+  it("should keep column descriptors", () => {
+    const column = { type: "date", required: false, nullable: true };
+    expect(normalizeColumn(column)).toEqual(column);
+  });
+});
+
+describe("sanitizeSchema", () => {
+  it("should accept column descriptors and fix invalid types", () => {
+    const schema = sanitizeSchema({
+      tables: {
+        users: {
+          email: { type: "string", required: true },
+          tags: { type: "array", items: "varchar" },
+          age: { type: "int" },
+        },
+      },
+    });
+
+    expect(schema.tables.users).toEqual({
+      email: { type: "string", required: true },
+      tags: { type: "array", items: "string" },
+      age: { type: "string" },
+    });
+  });
+});
+
+describe("filterSchema", () => {
+  it("should keep annotated tables that look like UI components", () => {
+    const schema = filterSchema({
+      tables: {
+        orders: { id: "string" },
+        checkoutstates: { step: "number" },
+        buttonprops: { label: "string" },
+      },
+      metadata: { annotatedTables: ["checkoutstates"] },
+    });
+
+    expect(Object.keys(schema.tables)).toEqual(["orders", "checkoutstates"]);
+  });
+});
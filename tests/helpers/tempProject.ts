@@ -0,0 +1,47 @@
+/**
+ * @file Temporary project fixture
+ * @description Creates an empty project directory before each test of the calling suite and
+ * removes it after, for tests that read or write files on disk
+ */
+import { beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Temporary project of the running test
+ * @property {string} dir - Project directory, recreated for each test
+ * @property {(name: string, content: string) => string} writeFile - Writes a file into the
+ * project, creating its directories, and returns its path
+ */
+export type TempProject = {
+  dir: string;
+  writeFile: (name: string, content: string) => string;
+};
+
+/**
+ * Gives each test of the calling suite a fresh temporary project
+ * @param {string} prefix - Name of the directory under the system temporary directory
+ * @returns {TempProject} Project, whose directory is set before each test
+ */
+export function useTempProject(prefix: string): TempProject {
+  const project: TempProject = {
+    dir: "",
+    writeFile: (name, content) => {
+      const filePath = path.join(project.dir, name);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    },
+  };
+
+  beforeEach(() => {
+    project.dir = fs.mkdtempSync(path.join(os.tmpdir(), `${prefix}-`));
+  });
+
+  afterEach(() => {
+    fs.rmSync(project.dir, { recursive: true, force: true });
+  });
+
+  return project;
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import chalk from "chalk";
+
+vi.mock("axios");
+
+import axios from "axios";
+import {
+  fetchSchemaHistory,
+  fetchSchemaRevision,
+  formatSchemaHistory,
+} from "../src/services/history.service";
+
+describe("hosby history", () => {
+  const credentials = { userId: "u1", cliToken: "cli", sessionToken: "session" };
+  const project = { id: "p1", name: "Shop" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should list pushed revisions with a summary of their changes", async () => {
+    chalk.level = 0;
+    vi.mocked(axios.get).mockResolvedValue({
+      status: 200,
+      data: {
+        data: {
+          revisions: [
+            {
+              id: 12,
+              author: { email: "ana@example.com" },
+              createdAt: "2026-03-02T10:15:00.000Z",
+              schemaHash: "1a2b3c4d5e",
+              schema: { version: "1.1.0", tables: { users: { email: "string", age: "number" } } },
+            },
+            {
+              revision: "11",
+              author: "bo@example.com",
+              time: "2026-03-01T09:00:00.000Z",
+              hash: "9f8e7d",
+              version: "1.0.0",
+              summary: "1 table added",
+            },
+          ],
+        },
+      },
+    });
+
+    const revisions = await fetchSchemaHistory(credentials, project, 5);
+
+    expect(vi.mocked(axios.get).mock.calls[0][0]).toMatch(/\/projects\/p1\/push$/);
+    expect(revisions[0]).toEqual({
+      revision: "12",
+      author: "ana@example.com",
+      time: "2026-03-02T10:15:00.000Z",
+      hash: "1a2b3c4d5e",
+      version: "1.1.0",
+      summary: undefined,
+    });
+    expect(formatSchemaHistory(revisions, "11")).toEqual([
+      "  12  2026-03-02 10:15  ana@example.com  1a2b3c4d  1.1.0",
+      "* 11  2026-03-01 09:00  bo@example.com   9f8e7d    1.0.0  1 table added",
+    ]);
+  });
+
+  it("should compute missing summaries and report unknown revisions", async () => {
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      status: 200,
+      data: {
+        revisions: [
+          { revision: 2, schema: { tables: { users: { email: "string", age: "number" } } } },
+          { revision: 1, schema: { tables: { users: { email: "string" } } } },
+        ],
+      },
+    });
+    const revisions = await fetchSchemaHistory(credentials, project);
+    expect(revisions.map(item => item.summary)).toEqual(["1 column added", undefined]);
+
+    vi.mocked(axios.get).mockRejectedValueOnce({ response: { status: 404 } });
+    await expect(fetchSchemaRevision(credentials, project, "99")).rejects.toThrow(
+      "Revision 99 not found"
+    );
+
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      status: 200,
+      data: { schema: { tables: {} }, revision: 1 },
+    });
+    expect(await fetchSchemaRevision(credentials, project, "1")).toEqual({ tables: {} });
+    expect(vi.mocked(axios.get).mock.calls[2][1]).toMatchObject({ params: { revision: "1" } });
+
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      status: 200,
+      data: { schema: { tables: { users: {} } }, revision: 2 },
+    });
+    await expect(fetchSchemaRevision(credentials, project, "1")).rejects.toThrow(
+      "The server sent revision 2 instead of revision 1."
+    );
+
+    vi.mocked(axios.get).mockResolvedValueOnce({ status: 200, data: { schema: { tables: {} } } });
+    await expect(fetchSchemaRevision(credentials, project, "1")).rejects.toThrow(
+      "a schema without a revision"
+    );
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import { detectImportFormat, importSchema } from "../src/scripts/importSchema";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("importSchema", () => {
+  const project = useTempProject("hosby-import");
+  const { writeFile } = project;
+
+  it("should import Prisma models, enums, relations and indexes", async () => {
+    writeFile(
+      "prisma/schema.prisma",
+      `datasource db {
+         provider = "postgresql"
+         url      = env("DATABASE_URL")
+       }
+
+       enum Role {
+         ADMIN
+         MEMBER
+       }
+
+       model User {
+         id        Int      @id @default(autoincrement())
+         email     String   @unique @db.VarChar(120)
+         role      Role     @default(MEMBER)
+         bio       String?
+         createdAt DateTime @default(now())
+         posts     Post[]
+         // Team memberships
+         teams     Team[]
+       }
+
+       model Post {
+         id       Int    @id @default(autoincrement())
+         title    String
+         author   User   @relation(fields: [authorId], references: [id])
+         authorId Int
+
+         @@index([authorId, title])
+         @@map("blog_posts")
+       }
+
+       model Team {
+         id      Int    @id
+         members User[]
+       }`
+    );
+
+    expect(detectImportFormat(project.dir)).toBe("prisma");
+
+    const schema = await importSchema(project.dir);
+    expect(schema.tables.users).toEqual({
+      id: { type: "number", required: true, primary: true, default: "autoincrement()" },
+      email: { type: "string", required: true, unique: true, maxLength: 120 },
+      role: { type: "enum", enum: ["ADMIN", "MEMBER"], required: true, default: "MEMBER" },
+      bio: { type: "string", required: false, nullable: true },
+      createdAt: { type: "date", required: true, default: "now" },
+      posts: { type: "relation", relation: "one-to-many", target: "blog_posts", required: true },
+      teams: {
+        type: "relation",
+        relation: "many-to-many",
+        target: "teams",
+        through: "teams_users",
+        required: true,
+      },
+    });
+    expect(schema.tables.blog_posts.author).toEqual({
+      type: "relation",
+      relation: "many-to-one",
+      target: "users",
+      required: true,
+    });
+    expect(schema.metadata).toEqual({
+      importedFrom: "prisma",
+      annotatedTables: ["users", "blog_posts", "teams"],
+      indexes: { blog_posts: [{ columns: ["authorId", "title"] }] },
+    });
+  });
+
+  it("should keep // inside Prisma strings while removing comments", async () => {
+    writeFile(
+      "schema.prisma",
+      `model Link {
+         id    Int    @id // primary key
+         title String @default("a // b") // shown as is
+         url   String @default("https://example.com")
+       }`
+    );
+
+    const schema = await importSchema(project.dir, { format: "prisma" });
+    expect(schema.tables.links).toEqual({
+      id: { type: "number", required: true, primary: true },
+      title: { type: "string", required: true, default: "a // b" },
+      url: { type: "string", required: true, default: "https://example.com" },
+    });
+  });
+
+  it("should import TypeORM entities", async () => {
+    writeFile(
+      "entities.ts",
+      `import { Column, Entity, Index, ManyToOne, OneToMany, PrimaryGeneratedColumn } from "typeorm";
+
+       export enum Status { Draft = "draft", Live = "live" }
+
+       abstract class Base {
+         @PrimaryGeneratedColumn("uuid")
+         id!: string;
+       }
+
+       @Entity("authors")
+       export class Author extends Base {
+         @Column({ length: 80, unique: true })
+         name!: string;
+
+         @OneToMany(() => Article, article => article.author)
+         articles!: Article[];
+       }
+
+       @Entity()
+       @Index(["title", "status"], { unique: true })
+       export class Article extends Base {
+         @Column()
+         title!: string;
+
+         @Column({ type: "enum", enum: Status, default: Status.Draft })
+         status!: Status;
+
+         @Column({ nullable: true })
+         summary?: string;
+
+         @ManyToOne(() => Author, author => author.articles, { nullable: false })
+         author!: Author;
+       }`
+    );
+
+    expect(detectImportFormat(project.dir)).toBe("typeorm");
+
+    const schema = await importSchema(project.dir);
+    expect(schema.tables.authors).toEqual({
+      id: { type: "string", required: true, primary: true },
+      name: { type: "string", required: true, unique: true, maxLength: 80 },
+      articles: { type: "relation", relation: "one-to-many", target: "articles", required: true },
+    });
+    expect(schema.tables.articles).toEqual({
+      id: { type: "string", required: true, primary: true },
+      title: { type: "string", required: true },
+      status: { type: "enum", required: true, enum: ["draft", "live"] },
+      summary: { type: "string", required: false, nullable: true },
+      author: { type: "relation", relation: "many-to-one", target: "authors", required: true },
+    });
+    expect(schema.metadata?.indexes).toEqual({
+      articles: [{ columns: ["title", "status"], unique: true }],
+    });
+  }, 20000);
+
+  it("should import Drizzle tables and relations", async () => {
+    writeFile(
+      "db/schema.ts",
+      `import { relations } from "drizzle-orm";
+       import { integer, pgEnum, pgTable, serial, text, timestamp, index } from "drizzle-orm/pg-core";
+
+       export const roleEnum = pgEnum("role", ["admin", "member"]);
+
+       export const users = pgTable("users", {
+         id: serial("id").primaryKey(),
+         email: text("email").notNull().unique(),
+         role: roleEnum("role").default("member"),
+         createdAt: timestamp("created_at").defaultNow(),
+       });
+
+       export const posts = pgTable(
+         "posts",
+         {
+           id: serial("id").primaryKey(),
+           title: text("title").notNull(),
+           authorId: integer("author_id").notNull(),
+         },
+         t => [index("posts_author_title").on(t.authorId, t.title)]
+       );
+
+       export const usersRelations = relations(users, ({ many }) => ({ posts: many(posts) }));
+       export const postsRelations = relations(posts, ({ one }) => ({
+         author: one(users, { fields: [posts.authorId], references: [users.id] }),
+       }));`
+    );
+
+    const schema = await importSchema(path.join(project.dir, "db/schema.ts"));
+    expect(schema.tables.users).toEqual({
+      id: { type: "number", required: true, primary: true },
+      email: { type: "string", required: true, unique: true },
+      role: {
+        type: "enum",
+        enum: ["admin", "member"],
+        required: false,
+        nullable: true,
+        default: "member",
+      },
+      createdAt: { type: "date", required: false, nullable: true, default: "now" },
+      posts: { type: "relation", relation: "one-to-many", target: "posts", required: true },
+    });
+    expect(schema.tables.posts.author).toEqual({
+      type: "relation",
+      relation: "many-to-one",
+      target: "users",
+      required: true,
+    });
+    expect(schema.metadata?.indexes).toEqual({
+      posts: [{ columns: ["authorId", "title"] }],
+    });
+  }, 20000);
+
+  it("should import Mongoose schemas", async () => {
+    writeFile(
+      "models.js",
+      `const mongoose = require("mongoose");
+       const { Schema } = mongoose;
+
+       const userSchema = new Schema(
+         {
+           email: { type: String, required: true, unique: true, lowercase: true },
+           age: { type: Number, min: 13 },
+           plan: { type: String, enum: ["free", "pro"], default: "free" },
+           tags: [String],
+         },
+         { timestamps: true }
+       );
+
+       const commentSchema = new Schema({
+         body: { type: String, required: [true, "A comment needs a body"], maxlength: 500 },
+         author: { type: Schema.Types.ObjectId, ref: "User", required: true },
+       });
+       commentSchema.index({ author: 1, createdAt: -1 });
+
+       module.exports = {
+         User: mongoose.model("User", userSchema),
+         Comment: mongoose.model("Comment", commentSchema, "post_comments"),
+       };`
+    );
+
+    expect(detectImportFormat(project.dir)).toBe("mongoose");
+
+    const schema = await importSchema(project.dir);
+    expect(schema.tables.users).toEqual({
+      email: { type: "string", required: true, unique: true },
+      age: { type: "number", required: false, min: 13 },
+      plan: { type: "enum", required: false, enum: ["free", "pro"], default: "free" },
+      tags: { type: "array", required: false, items: "string" },
+      createdAt: { type: "date", required: true, default: "now" },
+      updatedAt: { type: "date", required: true, default: "now" },
+    });
+    expect(schema.tables.post_comments).toEqual({
+      body: { type: "string", required: true, maxLength: 500 },
+      author: { type: "relation", relation: "one-to-one", target: "users", required: true },
+    });
+    expect(schema.metadata?.indexes).toEqual({
+      post_comments: [{ columns: ["author", "createdAt"] }],
+    });
+  }, 20000);
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { pluralize, renameSchemaTables, singularize, toTableName } from "../src/helpers/naming";
+import { getTableNaming } from "../src/config/projectConfig";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("toTableName", () => {
+  it("should build plural snake_case names by default", () => {
+    expect(toTableName("User")).toBe("users");
+    expect(toTableName("Category")).toBe("categories");
+    expect(toTableName("AuthCredentials")).toBe("auth_credentials");
+    expect(toTableName("PersonInfo")).toBe("person_info");
+    expect(toTableName("Person")).toBe("people");
+    expect(toTableName("OrderStatus")).toBe("order_statuses");
+    expect(toTableName("HTTPRequest")).toBe("http_requests");
+  });
+
+  it("should apply the selected strategy", () => {
+    expect(toTableName("AuthCredential", "camel_plural")).toBe("authCredentials");
+    expect(toTableName("Categories", "singular")).toBe("category");
+    expect(toTableName("AuthCredential", "verbatim")).toBe("AuthCredential");
+  });
+
+  it("should leave names that already follow the strategy unchanged", () => {
+    expect(toTableName("auth_credentials")).toBe("auth_credentials");
+    expect(toTableName("categories")).toBe("categories");
+    expect(toTableName("people")).toBe("people");
+  });
+});
+
+describe("singularize", () => {
+  it("should keep singular words ending in -as, -is and -us", () => {
+    expect(singularize("alias")).toBe("alias");
+    expect(singularize("status")).toBe("status");
+    expect(singularize("analysis")).toBe("analysis");
+    expect(singularize("canvas")).toBe("canvas");
+  });
+
+  it("should singularize their plurals", () => {
+    expect(singularize("aliases")).toBe("alias");
+    expect(singularize("statuses")).toBe("status");
+    expect(singularize("analyses")).toBe("analysis");
+    expect(singularize("crises")).toBe("crisis");
+    expect(singularize("ideas")).toBe("idea");
+  });
+});
+
+describe("pluralize", () => {
+  it("should add -es to singular words ending in -as, -is and -us", () => {
+    expect(pluralize("alias")).toBe("aliases");
+    expect(pluralize("status")).toBe("statuses");
+    expect(pluralize("analysis")).toBe("analyses");
+    expect(toTableName("UserAlias")).toBe("user_aliases");
+  });
+});
+
+describe("renameSchemaTables", () => {
+  it("should rename tables and relation targets", () => {
+    const schema = renameSchemaTables(
+      {
+        tables: {
+          BlogPost: { author: { type: "relation", relation: "many-to-one", target: "Author" } },
+          Author: { name: "string" },
+        },
+      },
+      "snake_plural"
+    );
+
+    expect(schema.tables).toEqual({
+      blog_posts: { author: { type: "relation", relation: "many-to-one", target: "authors" } },
+      authors: { name: "string" },
+    });
+  });
+});
+
+describe("getTableNaming", () => {
+  const project = useTempProject("hosby-naming");
+  const { writeFile } = project;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should read the strategy from the project root and ignore unknown ones", () => {
+    vi.spyOn(process, "cwd").mockReturnValue(project.dir);
+    expect(getTableNaming()).toBe("snake_plural");
+
+    writeFile("hosby.config.json", JSON.stringify({ naming: "camel_plural" }));
+    expect(getTableNaming()).toBe("camel_plural");
+
+    writeFile("hosby.config.json", JSON.stringify({ naming: "kebab" }));
+    expect(getTableNaming()).toBe("snake_plural");
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import { scanProject } from "../src/scripts/schema";
+import { locateSchemaTables, readProvenance, writeProvenance } from "../src/helpers/provenance";
+import { SchemaProvenance } from "../src/types/types";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("Schema provenance", () => {
+  const project = useTempProject("hosby-provenance");
+  const { writeFile } = project;
+
+  it("should record the declaration, validator and fixture behind each table", async () => {
+    const models = writeFile(
+      "src/models.ts",
+      `interface Base {
+        id: string;
+      }
+
+      export interface User extends Base {
+        email: string;
+      }`
+    );
+    const schemas = writeFile(
+      "src/schemas.ts",
+      `import { z } from "zod";
+
+      export const postSchema = z.object({ title: z.string() });`
+    );
+    const fixture = writeFile("fixtures/db.json", `{\n  "comments": [{ "text": "hi" }]\n}`);
+
+    const provenance: SchemaProvenance = { scanner: "static", tables: {} };
+    await scanProject(project.dir, { provenance, cache: false });
+
+    expect(provenance.tables.users.sources).toEqual([
+      { kind: "declaration", file: models, line: 5, declaration: "User" },
+    ]);
+    expect(provenance.tables.users.columns).toEqual({
+      id: { kind: "declaration", file: models, line: 2 },
+      email: { kind: "declaration", file: models, line: 6 },
+    });
+    expect(provenance.tables.posts.sources).toEqual([
+      { kind: "validator", file: schemas, line: 3, declaration: "postSchema" },
+    ]);
+    expect(provenance.tables.comments.columns.text).toEqual({
+      kind: "fixture",
+      file: fixture,
+      line: 2,
+      declaration: "comments",
+    });
+
+    // Saved with paths relative to the schema, for the filtered tables only
+    const schemaPath = path.join(project.dir, "hosby.schema.json");
+    writeProvenance(schemaPath, provenance, ["users"]);
+    const saved = JSON.parse(
+      fs.readFileSync(path.join(project.dir, "hosby.schema.provenance.json"), "utf-8")
+    );
+    expect(Object.keys(saved.tables)).toEqual(["users"]);
+    expect(saved.tables.users.sources[0].file).toBe("src/models.ts");
+    expect(readProvenance(schemaPath)?.tables.users).toEqual(provenance.tables.users);
+  }, 20000);
+
+  it("should locate AI-generated tables in the files sent to the AI", () => {
+    const dto = writeFile(
+      "src/filters.ts",
+      `export type FilterResultDto = {
+        query: string;
+        total: number;
+      };`
+    );
+    const store = writeFile("src/store.ts", `const state = { orders: [] };`);
+
+    const provenance = locateSchemaTables(
+      {
+        filter_results: { query: { type: "string" }, total: { type: "number" } },
+        orders: { id: { type: "string" } },
+        invoices: {},
+      },
+      [dto, store]
+    );
+
+    expect(provenance.tables.filter_results).toEqual({
+      sources: [{ kind: "ai", file: dto, line: 1, declaration: "FilterResultDto" }],
+      columns: {
+        query: { kind: "ai", file: dto, line: 2 },
+        total: { kind: "ai", file: dto, line: 3 },
+      },
+    });
+    expect(provenance.tables.orders.sources).toEqual([{ kind: "ai", file: store, line: 1 }]);
+    expect(provenance.tables.invoices.sources).toEqual([]);
+  });
+});
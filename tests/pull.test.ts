@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import { Ora } from "ora";
+import { AxiosResponse } from "axios";
+import { getLocalSchemaInfo, processServerResponse } from "../src/services/pull.service";
+import { getSchemaHash } from "../src/helpers/utils";
+import { SchemaData, ServerResponse } from "../src/types/types";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("hosby pull", () => {
+  const project = useTempProject("hosby-pull");
+  let schemaFile: string;
+  let lastPullFile: string;
+  let lastPushFile: string;
+
+  const base: SchemaData = { tables: { users: { email: "string" } } };
+  const spinner = { succeed: vi.fn(), stop: vi.fn() } as unknown as Ora;
+
+  // Writes a last pull or last push record of the base schema
+  const writeRecord = (file: string, time: string, extra: object = {}) =>
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ time, hash: getSchemaHash(base), schema: base, ...extra })
+    );
+
+  // Pulls a server schema into the temporary project
+  const pullSchema = async (server: SchemaData, revision: string) => {
+    const info = await getLocalSchemaInfo(schemaFile, lastPullFile, lastPushFile);
+    const response = { data: { schema: server, revision } } as AxiosResponse<ServerResponse>;
+    await processServerResponse(
+      response,
+      info.schemaData,
+      info.localSchemaHash,
+      schemaFile,
+      lastPullFile,
+      spinner,
+      info.base
+    );
+  };
+
+  const readJson = (file: string) => JSON.parse(fs.readFileSync(file, "utf-8"));
+
+  beforeEach(() => {
+    schemaFile = path.join(project.dir, "hosby.schema.json");
+    lastPullFile = path.join(project.dir, ".hosby-last-pull");
+    lastPushFile = path.join(project.dir, ".hosby-last-push");
+  });
+
+  it("should use the most recent pull or push as the base", async () => {
+    fs.writeFileSync(schemaFile, JSON.stringify(base));
+    writeRecord(lastPullFile, "2026-01-01T00:00:00.000Z", { revision: "3" });
+    writeRecord(lastPushFile, "2026-02-01T00:00:00.000Z", { id: "p1", revision: "4" });
+
+    const { base: syncBase, lastPullTime } = await getLocalSchemaInfo(
+      schemaFile,
+      lastPullFile,
+      lastPushFile
+    );
+
+    expect(syncBase).toEqual({
+      time: "2026-02-01T00:00:00.000Z",
+      hash: getSchemaHash(base),
+      schema: base,
+      revision: "4",
+    });
+    expect(lastPullTime.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("should compare both sides with the base by content instead of modification time", async () => {
+    const server: SchemaData = { tables: { users: { email: "string", name: "string" } } };
+    writeRecord(lastPullFile, "2026-01-01T00:00:00.000Z");
+
+    // Rewritten after the last pull without changing its content: the server version applies
+    fs.writeFileSync(schemaFile, JSON.stringify(base, null, 4));
+    await pullSchema(server, "5");
+    expect(readJson(schemaFile).tables).toEqual(server.tables);
+    expect(readJson(lastPullFile)).toMatchObject({
+      hash: getSchemaHash(server),
+      schema: server,
+      revision: "5",
+    });
+
+    // Changed locally while the server did not change: the local version is kept
+    const local: SchemaData = {
+      tables: { users: { email: "string", name: "string", age: "number" } },
+    };
+    fs.writeFileSync(schemaFile, JSON.stringify(local));
+    await pullSchema(server, "5");
+    expect(readJson(schemaFile)).toEqual(local);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import { Ora } from "ora";
+
+vi.mock("axios");
+vi.mock("inquirer");
+
+import axios from "axios";
+import inquirer from "inquirer";
+import {
+  fetchPushPlan,
+  handleStaleBase,
+  isStaleBaseError,
+  needsPushPlan,
+  pushSchemaToServer,
+  reviewPushPlan,
+} from "../src/services/push.service";
+import { getDestructiveChanges, isSchemaChange } from "../src/helpers/pushPlan";
+import { getSchemaHash } from "../src/helpers/utils";
+import { SchemaData } from "../src/types/types";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("hosby push", () => {
+  const tempProject = useTempProject("hosby-push");
+  let schemaFile: string;
+  let lastPullFile: string;
+  let lastPushFile: string;
+
+  const credentials = { userId: "u1", cliToken: "cli", sessionToken: "session" };
+  const project = { id: "p1", name: "Shop" };
+  const base: SchemaData = { tables: { users: { email: "string" } } };
+  const spinner = { start: vi.fn(), stop: vi.fn(), succeed: vi.fn(), warn: vi.fn() };
+  const staleBase = { response: { status: 409, data: { revision: "8" } } };
+  const stdinIsTTY = process.stdin.isTTY;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    schemaFile = path.join(tempProject.dir, "hosby.schema.json");
+    lastPullFile = path.join(tempProject.dir, ".hosby-last-pull");
+    lastPushFile = path.join(tempProject.dir, ".hosby-last-push");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    Object.defineProperty(process.stdin, "isTTY", { value: stdinIsTTY, configurable: true });
+    process.exitCode = undefined;
+  });
+
+  it("should send the base revision and recognize stale base rejections", async () => {
+    vi.mocked(axios.post).mockResolvedValue({ status: 200, data: { revision: 8 } });
+
+    await pushSchemaToServer(credentials, project, base, "h1", "7");
+
+    const body = vi.mocked(axios.post).mock.calls[0][1] as { _meta: Record<string, unknown> };
+    expect(body._meta).toMatchObject({ schemaHash: "h1", baseRevision: "7" });
+    expect(isStaleBaseError(staleBase)).toBe(true);
+    expect(isStaleBaseError({ response: { status: 500 } })).toBe(false);
+  });
+
+  it("should merge the server schema after a stale base rejection", async () => {
+    const local: SchemaData = { tables: { users: { email: "string", age: "number" } } };
+    const server: SchemaData = {
+      tables: { users: { email: "string" }, posts: { title: "string" } },
+    };
+    fs.writeFileSync(schemaFile, JSON.stringify(local));
+    fs.writeFileSync(
+      lastPushFile,
+      JSON.stringify({
+        time: "2026-01-01T00:00:00.000Z",
+        hash: getSchemaHash(base),
+        id: "p1",
+        schema: base,
+        revision: "7",
+      })
+    );
+    vi.mocked(axios.get).mockResolvedValue({ status: 200, data: { schema: server, revision: 8 } });
+    vi.mocked(inquirer.prompt).mockResolvedValue({ merge: true, retry: true });
+    vi.stubEnv("CI", "false");
+    Object.defineProperty(process.stdin, "isTTY", { value: true, configurable: true });
+
+    const retry = await handleStaleBase(
+      staleBase,
+      credentials,
+      project,
+      schemaFile,
+      lastPullFile,
+      lastPushFile,
+      spinner as unknown as Ora
+    );
+
+    expect(retry).toBe(true);
+    expect(spinner.warn).toHaveBeenCalledWith(expect.stringContaining("since revision 7 (now 8)"));
+    expect(JSON.parse(fs.readFileSync(schemaFile, "utf-8")).tables).toEqual({
+      users: { email: "string", age: "number" },
+      posts: { title: "string" },
+    });
+    expect(JSON.parse(fs.readFileSync(lastPullFile, "utf-8"))).toMatchObject({
+      schema: server,
+      revision: "8",
+    });
+  });
+
+  it("should fail a stale push without prompting when nobody can answer", async () => {
+    fs.writeFileSync(schemaFile, JSON.stringify(base));
+    vi.stubEnv("CI", "true");
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const retry = await handleStaleBase(
+      staleBase,
+      credentials,
+      project,
+      schemaFile,
+      lastPullFile,
+      lastPushFile,
+      spinner as unknown as Ora
+    );
+
+    expect(retry).toBe(false);
+    expect(process.exitCode).toBe(1);
+    expect(inquirer.prompt).not.toHaveBeenCalled();
+    expect(axios.get).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("hosby pull"));
+    error.mockRestore();
+  });
+
+  it("should compare the schemas locally when the server plan is malformed", async () => {
+    const server: SchemaData = { tables: { users: { email: "string" } } };
+    vi.mocked(axios.post).mockResolvedValue({
+      status: 200,
+      data: { plan: [{ kind: "column-added", table: "users", column: "age" }, { kind: "drop" }] },
+    });
+    vi.mocked(axios.get).mockResolvedValue({ status: 200, data: { schema: server } });
+
+    const plan = await fetchPushPlan(credentials, project, base, "h1");
+
+    expect(plan).toEqual({ source: "local", changes: [] });
+    expect(isSchemaChange({ kind: "table-removed", table: "logs", columns: {} })).toBe(true);
+    expect(isSchemaChange({ kind: "column-added", table: "users", column: "age" })).toBe(false);
+  });
+
+  it("should plan the push from the server schema and fail a dry run with destructive changes", async () => {
+    chalk.level = 0;
+    const server: SchemaData = {
+      tables: {
+        users: { email: "string", age: "string", role: { type: "enum", enum: ["admin", "user"] } },
+        logs: { message: "string" },
+      },
+    };
+    const local: SchemaData = {
+      tables: {
+        users: { email: "string", age: "number", role: { type: "enum", enum: ["admin"] } },
+        posts: { title: "string" },
+      },
+    };
+    vi.mocked(axios.post).mockRejectedValue({ response: { status: 404 } });
+    vi.mocked(axios.get).mockResolvedValue({ status: 200, data: { schema: server } });
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const plan = await fetchPushPlan(credentials, project, local, "h1", "7");
+
+    expect(plan.source).toBe("local");
+    expect(getDestructiveChanges(plan).map(change => change.kind)).toEqual([
+      "table-removed",
+      "column-changed",
+      "column-changed",
+    ]);
+    expect(await reviewPushPlan(plan, { dryRun: true })).toBe(false);
+    expect(process.exitCode).toBe(1);
+    expect(log.mock.calls.map(([line]) => line)).toEqual([
+      "\nPush plan estimated from the server schema:",
+      "  - logs (1 column) [breaking] ⚠ destructive: drops the table and its rows",
+      '  ~ users.age: type "string" → "number" [breaking] ⚠ destructive: changes the type string → number',
+      '  ~ users.role: enum ["admin","user"] → ["admin"] [risky] ⚠ destructive: removes the enum values user',
+      "  + posts (1 column) [safe]",
+      "  1 table removed, 2 columns changed, 1 table added\n",
+    ]);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("3 destructive changes"));
+
+    process.exitCode = undefined;
+    expect(await reviewPushPlan(plan, { dryRun: true, allowDestructive: true })).toBe(false);
+    expect(process.exitCode).toBeUndefined();
+
+    expect(await reviewPushPlan(plan, { allowDestructive: true, failOn: "breaking" })).toBe(false);
+    expect(process.exitCode).toBe(1);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("2 changes are breaking or worse"));
+    log.mockRestore();
+    error.mockRestore();
+  });
+
+  it("should only fetch the plan for dry runs and pushes someone can confirm", () => {
+    vi.stubEnv("CI", "false");
+    Object.defineProperty(process.stdin, "isTTY", { value: true, configurable: true });
+    expect(needsPushPlan({})).toBe(true);
+    expect(needsPushPlan({ allowDestructive: true })).toBe(false);
+
+    vi.stubEnv("CI", "true");
+    expect(needsPushPlan({})).toBe(false);
+    expect(needsPushPlan({ dryRun: true })).toBe(true);
+    expect(needsPushPlan({ allowDestructive: true, failOn: "breaking" })).toBe(true);
+  });
+});
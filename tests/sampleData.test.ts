@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { scanProject } from "../src/scripts/schema";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("scanProject with sample data", () => {
+  const project = useTempProject("hosby-samples");
+  const { writeFile } = project;
+
+  it("should infer tables from JSON and NDJSON fixtures", async () => {
+    writeFile(
+      "fixtures/users.mock.json",
+      JSON.stringify([
+        { id: 1, email: "ada@example.com", role: "admin", createdAt: "2024-01-05T10:00:00Z" },
+        { id: 2, email: "bob@example.com", role: "member", createdAt: "2024-02-11T08:30:00Z" },
+        {
+          id: 3,
+          email: "eve@example.com",
+          role: "member",
+          createdAt: "2024-03-02",
+          bio: null,
+          tags: ["new"],
+        },
+      ])
+    );
+    writeFile(
+      "fixtures/api/orders-response.json",
+      JSON.stringify({
+        data: [
+          { reference: "A-1", total: 12.5 },
+          { reference: "A-2", total: 8 },
+        ],
+        total: 2,
+      })
+    );
+    writeFile(
+      "fixtures/db.json",
+      JSON.stringify({ categories: [{ name: "Books" }, { name: "Games" }], version: 3 })
+    );
+    writeFile(
+      "fixtures/events.ndjson",
+      ['{"type":"click","at":"2024-01-01T00:00:00Z"}', '{"type":"view","at":null}'].join("\n")
+    );
+    writeFile("app.config.json", JSON.stringify([{ plugin: "a" }]));
+
+    const schema = await scanProject(project.dir);
+
+    expect(schema.tables.users).toEqual({
+      id: { type: "number", required: true },
+      email: { type: "string", required: true },
+      role: { type: "enum", enum: ["admin", "member"], required: true },
+      createdAt: { type: "date", required: true },
+      bio: { type: "string", required: false, nullable: true },
+      tags: { type: "array", items: "string", required: false },
+    });
+    expect(schema.tables.orders).toEqual({
+      reference: { type: "string", required: true },
+      total: { type: "number", required: true },
+    });
+    expect(schema.tables.categories).toEqual({ name: { type: "string", required: true } });
+    expect(schema.tables.events).toEqual({
+      type: { type: "string", required: true },
+      at: { type: "date", required: true, nullable: true },
+    });
+    expect(schema.tables.apps).toBeUndefined();
+  }, 20000);
+
+  it("should infer tables from mock arrays in source files", async () => {
+    writeFile(
+      "mocks.ts",
+      `const baseTask = { done: false };
+
+       export const mockTasks = [
+         { ...baseTask, id: "t1", title: "Write docs", priority: "high", due: new Date() },
+         { ...baseTask, id: "t2", title: \`Review \${1}\`, priority: "low", due: new Date() },
+         { ...baseTask, id: "t3", title: "Ship", priority: "high", assignee: "ada" },
+       ];
+
+       export const navItems = [{ label: "Home", href: "/" }];
+
+       /** @hosby.ignore */
+       export const fakeLogs = [{ line: "boot" }];`
+    );
+
+    const schema = await scanProject(project.dir);
+
+    expect(schema.tables.tasks).toEqual({
+      done: { type: "boolean", required: true },
+      id: { type: "string", required: true },
+      title: { type: "string", required: true },
+      priority: { type: "enum", enum: ["high", "low"], required: true },
+      due: { type: "date", required: false },
+      assignee: { type: "string", required: false },
+    });
+    expect(schema.tables.nav_items).toBeUndefined();
+    expect(schema.tables.logs).toBeUndefined();
+  }, 20000);
+
+  it("should keep declared models over inferred samples", async () => {
+    writeFile(
+      "models.ts",
+      `export interface User {
+         id: string;
+         status: string;
+       }
+
+       export const mockUsers: User[] = [
+         { id: "u1", status: "active" },
+         { id: "u2", status: "active" },
+         { id: "u3", status: "banned" },
+       ];`
+    );
+    writeFile("fixtures/users.json", JSON.stringify([{ id: "u4", nickname: "d" }]));
+
+    const schema = await scanProject(project.dir);
+
+    expect(schema.tables.users).toEqual({
+      id: { type: "string", required: true },
+      status: { type: "string", required: true },
+    });
+  }, 20000);
+});
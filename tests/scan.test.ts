@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import inquirer from "inquirer";
+import { scan, selectServiceTables } from "../src/commands/scan";
+import { createService } from "../src/commands/create-service";
+import { useTempProject } from "./helpers/tempProject";
+
+vi.mock("../src/scripts/ensureHosbyTsInstalled", () => ({
+  ensureHosbyTsInstalled: vi.fn(async () => true),
+  installHosbyTs: vi.fn(),
+}));
+
+vi.mock("../src/commands/create-service", () => ({
+  createService: vi.fn(async () => true),
+}));
+
+describe("selectServiceTables", () => {
+  const tables = ["users", "posts"];
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should select tables from --services without asking", async () => {
+    const prompt = vi.spyOn(inquirer, "prompt");
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    expect(await selectServiceTables(tables, { services: "all" })).toEqual(tables);
+    expect(await selectServiceTables(tables, { services: "none" })).toEqual([]);
+    expect(await selectServiceTables(tables, { services: " posts, comments " })).toEqual(["posts"]);
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it("should select no table with --yes or when nobody can be asked", async () => {
+    const prompt = vi.spyOn(inquirer, "prompt");
+
+    expect(await selectServiceTables(tables, { yes: true })).toEqual([]);
+
+    vi.stubEnv("CI", "1");
+    expect(await selectServiceTables(tables)).toEqual([]);
+    expect(prompt).not.toHaveBeenCalled();
+  });
+});
+
+describe("scan output options", () => {
+  const project = useTempProject("hosby-scan-options");
+  const { writeFile } = project;
+
+  beforeEach(() => {
+    vi.spyOn(process, "cwd").mockReturnValue(project.dir);
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    writeFile("src/models.ts", "export interface User { email: string }");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(createService).mockClear();
+  });
+
+  it("should write the schema to --out and skip the client with --no-client", async () => {
+    const schemaPath = path.join(project.dir, "schemas", "app.json");
+
+    await scan(project.dir, { out: schemaPath, client: false, services: "users", cache: false });
+
+    expect(JSON.parse(fs.readFileSync(schemaPath, "utf-8")).tables.users).toBeDefined();
+    expect(fs.existsSync(path.join(project.dir, "hosby.schema.json"))).toBe(false);
+    expect(fs.existsSync(path.join(project.dir, "src", "api", "hosbyClient.ts"))).toBe(false);
+    expect(createService).toHaveBeenCalledWith("users", { schemaPath, useAI: false });
+  }, 20000);
+
+  it("should write the client to --client-out", async () => {
+    const clientPath = path.join(project.dir, "lib", "client.ts");
+
+    await scan(project.dir, { clientOut: clientPath, yes: true, cache: false });
+
+    expect(fs.existsSync(path.join(project.dir, "hosby.schema.json"))).toBe(true);
+    expect(fs.readFileSync(clientPath, "utf-8")).toContain("hosby-ts");
+    expect(createService).not.toHaveBeenCalled();
+  }, 20000);
+});
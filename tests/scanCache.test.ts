@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import { scanProject } from "../src/scripts/schema";
+import { CACHE_DIR } from "../src/helpers/fileCache";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("incremental scan", () => {
+  const project = useTempProject("hosby-cache");
+  const { writeFile } = project;
+
+  const cacheFile = () => path.join(project.dir, CACHE_DIR, "scan.json");
+
+  beforeEach(() => {
+    writeFile("src/base.ts", `export interface Entity { id: string }`);
+    writeFile(
+      "src/user.ts",
+      `import { Entity } from "./base";
+       export interface User extends Entity { name: string }`
+    );
+    writeFile(
+      "src/post.ts",
+      `import { User } from "./user";
+       export interface Post { title: string; author: User }
+       export const mockComments = [{ body: "Hi", postedAt: new Date() }];`
+    );
+  });
+
+  it("should reuse the extractions of unchanged files", async () => {
+    const first = await scanProject(project.dir);
+    expect(fs.existsSync(cacheFile())).toBe(true);
+
+    // Renaming a cached model proves the second scan reads the cache instead of the sources
+    const cache = JSON.parse(fs.readFileSync(cacheFile(), "utf-8"));
+    const userEntry = cache.entries[path.resolve(project.dir, "src/user.ts")];
+    userEntry.value.models[0].name = "Member";
+    fs.writeFileSync(cacheFile(), JSON.stringify(cache));
+
+    const second = await scanProject(project.dir);
+    expect(second.tables.members).toEqual(first.tables.users);
+    expect(second.tables.posts.author).toMatchObject({ target: "members" });
+    expect(second.tables.comments).toEqual({
+      body: { type: "string", required: true },
+      postedAt: { type: "date", required: true },
+    });
+
+    const fresh = await scanProject(project.dir, { cache: false });
+    expect(fresh).toEqual(first);
+  }, 20000);
+
+  it("should analyse again the files whose imports changed", async () => {
+    await scanProject(project.dir);
+
+    writeFile("src/base.ts", `export interface Entity { id: string; createdAt: Date }`);
+    const schema = await scanProject(project.dir);
+
+    expect(schema.tables.users).toEqual({
+      name: { type: "string", required: true },
+      id: { type: "string", required: true },
+      createdAt: { type: "date", required: true },
+    });
+
+    fs.rmSync(path.join(project.dir, "src/post.ts"));
+    const cache = JSON.parse(fs.readFileSync(cacheFile(), "utf-8"));
+    expect(cache.entries[path.resolve(project.dir, "src/post.ts")]).toBeDefined();
+
+    const pruned = await scanProject(project.dir);
+    expect(pruned.tables.posts).toBeUndefined();
+    const prunedCache = JSON.parse(fs.readFileSync(cacheFile(), "utf-8"));
+    expect(prunedCache.entries[path.resolve(project.dir, "src/post.ts")]).toBeUndefined();
+  }, 20000);
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import { scanProject } from "../src/scripts/schema";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("scanProject", () => {
+  const project = useTempProject("hosby-scan");
+  const { writeFile } = project;
+
+  it("should extract interfaces", async () => {
+    writeFile("models.ts", "export interface Account { id: number; name: string; }");
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.accounts).toEqual({
+      id: { type: "number", required: true },
+      name: { type: "string", required: true },
+    });
+  }, 20000);
+
+  it("should extract object-literal type aliases only", async () => {
+    writeFile(
+      "models.ts",
+      `export type Product = { sku: string; price: number };
+       export type Id = string;
+       export type Handler = () => void;`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(Object.keys(schema.tables)).toEqual(["products"]);
+    expect(schema.tables.products).toEqual({
+      sku: { type: "string", required: true },
+      price: { type: "number", required: true },
+    });
+  }, 20000);
+
+  it("should extract public class and constructor parameter properties", async () => {
+    writeFile(
+      "customer.ts",
+      `export class Customer {
+         name: string = "";
+         private secret = "";
+         static count = 0;
+         constructor(public email: string, private token: string) {}
+         greet(): void {}
+       }`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.customers).toEqual({
+      name: { type: "string", required: true, default: "" },
+      email: { type: "string", required: true },
+    });
+  }, 20000);
+
+  it("should turn string and numeric enums into enum columns", async () => {
+    writeFile(
+      "models.ts",
+      `export enum Role { Admin = "admin", Member = "member" }
+       export enum Level { Low, High }
+       export interface Account { role: Role; level: Level }`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.accounts).toEqual({
+      role: { type: "enum", required: true, enum: ["admin", "member"] },
+      level: { type: "enum", required: true, enum: [0, 1] },
+    });
+  }, 20000);
+
+  it("should flatten extends chains, intersections and utility types", async () => {
+    writeFile(
+      "models.ts",
+      `interface BaseEntity { id: string; createdAt: Date }
+       interface Timestamps { updatedAt: Date }
+       export interface User extends BaseEntity { email: string; password: string }
+       export type PublicUser = Omit<User, "password"> & Timestamps;
+       export type UserPatch = Partial<Pick<User, "email">>;`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(Object.keys(schema.tables.users).sort()).toEqual([
+      "createdAt",
+      "email",
+      "id",
+      "password",
+    ]);
+    expect(Object.keys(schema.tables.public_users).sort()).toEqual([
+      "createdAt",
+      "email",
+      "id",
+      "updatedAt",
+    ]);
+    expect(schema.tables.public_users.createdAt).toEqual({ type: "date", required: true });
+    expect(schema.tables.user_patches).toBeUndefined();
+  }, 20000);
+
+  it("should skip aliases deriving from other models", async () => {
+    writeFile(
+      "models.ts",
+      `export interface User { id: string; email: string }
+       export type CreateUserDto = Omit<User, "id">;
+       export type UserPatch = Partial<User>;
+       export type Account = User;`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(Object.keys(schema.tables)).toEqual(["users"]);
+  }, 20000);
+
+  it("should detect relations between scanned models", async () => {
+    writeFile(
+      "models.ts",
+      `export interface User { id: string; profile: Profile; posts: Post[] }
+       export interface Profile { bio: string }
+       export interface Post { id: string; author: User; tags: Tag[] }
+       export interface Tag { label: string; posts: Post[] }`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.users.profile).toEqual({
+      type: "relation",
+      relation: "one-to-one",
+      target: "profiles",
+      required: true,
+    });
+    expect(schema.tables.users.posts).toEqual({
+      type: "relation",
+      relation: "one-to-many",
+      target: "posts",
+      required: true,
+    });
+    expect(schema.tables.posts.author).toEqual({
+      type: "relation",
+      relation: "many-to-one",
+      target: "users",
+      required: true,
+    });
+    expect(schema.tables.posts.tags).toEqual({
+      type: "relation",
+      relation: "many-to-many",
+      target: "tags",
+      through: "posts_tags",
+      required: true,
+    });
+  }, 20000);
+
+  it("should describe optional, nullable, array and literal union columns", async () => {
+    writeFile(
+      "models.ts",
+      `export interface Article {
+         title: string;
+         subtitle?: string;
+         publishedAt: Date | null;
+         scores: number[];
+         status: "draft" | "published";
+       }`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.articles).toEqual({
+      title: { type: "string", required: true },
+      subtitle: { type: "string", required: false },
+      publishedAt: { type: "date", required: true, nullable: true },
+      scores: { type: "array", required: true, items: "number" },
+      status: { type: "enum", required: true, enum: ["draft", "published"] },
+    });
+  }, 20000);
+
+  it("should apply @hosby JSDoc annotations", async () => {
+    writeFile(
+      "models.ts",
+      `/** @hosby.table orders */
+       export interface CheckoutState {
+         /** @hosby.unique */
+         reference: string;
+         /** @hosby.default now */
+         placedAt: Date;
+         /** @hosby.maxLength 120 */
+         note: string;
+         /** @hosby.ignore */
+         draft: boolean;
+       }
+
+       /** @hosby.ignore */
+       export interface Internal { id: string }`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(Object.keys(schema.tables)).toEqual(["orders"]);
+    expect(schema.tables.orders).toEqual({
+      reference: { type: "string", required: true, unique: true },
+      placedAt: { type: "date", required: true, default: "now" },
+      note: { type: "string", required: true, maxLength: 120 },
+    });
+    expect(schema.metadata).toEqual({ annotatedTables: ["orders"] });
+  }, 20000);
+
+  it("should resolve tsconfig path aliases", async () => {
+    writeFile(
+      "tsconfig.json",
+      JSON.stringify({
+        compilerOptions: { baseUrl: ".", paths: { "@models/*": ["src/models/*"] } },
+        include: ["src"],
+      })
+    );
+    writeFile("src/models/base.ts", "export interface Base { id: string; createdAt: Date }");
+    writeFile(
+      "src/models/user.ts",
+      `import { Base } from "@models/base";
+       export interface User extends Base { email: string }`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.users).toEqual({
+      id: { type: "string", required: true },
+      createdAt: { type: "date", required: true },
+      email: { type: "string", required: true },
+    });
+  }, 20000);
+
+  it("should resolve types from workspace packages", async () => {
+    writeFile("package.json", JSON.stringify({ private: true, workspaces: ["packages/*"] }));
+    writeFile("packages/shared/package.json", JSON.stringify({ name: "@acme/shared" }));
+    writeFile(
+      "packages/shared/src/index.ts",
+      "export interface BaseEntity { id: string; version: number }"
+    );
+    writeFile("packages/app/package.json", JSON.stringify({ name: "@acme/app" }));
+    writeFile(
+      "packages/app/src/post.ts",
+      `import { BaseEntity } from "@acme/shared";
+       export interface Post extends BaseEntity { title: string }`
+    );
+
+    const schema = await scanProject(path.join(project.dir, "packages/app"));
+    expect(schema.tables.posts).toEqual({
+      id: { type: "string", required: true },
+      version: { type: "number", required: true },
+      title: { type: "string", required: true },
+    });
+    expect(schema.tables.base_entities).toBeUndefined();
+  }, 20000);
+
+  it("should read package patterns from pnpm-workspace.yaml", async () => {
+    writeFile("package.json", JSON.stringify({ private: true }));
+    writeFile(
+      "pnpm-workspace.yaml",
+      `# Workspace packages
+packages: ["libs/*", "apps/*", "!**/test/**"]
+catalog:
+  react: ^18.0.0`
+    );
+    writeFile("libs/shared/package.json", JSON.stringify({ name: "@acme/shared" }));
+    writeFile("libs/shared/src/index.ts", "export interface BaseEntity { id: string }");
+    writeFile("apps/web/package.json", JSON.stringify({ name: "@acme/web" }));
+    writeFile(
+      "apps/web/src/post.ts",
+      `import { BaseEntity } from "@acme/shared";
+       export interface Post extends BaseEntity { title: string }`
+    );
+
+    const schema = await scanProject(path.join(project.dir, "apps/web"));
+    expect(schema.tables.posts).toEqual({
+      id: { type: "string", required: true },
+      title: { type: "string", required: true },
+    });
+  }, 20000);
+});
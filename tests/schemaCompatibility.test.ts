@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import chalk from "chalk";
+import { diffSchemas } from "../src/helpers/schemaDiff";
+import {
+  classifySchemaChanges,
+  formatClassifiedChanges,
+  isAtLeast,
+  summarizeSeverities,
+} from "../src/helpers/schemaCompatibility";
+
+describe("classifySchemaChanges", () => {
+  it("should classify changes as safe, risky or breaking", () => {
+    chalk.level = 0;
+    const classified = classifySchemaChanges(
+      diffSchemas(
+        {
+          tables: {
+            users: {
+              email: { type: "string" },
+              age: { type: "string" },
+              role: { type: "enum", enum: ["admin", "user"] },
+              bio: { type: "string", required: true },
+            },
+            logs: { message: "string" },
+          },
+        },
+        {
+          tables: {
+            users: {
+              email: { type: "string", required: true },
+              age: { type: "number" },
+              role: { type: "enum", enum: ["admin", "guest"] },
+              bio: { type: "string", required: false },
+              nickname: { type: "string", required: false },
+              country: { type: "string", required: true },
+              locale: { type: "string", required: true, default: "en" },
+            },
+          },
+        }
+      )
+    );
+
+    expect(classified.map(({ severity, reason }) => [severity, reason])).toEqual([
+      ["breaking", "drops the table and its rows"],
+      ["risky", "makes the column required"],
+      ["breaking", "changes the type string → number"],
+      ["risky", "removes the enum values user"],
+      ["safe", "keeps existing values valid"],
+      ["safe", "new optional column"],
+      ["risky", "new required column without a default"],
+      ["safe", "new optional column"],
+    ]);
+    expect(summarizeSeverities(classified)).toBe("2 breaking, 3 risky, 3 safe");
+    expect(formatClassifiedChanges(classified)[0]).toBe(
+      "- logs (1 column) [breaking] drops the table and its rows"
+    );
+    expect(isAtLeast("risky", "breaking")).toBe(false);
+    expect(isAtLeast("breaking", "risky")).toBe(true);
+  });
+
+  it("should flag destructive changes and see no change in a legacy column", () => {
+    const classified = classifySchemaChanges(
+      diffSchemas(
+        { tables: { users: { age: "string", tags: { type: "array", items: "string" } } } },
+        { tables: { users: { age: "number", tags: { type: "array", items: "number" } } } }
+      )
+    );
+
+    expect(classified.map(({ reason, destructive }) => [reason, destructive])).toEqual([
+      ["changes the type string → number", true],
+      ["changes the items string → number", true],
+    ]);
+    expect(
+      classifySchemaChanges(
+        diffSchemas(
+          { tables: { users: { email: "string" } } },
+          { tables: { users: { email: { type: "string", required: true } } } }
+        )
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import ora from "ora";
+import chalk from "chalk";
+import { formatSchemaMerge, mergeSchemas } from "../src/helpers/schemaMerge";
+import { processAndFilterSchema } from "../src/scripts/processAndFilterSchema";
+import { HosbySchema } from "../src/types/types";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("mergeSchemas", () => {
+  const existing: HosbySchema = {
+    version: "2.1.0",
+    metadata: { project: { id: "p1", name: "Shop" } },
+    tables: {
+      users: {
+        email: { type: "string", required: true, unique: true, description: "Login" },
+        nickname: "string",
+        legacy_id: { type: "number" },
+      },
+      audit_logs: { message: "string" },
+    },
+  };
+
+  const scanned: HosbySchema = {
+    metadata: { annotatedTables: ["posts"] },
+    tables: {
+      users: {
+        email: { type: "string", required: false },
+        nickname: { type: "string", required: true },
+        age: { type: "number", required: true },
+      },
+      posts: { title: { type: "string", required: true } },
+    },
+  };
+
+  it("should add scanned tables and columns while keeping manual edits", () => {
+    const { schema } = mergeSchemas(existing, scanned);
+
+    expect(schema.version).toBe("2.1.0");
+    expect(schema.metadata).toEqual({
+      project: { id: "p1", name: "Shop" },
+      annotatedTables: ["posts"],
+    });
+    expect(schema.tables.users).toEqual({
+      email: { type: "string", required: false, unique: true, description: "Login" },
+      nickname: "string",
+      legacy_id: { type: "number" },
+      age: { type: "number", required: true },
+    });
+    expect(schema.tables.audit_logs).toEqual({ message: "string" });
+    expect(schema.tables.posts).toEqual({ title: { type: "string", required: true } });
+  });
+
+  it("should summarize added, stale and preserved entries", () => {
+    chalk.level = 0;
+
+    expect(formatSchemaMerge(mergeSchemas(existing, scanned))).toEqual([
+      "~ users.email: required true → false",
+      "+ users.age: number",
+      "+ posts (1 column)",
+      "! audit_logs: not found by the scan, kept",
+      "! users.legacy_id: not found by the scan, kept",
+      "= users.email: kept unique, description",
+    ]);
+  });
+});
+
+describe("processAndFilterSchema with merge", () => {
+  const project = useTempProject("hosby-merge");
+
+  it("should write the merged schema without asking when --yes is given", async () => {
+    const schemaPath = path.join(project.dir, "hosby.schema.json");
+    fs.writeFileSync(
+      schemaPath,
+      JSON.stringify({
+        metadata: { project: { id: "p1", name: "Shop" } },
+        tables: { users: { email: { type: "string", unique: true } } },
+      })
+    );
+
+    const filteredSchema: HosbySchema = { tables: {} };
+    const schemaStats = { tableCount: 0, columnCount: 0 };
+    await processAndFilterSchema(
+      { tables: { users: { email: { type: "string" }, name: { type: "string" } } } },
+      filteredSchema,
+      schemaStats,
+      ora({ isSilent: true }),
+      schemaPath,
+      { merge: true, yes: true }
+    );
+
+    const written = JSON.parse(fs.readFileSync(schemaPath, "utf-8"));
+    expect(written.metadata.project).toEqual({ id: "p1", name: "Shop" });
+    expect(written.tables.users).toEqual({
+      email: { type: "string", unique: true },
+      name: { type: "string" },
+    });
+    expect(schemaStats).toEqual({ tableCount: 1, columnCount: 2 });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import {
+  addChangelogEntry,
+  bumpVersion,
+  formatChangelogEntry,
+  planSchemaVersion,
+} from "../src/helpers/schemaVersion";
+import { HosbySchema } from "../src/types/types";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("schema versioning", () => {
+  const project = useTempProject("hosby-version");
+
+  const pushed: HosbySchema = {
+    version: "1.2.3",
+    tables: { users: { email: "string", age: "string" }, logs: { message: "string" } },
+  };
+
+  it("should bump the last pushed version from the impact of the changes", () => {
+    expect(bumpVersion("1.4.2", "major")).toBe("2.0.0");
+    expect(bumpVersion("1.4.2", "minor")).toBe("1.5.0");
+    expect(bumpVersion("1.4.2", "patch")).toBe("1.4.3");
+
+    const added = { ...pushed, tables: { ...pushed.tables, posts: { title: "string" } } };
+    expect(planSchemaVersion(pushed, { ...added, version: "1.0.0" })).toMatchObject({
+      previous: "1.2.3",
+      version: "1.3.0",
+      bump: "minor",
+    });
+
+    const dropped = { version: "1.2.3", tables: { users: pushed.tables.users } };
+    expect(planSchemaVersion(pushed, dropped)).toMatchObject({ version: "2.0.0", bump: "major" });
+
+    const described = {
+      ...pushed,
+      tables: { ...pushed.tables, logs: { message: { type: "string", description: "Text" } } },
+    };
+    expect(planSchemaVersion(pushed, described)).toMatchObject({ version: "1.2.4", bump: "patch" });
+    expect(planSchemaVersion(pushed, { ...pushed }).version).toBe("1.2.3");
+
+    // A version raised by hand is kept
+    const manual = planSchemaVersion(pushed, { ...dropped, version: "3.0.0" });
+    expect(manual.version).toBe("3.0.0");
+    expect(manual.bump).toBeUndefined();
+    expect(planSchemaVersion(undefined, pushed)).toMatchObject({ version: "1.2.3" });
+  });
+
+  it("should add changelog entries above the previous ones", () => {
+    const changelogFile = path.join(project.dir, "HOSBY_SCHEMA_CHANGELOG.md");
+    const date = new Date("2026-03-02T10:00:00Z");
+
+    addChangelogEntry(
+      changelogFile,
+      formatChangelogEntry(planSchemaVersion(undefined, pushed), date)
+    );
+    addChangelogEntry(
+      changelogFile,
+      formatChangelogEntry(
+        planSchemaVersion(pushed, {
+          tables: {
+            users: {
+              email: { type: "string", required: true, unique: true },
+              age: "number",
+              nickname: { type: "string", required: false },
+            },
+          },
+        }),
+        date
+      )
+    );
+
+    expect(fs.readFileSync(changelogFile, "utf-8")).toBe(
+      [
+        "# Hosby Schema Changelog",
+        "",
+        "## 2.0.0 (2026-03-02)",
+        "",
+        "### Breaking",
+        "",
+        "- Dropped table `logs`",
+        '- Changed column `users.age`: type "string" → "number"',
+        "",
+        "### Risky",
+        "",
+        "- Changed column `users.email`: unique true added",
+        "",
+        "### Safe",
+        "",
+        "- Added column `users.nickname` (string)",
+        "",
+        "## 1.2.3 (2026-03-02)",
+        "",
+        "Initial version with 2 tables.",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { mergeThreeWay, resolveSchemaConflict } from "../src/helpers/threeWayMerge";
+import { HosbySchema } from "../src/types/types";
+
+describe("mergeThreeWay", () => {
+  const base: HosbySchema = {
+    metadata: { project: { id: "p1", name: "Shop" } },
+    tables: {
+      users: { email: { type: "string" }, name: { type: "string" }, age: { type: "number" } },
+      posts: { title: { type: "string" } },
+      logs: { message: { type: "string" } },
+    },
+  };
+
+  it("should merge changes made to different columns of the same table", () => {
+    const local: HosbySchema = {
+      ...base,
+      tables: {
+        users: {
+          email: { type: "string" },
+          name: { type: "string" },
+          age: { type: "number" },
+          nickname: { type: "string" },
+        },
+        posts: { title: { type: "string" } },
+        logs: { message: { type: "string" } },
+      },
+    };
+    const server: HosbySchema = {
+      ...base,
+      tables: {
+        users: { email: { type: "string", unique: true }, name: { type: "string" } },
+        posts: { title: { type: "string" }, body: { type: "string" } },
+      },
+    };
+
+    const { schema, conflicts } = mergeThreeWay(base, local, server);
+
+    expect(conflicts).toEqual([]);
+    expect(schema.metadata).toEqual(base.metadata);
+    expect(schema.tables).toEqual({
+      users: {
+        email: { type: "string", unique: true },
+        name: { type: "string" },
+        nickname: { type: "string" },
+      },
+      posts: { title: { type: "string" }, body: { type: "string" } },
+    });
+  });
+
+  it("should report columns changed differently on both sides and apply the chosen version", () => {
+    const local: HosbySchema = {
+      tables: { ...base.tables, users: { ...base.tables.users, age: { type: "string" } } },
+    };
+    const server: HosbySchema = {
+      tables: {
+        users: { email: { type: "string" }, name: { type: "string" }, age: "date" },
+        posts: { title: { type: "string" }, body: { type: "string" } },
+      },
+    };
+    // logs removed on the server while changed locally
+    local.tables.logs = { message: { type: "string" }, level: { type: "string" } };
+
+    const merge = mergeThreeWay(base, local, server);
+
+    expect(merge.conflicts).toEqual([
+      {
+        table: "users",
+        column: "age",
+        base: { type: "number" },
+        local: { type: "string" },
+        server: "date",
+      },
+      { table: "logs", base: base.tables.logs, local: local.tables.logs, server: undefined },
+    ]);
+    expect(merge.schema.tables.users.age).toEqual({ type: "string" });
+
+    resolveSchemaConflict(merge.schema, merge.conflicts[0], "server");
+    resolveSchemaConflict(merge.schema, merge.conflicts[1], "server");
+    expect(merge.schema.tables.users.age).toBe("date");
+    expect(merge.schema.tables.logs).toBeUndefined();
+  });
+
+  it("should keep entries of both sides without a recorded ancestor", () => {
+    const merge = mergeThreeWay(
+      undefined,
+      { tables: { users: { email: "string", age: "number" } } },
+      { tables: { users: { email: "string", name: "string" }, posts: { title: "string" } } }
+    );
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.schema.tables).toEqual({
+      users: { email: "string", age: "number", name: "string" },
+      posts: { title: "string" },
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { scanProject } from "../src/scripts/schema";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("scanProject with validator schemas", () => {
+  const project = useTempProject("hosby-validators");
+  const { writeFile } = project;
+
+  it("should extract Zod object schemas with their constraints", async () => {
+    writeFile(
+      "schemas.ts",
+      `import { z } from "zod";
+
+       export enum Role { Admin = "admin", Member = "member" }
+
+       export const userSchema = z.object({
+         email: z.string().email().max(120),
+         age: z.number().int().min(18).optional(),
+         status: z.enum(["active", "banned"]).default("active"),
+         role: z.nativeEnum(Role),
+         tags: z.array(z.string()).nullable(),
+       });
+
+       export const adminSchema = userSchema.extend({ level: z.number() }).omit({ tags: true });`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.users).toEqual({
+      email: { type: "string", required: true, format: "email", maxLength: 120 },
+      age: { type: "number", required: false, integer: true, min: 18 },
+      status: { type: "enum", required: true, enum: ["active", "banned"], default: "active" },
+      role: { type: "enum", required: true, enum: ["admin", "member"] },
+      tags: { type: "array", required: true, items: "string", nullable: true },
+    });
+    expect(Object.keys(schema.tables.admins)).toEqual(["email", "age", "status", "role", "level"]);
+  }, 20000);
+
+  it("should extract Yup object schemas, optional unless required", async () => {
+    writeFile(
+      "schemas.ts",
+      `import * as yup from "yup";
+
+       export const PostValidator = yup.object().shape({
+         title: yup.string().required().min(3),
+         visibility: yup.string().oneOf(["public", "private"]),
+         views: yup.number().integer().default(0),
+       });`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.posts).toEqual({
+      title: { type: "string", required: true, minLength: 3 },
+      visibility: { type: "enum", required: false, enum: ["public", "private"] },
+      views: { type: "number", required: false, integer: true, default: 0 },
+    });
+  }, 20000);
+
+  it("should extract Valibot object schemas", async () => {
+    writeFile(
+      "schemas.ts",
+      `import * as v from "valibot";
+
+       const BaseSchema = v.object({ id: v.pipe(v.string(), v.uuid()) });
+
+       /** @hosby.table customer_accounts */
+       export const CustomerSchema = v.object({
+         ...BaseSchema.entries,
+         name: v.pipe(v.string(), v.minLength(2)),
+         plan: v.optional(v.picklist(["free", "pro"]), "free"),
+         credits: v.nullable(v.pipe(v.number(), v.minValue(0))),
+       });`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.customer_accounts).toEqual({
+      id: { type: "string", required: true, format: "uuid" },
+      name: { type: "string", required: true, minLength: 2 },
+      plan: { type: "enum", required: false, enum: ["free", "pro"], default: "free" },
+      credits: { type: "number", required: true, nullable: true, min: 0 },
+    });
+    expect(schema.metadata).toEqual({ annotatedTables: ["customer_accounts"] });
+  }, 20000);
+
+  it("should read class-validator decorators on classes", async () => {
+    writeFile(
+      "dto.ts",
+      `import { IsEmail, IsIn, IsOptional, Length, Min } from "class-validator";
+
+       export class Subscriber {
+         @IsEmail()
+         email!: string;
+
+         @IsOptional()
+         @Length(2, 40)
+         nickname!: string;
+
+         @IsIn(["weekly", "monthly"])
+         frequency!: string;
+
+         @Min(1)
+         count!: number;
+       }`
+    );
+
+    const schema = await scanProject(project.dir);
+    expect(schema.tables.subscribers).toEqual({
+      email: { type: "string", required: true, format: "email" },
+      nickname: { type: "string", required: false, minLength: 2, maxLength: 40 },
+      frequency: { type: "enum", required: true, enum: ["weekly", "monthly"] },
+      count: { type: "number", required: true, min: 1 },
+    });
+  }, 20000);
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import { rebuildSchema, watchDirectoryTree, watchSchema } from "../src/services/watch.service";
+import { diffSchemas, formatSchemaChanges } from "../src/helpers/schemaDiff";
+import { useTempProject } from "./helpers/tempProject";
+
+describe("scan --watch", () => {
+  const project = useTempProject("hosby-watch");
+  const { writeFile } = project;
+  let schemaPath: string;
+  let servicesDir: string;
+
+  beforeEach(() => {
+    schemaPath = path.join(project.dir, "hosby.schema.json");
+    servicesDir = path.join(project.dir, "services");
+    fs.mkdirSync(servicesDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should update the schema file and report the changes of each rebuild", async () => {
+    writeFile("src/models.ts", `export interface User { email: string; nickname?: string }`);
+
+    const first = await rebuildSchema(project.dir, { schemaPath });
+    expect(first.changes).toEqual([
+      {
+        kind: "table-added",
+        table: "users",
+        columns: {
+          email: { type: "string", required: true },
+          nickname: { type: "string", required: false },
+        },
+      },
+    ]);
+    expect(JSON.parse(fs.readFileSync(schemaPath, "utf-8")).tables.users).toBeDefined();
+
+    const unchanged = await rebuildSchema(project.dir, { schemaPath });
+    expect(unchanged.changes).toEqual([]);
+
+    writeFile(
+      "src/models.ts",
+      `export interface User { email: string; nickname: string; age: number }
+       export interface Post { title: string }`
+    );
+    fs.writeFileSync(path.join(servicesDir, "users.service.ts"), "// outdated");
+
+    const second = await rebuildSchema(project.dir, { schemaPath, servicesDir });
+    expect(second.changes.map(change => change.kind)).toEqual([
+      "column-changed",
+      "column-added",
+      "table-added",
+    ]);
+    expect(second.services).toEqual([path.join(servicesDir, "users.service.ts")]);
+    expect(fs.readFileSync(second.services[0], "utf-8")).toContain("age: number;");
+    expect(fs.existsSync(path.join(servicesDir, "posts.service.ts"))).toBe(false);
+  }, 20000);
+
+  it("should not rebuild on the files it writes itself", async () => {
+    writeFile("src/models.ts", `export interface User { email: string }`);
+    writeFile("services/users.service.ts", "");
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const rebuilds = (): number =>
+      log.mock.calls.filter(([line]) => /Updated|No schema changes/.test(String(line))).length;
+
+    const watching = watchSchema(project.dir, { schemaPath, servicesDir });
+    await vi.waitFor(() => expect(rebuilds()).toBe(1), { timeout: 10000 });
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    writeFile("src/models.ts", `export interface User { email: string; age: number }`);
+    await vi.waitFor(() => expect(rebuilds()).toBe(2), { timeout: 10000 });
+    expect(fs.readFileSync(path.join(servicesDir, "users.service.ts"), "utf-8")).toContain("age");
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    process.emit("SIGINT");
+    await watching;
+
+    expect(rebuilds()).toBe(2);
+  }, 20000);
+
+  it("should describe changes in one line each", () => {
+    chalk.level = 0;
+    const changes = diffSchemas(
+      {
+        tables: {
+          users: { email: "string", nickname: { type: "string", required: false } },
+          logs: { message: "string" },
+        },
+      },
+      {
+        tables: {
+          users: {
+            email: { type: "string", required: true },
+            role: { type: "enum", enum: ["admin", "member"] },
+            nickname: { type: "string", required: true },
+          },
+        },
+      }
+    );
+
+    expect(formatSchemaChanges(changes)).toEqual([
+      "- logs (1 column)",
+      "+ users.role: enum(admin|member)",
+      "~ users.nickname: required false → true",
+    ]);
+  });
+
+  it("should watch each directory where recursive watching is not available", () => {
+    writeFile("src/models/user.ts", "export interface User { email: string }");
+    const watch = fs.watch;
+    const spy = vi.spyOn(fs, "watch").mockImplementation(((...args: Parameters<typeof watch>) => {
+      if ((args[1] as fs.WatchOptions | undefined)?.recursive) {
+        throw Object.assign(new TypeError("The feature watch recursively is unavailable"), {
+          code: "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM",
+        });
+      }
+      return watch(...args);
+    }) as typeof fs.watch);
+
+    const close = watchDirectoryTree(project.dir, vi.fn(), vi.fn());
+    const watched = spy.mock.calls.filter(([, options]) => typeof options === "function");
+    close();
+
+    expect(
+      watched.map(([directory]) => path.relative(project.dir, directory.toString())).sort()
+    ).toEqual(["", "services", "src", path.join("src", "models")]);
+  });
+});